@@ -49,6 +49,17 @@ databases.forEach((dbName) => {
     db.createCollection("costData");
     db.createCollection("costSummaries");
     db.createCollection("costElements");
+    db.createCollection("columnMappingProfiles");
+    db.createCollection("costPlanVersions");
+    db.createCollection("matchingOverrides");
+    db.createCollection("unitCostCatalogs");
+    db.createCollection("projectSettings");
+    db.createCollection("priceIndices");
+    db.createCollection("processedElements");
+    db.createCollection("costBatches");
+    db.createCollection("costBatchStaging");
+    db.createCollection("costChangeReports");
+    db.createCollection("elementSnapshots");
 
     // Create indexes
     db.costData.createIndex({ element_id: 1 });
@@ -65,6 +76,35 @@ databases.forEach((dbName) => {
     db.costElements.createIndex({ ebkp_code: 1 });
     db.costElements.createIndex({ project_id: 1 });
     db.costElements.createIndex({ qto_element_id: 1 });
+
+    db.columnMappingProfiles.createIndex(
+      { project_name: 1, name: 1 },
+      { unique: true }
+    );
+
+    db.costPlanVersions.createIndex(
+      { project_name: 1, version: -1 },
+      { unique: true }
+    );
+
+    db.matchingOverrides.createIndex(
+      { project_name: 1, excel_code: 1 },
+      { unique: true }
+    );
+
+    db.unitCostCatalogs.createIndex({ name: 1 }, { unique: true });
+    db.projectSettings.createIndex({ project_name: 1 }, { unique: true });
+    db.priceIndices.createIndex({ name: 1 }, { unique: true });
+
+    db.processedElements.createIndex(
+      { project_name: 1, element_id: 1 },
+      { unique: true }
+    );
+
+    db.costBatches.createIndex({ status: 1 });
+    db.costBatchStaging.createIndex({ batch_id: 1, target: 1 });
+    db.costChangeReports.createIndex({ project_name: 1, created_at: -1 });
+    db.elementSnapshots.createIndex({ project_name: 1 }, { unique: true });
   } else if (dbName === "lca") {
     // Create collections for LCA
     db.createCollection("lcaResults");
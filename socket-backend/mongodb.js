@@ -1,5 +1,6 @@
 const { MongoClient, ObjectId } = require("mongodb");
 const dotenv = require("dotenv");
+const { getElementQuantity } = require("./units");
 
 // Ensure environment variables are loaded
 dotenv.config();
@@ -52,6 +53,9 @@ async function connectToMongoDB() {
 
       // Create collections if they don't exist
       await initializeCollections();
+
+      // Finish cost batches interrupted by a restart
+      await recoverCostBatches();
     }
 
     return {
@@ -92,9 +96,115 @@ async function initializeCollections() {
       console.log("Created costSummaries collection");
     }
 
+    // Create ColumnMappingProfiles collection if it doesn't exist
+    if (!costCollectionNames.includes("columnMappingProfiles")) {
+      await costDb.createCollection("columnMappingProfiles");
+      console.log("Created columnMappingProfiles collection");
+    }
+
+    // Create CostPlanVersions collection if it doesn't exist
+    if (!costCollectionNames.includes("costPlanVersions")) {
+      await costDb.createCollection("costPlanVersions");
+      console.log("Created costPlanVersions collection");
+    }
+
+    // Create CostPlanVersionCounters collection if it doesn't exist
+    if (!costCollectionNames.includes("costPlanVersionCounters")) {
+      await costDb.createCollection("costPlanVersionCounters");
+      console.log("Created costPlanVersionCounters collection");
+    }
+
+    // Create MatchingOverrides collection if it doesn't exist
+    if (!costCollectionNames.includes("matchingOverrides")) {
+      await costDb.createCollection("matchingOverrides");
+      console.log("Created matchingOverrides collection");
+    }
+
+    // Create UnitCostCatalogs collection if it doesn't exist
+    if (!costCollectionNames.includes("unitCostCatalogs")) {
+      await costDb.createCollection("unitCostCatalogs");
+      console.log("Created unitCostCatalogs collection");
+    }
+
+    // Create ProjectSettings collection if it doesn't exist
+    if (!costCollectionNames.includes("projectSettings")) {
+      await costDb.createCollection("projectSettings");
+      console.log("Created projectSettings collection");
+    }
+
+    // Create PriceIndices collection if it doesn't exist
+    if (!costCollectionNames.includes("priceIndices")) {
+      await costDb.createCollection("priceIndices");
+      console.log("Created priceIndices collection");
+    }
+
+    // Create ProcessedElements collection if it doesn't exist
+    if (!costCollectionNames.includes("processedElements")) {
+      await costDb.createCollection("processedElements");
+      console.log("Created processedElements collection");
+    }
+
+    // Create CostBatches collection if it doesn't exist
+    if (!costCollectionNames.includes("costBatches")) {
+      await costDb.createCollection("costBatches");
+      console.log("Created costBatches collection");
+    }
+
+    // Create CostBatchStaging collection if it doesn't exist
+    if (!costCollectionNames.includes("costBatchStaging")) {
+      await costDb.createCollection("costBatchStaging");
+      console.log("Created costBatchStaging collection");
+    }
+
+    // Create CostChangeReports collection if it doesn't exist
+    if (!costCollectionNames.includes("costChangeReports")) {
+      await costDb.createCollection("costChangeReports");
+      console.log("Created costChangeReports collection");
+    }
+
+    // Create ElementSnapshots collection if it doesn't exist
+    if (!costCollectionNames.includes("elementSnapshots")) {
+      await costDb.createCollection("elementSnapshots");
+      console.log("Created elementSnapshots collection");
+    }
+
     // Create indexes (idempotent operation - safe to run if they already exist)
     await costDb.collection("costData").createIndex({ element_id: 1 });
     await costDb.collection("costSummaries").createIndex({ project_id: 1 });
+    await costDb
+      .collection("columnMappingProfiles")
+      .createIndex({ project_name: 1, name: 1 }, { unique: true });
+    await costDb
+      .collection("costPlanVersions")
+      .createIndex({ project_name: 1, version: -1 }, { unique: true });
+    await costDb
+      .collection("costPlanVersionCounters")
+      .createIndex({ project_name: 1 }, { unique: true });
+    await costDb
+      .collection("matchingOverrides")
+      .createIndex({ project_name: 1, excel_code: 1 }, { unique: true });
+    await costDb
+      .collection("unitCostCatalogs")
+      .createIndex({ name: 1 }, { unique: true });
+    await costDb
+      .collection("projectSettings")
+      .createIndex({ project_name: 1 }, { unique: true });
+    await costDb
+      .collection("priceIndices")
+      .createIndex({ name: 1 }, { unique: true });
+    await costDb
+      .collection("processedElements")
+      .createIndex({ project_name: 1, element_id: 1 }, { unique: true });
+    await costDb.collection("costBatches").createIndex({ status: 1 });
+    await costDb
+      .collection("costBatchStaging")
+      .createIndex({ batch_id: 1, target: 1 });
+    await costDb
+      .collection("costChangeReports")
+      .createIndex({ project_name: 1, created_at: -1 });
+    await costDb
+      .collection("elementSnapshots")
+      .createIndex({ project_name: 1 }, { unique: true });
 
     console.log("MongoDB collections initialized");
   } catch (error) {
@@ -364,6 +474,86 @@ async function getCostDataForElement(elementId) {
   }
 }
 
+/**
+ * Recalculate the cost summary of a project by name, or null if the project
+ * is unknown
+ */
+async function getProjectCostSummary(projectName) {
+  await ensureConnection();
+
+  const qtoProject = await qtoDb.collection("projects").findOne({
+    name: { $regex: new RegExp(`^${projectName}$`, "i") },
+  });
+  if (!qtoProject) {
+    return null;
+  }
+
+  const summary = await updateProjectCostSummary(qtoProject._id);
+  if (summary.error) {
+    throw new Error(summary.error);
+  }
+  return summary;
+}
+
+/**
+ * Get the eBKP main group (the letter of the code) of a cost element, or ""
+ * if it has no eBKP code
+ */
+function getEbkpMainGroup(element) {
+  const code =
+    element.properties?.classification?.id ||
+    element.properties?.ebkph ||
+    element.ebkp_code ||
+    element.ebkph ||
+    "";
+  const group = code.trim().charAt(0).toUpperCase();
+  return /^[A-Z]$/.test(group) ? group : "";
+}
+
+/**
+ * Get the storey (IFC level) of a cost element, or "" if it has none
+ */
+function getElementLevel(element) {
+  return String(element.properties?.level || element.level || "").trim();
+}
+
+/**
+ * Order storeys by name, numbers by value, elements without a storey last
+ */
+function compareLevels(a, b) {
+  if (!a.level || !b.level) {
+    return (a.level ? 0 : 1) - (b.level ? 0 : 1);
+  }
+  return a.level.localeCompare(b.level, "de-CH", { numeric: true });
+}
+
+// Called with the budget targets a cost summary update newly exceeds
+let budgetExceededListener = null;
+
+/**
+ * Register the function called when a project exceeds budget targets it
+ * was within at its previous cost summary
+ */
+function onBudgetExceeded(listener) {
+  budgetExceededListener = listener;
+}
+
+/**
+ * Pass a budget overrun to the registered listener without delaying the
+ * summary update
+ */
+function notifyBudgetExceeded(event) {
+  console.log(
+    `Project '${event.projectName}' exceeds budget targets:`,
+    event.exceeded.map((target) => target.ebkp || "project")
+  );
+  if (!budgetExceededListener) return;
+
+  Promise.resolve()
+    .then(() => budgetExceededListener(event))
+    .catch((error) => console.error("Error handling budget overrun:", error));
+}
+
 /**
  * Update project cost summary
  */
@@ -395,17 +585,58 @@ async function updateProjectCostSummary(projectId) {
       project_id: projectObjId,
     });
 
+    // Kennwerte are stored as uploaded; the escalation to the target date of
+    // the project is applied to the totals
+    const qtoProject = await qtoDb
+      .collection("projects")
+      .findOne({ _id: projectObjId });
+    const priceEscalation = qtoProject
+      ? await getPriceEscalation(qtoProject.name)
+      : null;
+    const escalationFactor = priceEscalation ? priceEscalation.factor : 1;
+    const costSurcharges = qtoProject
+      ? await getCostSurcharges(qtoProject.name)
+      : [];
+    const budgetTargets = qtoProject
+      ? await getBudgetTargets(qtoProject.name)
+      : [];
+    const referenceQuantities = qtoProject
+      ? await resolveReferenceQuantities(qtoProject.name)
+      : { gf: null, gv: null };
+
     if (costElements.length === 0) {
       console.log(`No cost elements found for project ${projectId}`);
-      return {
+      const costBreakdown = calculateCostBreakdown({}, costSurcharges);
+      const emptySummary = {
         project_id: projectObjId,
         elements_count: 0,
         cost_data_count: costDataCount,
         total_from_cost_data: 0,
         total_from_elements: 0,
+        total_from_cost_data_escalated: 0,
+        total_from_elements_escalated: 0,
+        price_escalation: priceEscalation,
+        cost_breakdown: costBreakdown,
+        cost_by_level: [],
+        budget_status: compareBudgetTargets(budgetTargets, costBreakdown, {}),
+        cost_benchmarks: calculateCostBenchmarks(
+          referenceQuantities,
+          costBreakdown
+        ),
         created_at: new Date(),
         updated_at: new Date(),
       };
+
+      // Replace the summary of the previous costs, nothing can be over budget
+      await costDb
+        .collection("costSummaries")
+        .updateOne(
+          { project_id: projectObjId },
+          { $set: emptySummary },
+          { upsert: true }
+        );
+
+      return emptySummary;
     }
 
     // Create a map of element IDs to prevent double counting in hierarchical elements
@@ -415,13 +646,39 @@ async function updateProjectCostSummary(projectId) {
     // This mimics what the UI does in CostTableRow.tsx
     let totalFromElements = 0;
 
+    // Escalated net cost by eBKP main group, the base of the surcharges
+    const netByGroup = {};
+    // The same cost by storey, split again by eBKP main group
+    const costByLevel = {};
+    // And by eBKP code, for the budgets of subgroups
+    const netByCode = {};
+
     costElements.forEach((element) => {
       const elementId = element._id.toString();
       if (!processedElementIds.has(elementId)) {
         processedElementIds.add(elementId);
+
+        const level = getElementLevel(element);
+        costByLevel[level] = costByLevel[level] || {
+          level,
+          cost: 0,
+          elements_count: 0,
+          by_group: {},
+        };
+        costByLevel[level].elements_count++;
+
         // Only add the element's total cost if it has one
         if (element.total_cost) {
           totalFromElements += element.total_cost;
+
+          const group = getEbkpMainGroup(element);
+          const cost = element.total_cost * escalationFactor;
+          netByGroup[group] = (netByGroup[group] || 0) + cost;
+          costByLevel[level].cost += cost;
+          costByLevel[level].by_group[group] =
+            (costByLevel[level].by_group[group] || 0) + cost;
+          const code = toComparableEbkpCode(getElementEbkpCode(element));
+          netByCode[code] = (netByCode[code] || 0) + cost;
         }
       }
     });
@@ -437,6 +694,8 @@ async function updateProjectCostSummary(projectId) {
       .then((result) => result[0]?.total || 0)
       .catch((_) => 0);
 
+    const costBreakdown = calculateCostBreakdown(netByGroup, costSurcharges);
+
     // Create simplified summary document with only the requested fields
     const summary = {
       project_id: projectObjId,
@@ -444,6 +703,20 @@ async function updateProjectCostSummary(projectId) {
       cost_data_count: costDataCount,
       total_from_cost_data: costDataTotal,
       total_from_elements: totalFromElements,
+      total_from_cost_data_escalated: costDataTotal * escalationFactor,
+      total_from_elements_escalated: totalFromElements * escalationFactor,
+      price_escalation: priceEscalation,
+      cost_breakdown: costBreakdown,
+      cost_by_level: Object.values(costByLevel).sort(compareLevels),
+      budget_status: compareBudgetTargets(
+        budgetTargets,
+        costBreakdown,
+        netByCode
+      ),
+      cost_benchmarks: calculateCostBenchmarks(
+        referenceQuantities,
+        costBreakdown
+      ),
       created_at: new Date(),
       updated_at: new Date(),
     };
@@ -454,8 +727,16 @@ async function updateProjectCostSummary(projectId) {
       cost_data_count: summary.cost_data_count,
       total_from_elements: summary.total_from_elements,
       total_from_cost_data: summary.total_from_cost_data,
+      escalation_factor: escalationFactor,
+      total_gross: summary.cost_breakdown.gross,
+      gross_per_gf: summary.cost_benchmarks.gross.per_gf,
     });
 
+    // Alert only on targets the previous summary was still within
+    const previousSummary = await costDb
+      .collection("costSummaries")
+      .findOne({ project_id: projectObjId });
+
     const result = await costDb
       .collection("costSummaries")
       .updateOne(
@@ -464,6 +745,22 @@ async function updateProjectCostSummary(projectId) {
         { upsert: true }
       );
 
+    const newlyExceeded = summary.budget_status.filter(
+      (status) =>
+        status.exceeded &&
+        !(previousSummary?.budget_status || []).some(
+          (previous) => previous.ebkp === status.ebkp && previous.exceeded
+        )
+    );
+    if (newlyExceeded.length > 0) {
+      notifyBudgetExceeded({
+        projectId: projectObjId.toString(),
+        projectName: qtoProject?.name,
+        exceeded: newlyExceeded,
+        totalGross: costBreakdown.gross,
+      });
+    }
+
     return summary;
   } catch (error) {
     console.error("Error updating project cost summary:", error);
@@ -848,372 +1145,686 @@ async function getCostElementsByEbkpCode(ebkpCode) {
   }
 }
 
+// Key of a cost element in each dimension of the cost dashboard
+const COST_DASHBOARD_DIMENSIONS = {
+  // eBKP main group, as in getEbkpMainGroup
+  group: {
+    $let: {
+      vars: {
+        group: {
+          $toUpper: {
+            $substrCP: [
+              {
+                $trim: {
+                  input: {
+                    $ifNull: [
+                      "$properties.classification.id",
+                      "$properties.ebkph",
+                      "$ebkp_code",
+                      "$ebkph",
+                      "",
+                    ],
+                  },
+                },
+              },
+              0,
+              1,
+            ],
+          },
+        },
+      },
+      in: {
+        $cond: [
+          { $regexMatch: { input: "$$group", regex: /^[A-Z]$/ } },
+          "$$group",
+          "",
+        ],
+      },
+    },
+  },
+  // Storey, as in getElementLevel
+  level: {
+    $trim: {
+      input: { $toString: { $ifNull: ["$properties.level", "$level", ""] } },
+    },
+  },
+  category: { $ifNull: ["$properties.category", "$element_type", ""] },
+  structural: {
+    $cond: [
+      { $eq: ["$properties.is_structural", true] },
+      "structural",
+      "non_structural",
+    ],
+  },
+};
+
+// Project the dashboard keys, quantity and cost of the cost elements
+const COST_DASHBOARD_PROJECTION = {
+  ...COST_DASHBOARD_DIMENSIONS,
+  total_cost: { $ifNull: ["$total_cost", 0] },
+};
+
 /**
- * Save cost data in batch
- * This function now only processes QTO elements for costElements collection
- * Excel data is already saved to costData in a separate step
+ * Find the QTO project of a cost dashboard request and the escalation factor
+ * of its Kennwerte
  */
-async function saveCostDataBatch(costItems, projectName) {
-  try {
-    // Ensure MongoDB connection and get database references
-    const { costDb: costDatabase, qtoDb: qtoDatabase } =
-      await ensureConnection();
+async function getCostDashboardProject(projectName) {
+  const project = await qtoDb.collection("projects").findOne({
+    name: { $regex: new RegExp(`^${projectName}$`, "i") },
+  });
+  if (!project) {
+    throw new Error(`Project ${projectName} not found`);
+  }
 
-    console.log(
-      `Starting batch save for project: ${projectName}, ${costItems.length} items from matching QTO elements for costElements collection`
+  const priceEscalation = await getPriceEscalation(project.name);
+  return {
+    project,
+    escalationFactor: priceEscalation ? priceEscalation.factor : 1,
+  };
+}
+
+/**
+ * Aggregate the escalated cost of a project's cost elements by eBKP main
+ * group, level, category and structural vs. non-structural
+ */
+async function getCostDashboard(projectName) {
+  await ensureConnection();
+
+  try {
+    const { project, escalationFactor } = await getCostDashboardProject(
+      projectName
     );
+    const dimensions = Object.keys(COST_DASHBOARD_DIMENSIONS);
 
-    if (!costItems || costItems.length === 0) {
-      console.warn("No cost items provided to save");
-      return { insertedCount: 0, message: "No items to save" };
-    }
+    const [facets] = await costDb
+      .collection("costElements")
+      .aggregate([
+        { $match: { project_id: project._id } },
+        { $project: COST_DASHBOARD_PROJECTION },
+        {
+          $facet: Object.fromEntries(
+            dimensions.map((dimension) => [
+              dimension,
+              [
+                {
+                  $group: {
+                    _id: `$${dimension}`,
+                    cost: { $sum: "$total_cost" },
+                    count: { $sum: 1 },
+                  },
+                },
+                { $sort: { cost: -1, _id: 1 } },
+              ],
+            ])
+          ),
+        },
+      ])
+      .toArray();
 
-    // First, find the project in QTO database
-    console.log(`Looking up project in QTO database: ${projectName}`);
-    const qtoProject = await qtoDatabase.collection("projects").findOne({
-      name: { $regex: new RegExp(`^${projectName}$`, "i") },
+    const dashboard = {
+      total: 0,
+      elements_count: 0,
+      escalation_factor: escalationFactor,
+      currency: "CHF",
+    };
+    dimensions.forEach((dimension) => {
+      dashboard[dimension] = facets[dimension].map((bucket) => ({
+        key: bucket._id,
+        cost: bucket.cost * escalationFactor,
+        count: bucket.count,
+      }));
+    });
+    dashboard.group.forEach((bucket) => {
+      dashboard.total += bucket.cost;
+      dashboard.elements_count += bucket.count;
     });
 
-    let projectId;
+    return dashboard;
+  } catch (error) {
+    console.error("Error aggregating cost dashboard:", error);
+    throw error;
+  }
+}
 
-    if (qtoProject) {
-      // Use the existing QTO project ID
-      projectId = qtoProject._id;
-      console.log(`Found existing QTO project with ID: ${projectId}`);
-    } else {
-      // Create a new project ID if QTO project doesn't exist
-      projectId = new ObjectId();
-      console.log(`Creating new project with ID: ${projectId}`);
-
-      // Create the project in QTO database
-      await qtoDatabase.collection("projects").insertOne({
-        _id: projectId,
-        name: projectName,
-        type: "BimProject",
-        status: "active",
-        metadata: {
-          source: "cost-plugin",
-          has_cost_data: true,
-        },
-        created_at: new Date(),
-        updated_at: new Date(),
-      });
+/**
+ * Get the cost elements behind one bar of the cost dashboard, most expensive
+ * first
+ */
+async function getCostDashboardElements(projectName, dimension, key) {
+  await ensureConnection();
+
+  try {
+    if (!COST_DASHBOARD_DIMENSIONS[dimension]) {
+      throw new Error(`Unknown dashboard dimension '${dimension}'`);
     }
 
-    // IMPORTANT NOTE: We do NOT delete costData entries here
-    // This function is called during preview confirmation
-    // costData entries are already saved during the Excel upload phase
-    // and should not be touched here
-    console.log(
-      `NOTE: Not deleting costData entries in this flow - only updating costElements`
+    const { project, escalationFactor } = await getCostDashboardProject(
+      projectName
     );
 
-    // Find existing QTO elements for this project
-    console.log(`Fetching existing QTO elements for project ${projectName}`);
-    let existingElements = await qtoDatabase
-      .collection("elements")
-      .find({ project_id: projectId })
+    const elements = await costDb
+      .collection("costElements")
+      .aggregate([
+        { $match: { project_id: project._id } },
+        {
+          $project: {
+            ...COST_DASHBOARD_PROJECTION,
+            qto_element_id: 1,
+            global_id: 1,
+            element_type: 1,
+            ebkp_code: {
+              $ifNull: [
+                "$properties.classification.id",
+                "$properties.ebkph",
+                "$ebkp_code",
+                "$ebkph",
+                "",
+              ],
+            },
+            quantity: {
+              $ifNull: ["$original_area", "$quantity", "$properties.area", 0],
+            },
+            unit_cost: { $ifNull: ["$unit_cost", 0] },
+          },
+        },
+        { $match: { [dimension]: key || "" } },
+        { $sort: { total_cost: -1 } },
+      ])
       .toArray();
 
-    console.log(
-      `Found ${existingElements.length} existing QTO elements by project_id`
-    );
+    return elements.map((element) => ({
+      ...element,
+      unit_cost: element.unit_cost * escalationFactor,
+      total_cost: element.total_cost * escalationFactor,
+    }));
+  } catch (error) {
+    console.error("Error getting cost dashboard elements:", error);
+    throw error;
+  }
+}
 
-    // If we didn't find many elements, try broader searches
-    if (existingElements.length < 10) {
-      console.log(
-        "Few elements found by project ID, trying alternative searches..."
-      );
+/**
+ * Normalize an eBKP code for comparison, e.g. "c 01.02" → "C1.2"
+ */
+function toComparableEbkpCode(code) {
+  return String(code || "")
+    .toUpperCase()
+    .replace(/\s+/g, "")
+    .replace(/([A-Z.])0+(\d)/g, "$1$2");
+}
 
-      // Search for elements with eBKP classification
-      const ebkpElements = await qtoDatabase
-        .collection("elements")
-        .find({
-          $or: [
-            { "properties.classification.system": "EBKP" },
-            { "properties.ebkph": { $exists: true } },
-            { ebkp_code: { $exists: true } },
-          ],
-        })
-        .limit(300)
-        .toArray();
+/**
+ * Get the eBKP code of a QTO or cost element
+ */
+function getElementEbkpCode(element) {
+  return (
+    element.properties?.classification?.id ||
+    element.properties?.ebkph ||
+    element.ebkp_code ||
+    element.ebkph ||
+    ""
+  );
+}
 
-      console.log(
-        `Found ${ebkpElements.length} elements with eBKP codes via alternative search`
-      );
+/**
+ * Get the elements matched to a cost row of a project, with the manual
+ * matching override of its code applied. Elements priced by the last saved
+ * upload come from costElements with their unit cost and total; otherwise
+ * they are the QTO elements of the code, without cost.
+ */
+async function getCostItemElements(projectName, ebkpCode) {
+  await ensureConnection();
 
-      // Combine unique elements from both searches
-      const allElementsMap = {};
-      [...existingElements, ...ebkpElements].forEach((element) => {
-        if (!allElementsMap[element._id]) {
-          allElementsMap[element._id] = element;
-        }
-      });
+  try {
+    const project = await qtoDb.collection("projects").findOne({
+      name: { $regex: new RegExp(`^${projectName}$`, "i") },
+    });
+    if (!project) {
+      throw new Error(`Project ${projectName} not found`);
+    }
 
-      existingElements = Object.values(allElementsMap);
-      console.log(
-        `Total unique elements after combined searches: ${existingElements.length}`
-      );
+    const override = (await getMatchingOverrides(projectName)).find(
+      (entry) =>
+        toComparableEbkpCode(entry.excelCode) === toComparableEbkpCode(ebkpCode)
+    );
+    if (override?.excluded) {
+      return { source: "qto", elements: [] };
     }
+    const codes = new Set(
+      (override ? override.modelCodes : [ebkpCode]).map(toComparableEbkpCode)
+    );
+    const matches = (element) =>
+      codes.has(toComparableEbkpCode(getElementEbkpCode(element)));
 
-    // Create a mapping from eBKP code to element ID
-    const ebkpToElementMap = {};
+    const costElements = (
+      await costDb
+        .collection("costElements")
+        .find({ project_id: project._id })
+        .toArray()
+    ).filter(matches);
+    const source = costElements.length > 0 ? "cost" : "qto";
+    const elements =
+      source === "cost"
+        ? costElements
+        : (
+            await qtoDb
+              .collection("elements")
+              .find({ project_id: project._id })
+              .toArray()
+          ).filter(matches);
 
-    // Helper function to normalize eBKP codes for better matching
-    const normalizeEbkpCode = (code) => {
-      if (!code) return null;
-      // Remove spaces, lowercase, remove any non-alphanumeric except dots
-      return code.trim().replace(/\s+/g, "").toLowerCase();
+    return {
+      source,
+      elements: elements.map((element) => ({
+        id: String(element.qto_element_id || element._id),
+        global_id:
+          element.global_id ||
+          element.properties?.global_id ||
+          element.guid ||
+          "",
+        ebkp_code: getElementEbkpCode(element),
+        category: element.properties?.category || element.element_type || "",
+        level: getElementLevel(element),
+        area:
+          element.original_area ||
+          element.quantity ||
+          element.properties?.area ||
+          0,
+        volume: element.volume || element.properties?.volume || 0,
+        length: element.length || element.properties?.length || 0,
+        ...(source === "cost"
+          ? {
+              unit_cost: element.unit_cost || 0,
+              total_cost: element.total_cost || 0,
+            }
+          : {}),
+      })),
     };
+  } catch (error) {
+    console.error("Error getting elements of cost row:", error);
+    throw error;
+  }
+}
 
-    // Create both normalized and original versions in the map
-    existingElements.forEach((element) => {
-      // Check all possible locations for eBKP code
-      let ebkpCode = null;
-
-      // 1. Check properties.ebkph
-      if (element.properties?.ebkph) {
-        ebkpCode = element.properties.ebkph;
-      }
-      // 2. Check properties.classification.id
-      else if (element.properties?.classification?.id) {
-        ebkpCode = element.properties.classification.id;
-      }
-      // 3. Check ebkp_code directly on element
-      else if (element.ebkp_code) {
-        ebkpCode = element.ebkp_code;
-      }
+/**
+ * Find a project in the QTO database by name or create it
+ */
+async function findOrCreateProject(projectName) {
+  console.log(`Looking up project in QTO database: ${projectName}`);
+  const qtoProject = await qtoDb.collection("projects").findOne({
+    name: { $regex: new RegExp(`^${projectName}$`, "i") },
+  });
+
+  if (qtoProject) {
+    console.log(`Found existing QTO project with ID: ${qtoProject._id}`);
+    return qtoProject._id;
+  }
 
-      if (ebkpCode) {
-        // Store with original code
-        ebkpToElementMap[ebkpCode] = element._id;
-        // Also store with normalized code
-        const normalizedCode = normalizeEbkpCode(ebkpCode);
-        if (normalizedCode && normalizedCode !== ebkpCode) {
-          ebkpToElementMap[normalizedCode] = element._id;
-        }
-        console.log(`Mapped element ${element._id} to eBKP code ${ebkpCode}`);
-      }
-    });
+  // Create the project in QTO database
+  const projectId = new ObjectId();
+  console.log(`Creating new project with ID: ${projectId}`);
+
+  await qtoDb.collection("projects").insertOne({
+    _id: projectId,
+    name: projectName,
+    type: "BimProject",
+    status: "active",
+    metadata: {
+      source: "cost-plugin",
+      has_cost_data: true,
+    },
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  return projectId;
+}
 
+/**
+ * Build the costElements documents and the cost updates of the QTO elements
+ * for matched cost items, without writing anything
+ */
+async function prepareCostElements(costItems, projectId) {
+  // Find existing QTO elements for this project
+  console.log(`Fetching existing QTO elements for project ${projectId}`);
+  let existingElements = await qtoDb
+    .collection("elements")
+    .find({ project_id: projectId })
+    .toArray();
+
+  console.log(
+    `Found ${existingElements.length} existing QTO elements by project_id`
+  );
+
+  // If we didn't find many elements, try broader searches
+  if (existingElements.length < 10) {
     console.log(
-      `Created mapping for ${
-        Object.keys(ebkpToElementMap).length
-      } elements by eBKP code`
+      "Few elements found by project ID, trying alternative searches..."
     );
 
-    // Create a map to store QTO elements by EBKP code for efficient lookup
-    const ebkpToElementsMap = {};
-
-    // Build the map of QTO elements by EBKP code
-    existingElements.forEach((element) => {
-      // Get EBKP code from any possible location
-      let ebkpCode =
-        element.properties?.ebkph ||
-        element.properties?.classification?.id ||
-        element.ebkp_code;
+    // Search for elements with eBKP classification
+    const ebkpElements = await qtoDb
+      .collection("elements")
+      .find({
+        $or: [
+          { "properties.classification.system": "EBKP" },
+          { "properties.ebkph": { $exists: true } },
+          { ebkp_code: { $exists: true } },
+        ],
+      })
+      .limit(300)
+      .toArray();
 
-      if (ebkpCode) {
-        if (!ebkpToElementsMap[ebkpCode]) {
-          ebkpToElementsMap[ebkpCode] = [];
-        }
-        ebkpToElementsMap[ebkpCode].push(element);
+    console.log(
+      `Found ${ebkpElements.length} elements with eBKP codes via alternative search`
+    );
 
-        // Also add with normalized code
-        const normalizedCode = normalizeEbkpCode(ebkpCode);
-        if (normalizedCode && normalizedCode !== ebkpCode) {
-          if (!ebkpToElementsMap[normalizedCode]) {
-            ebkpToElementsMap[normalizedCode] = [];
-          }
-          ebkpToElementsMap[normalizedCode].push(element);
-        }
+    // Combine unique elements from both searches
+    const allElementsMap = {};
+    [...existingElements, ...ebkpElements].forEach((element) => {
+      if (!allElementsMap[element._id]) {
+        allElementsMap[element._id] = element;
       }
     });
 
-    // Track which elements were matched
-    const matchedElements = new Set();
-    const unmatchedEbkpCodes = [];
+    existingElements = Object.values(allElementsMap);
+    console.log(
+      `Total unique elements after combined searches: ${existingElements.length}`
+    );
+  }
 
-    // Use a Map to track which QTO elements have already been processed for costElements
-    const processedQtoElements = new Map();
+  // Create a mapping from eBKP code to element ID
+  const ebkpToElementMap = {};
 
-    // Arrays to hold documents to save
-    const elementOps = [];
+  // Helper function to normalize eBKP codes for better matching
+  const normalizeEbkpCode = (code) => {
+    if (!code) return null;
+    // Remove spaces, lowercase, remove any non-alphanumeric except dots
+    return code.trim().replace(/\s+/g, "").toLowerCase();
+  };
 
-    // STEP 1: Skip saving Excel items to costData - we've already done this separately
-    console.log(`Skipping costData insertion - already saved during upload`);
+  // Create both normalized and original versions in the map
+  existingElements.forEach((element) => {
+    // Check all possible locations for eBKP code
+    let ebkpCode = null;
 
-    // STEP 2: Now process the QTO elements that match the Excel items
-    // ----------------------------------------------------------------------
-    costItems.forEach((item) => {
-      // Get EBKP code and cost data
-      const ebkpCode = item.ebkp || item.ebkph || item.id;
-      const kennwert = item.cost_unit || item.kennwert || 0;
+    // 1. Check properties.ebkph
+    if (element.properties?.ebkph) {
+      ebkpCode = element.properties.ebkph;
+    }
+    // 2. Check properties.classification.id
+    else if (element.properties?.classification?.id) {
+      ebkpCode = element.properties.classification.id;
+    }
+    // 3. Check ebkp_code directly on element
+    else if (element.ebkp_code) {
+      ebkpCode = element.ebkp_code;
+    }
 
-      // Skip items with zero unit cost
-      if (kennwert <= 0) {
-        console.log(
-          `Skipping cost item with EBKP ${ebkpCode || ""} due to zero unit cost`
-        );
-        return;
+    if (ebkpCode) {
+      // Store with original code
+      ebkpToElementMap[ebkpCode] = element._id;
+      // Also store with normalized code
+      const normalizedCode = normalizeEbkpCode(ebkpCode);
+      if (normalizedCode && normalizedCode !== ebkpCode) {
+        ebkpToElementMap[normalizedCode] = element._id;
       }
-
-      if (!ebkpCode) {
-        console.warn("Item has no EBKP code, skipping:", item);
-        return;
+      console.log(`Mapped element ${element._id} to eBKP code ${ebkpCode}`);
+    }
+  });
+
+  console.log(
+    `Created mapping for ${
+      Object.keys(ebkpToElementMap).length
+    } elements by eBKP code`
+  );
+
+  // Create a map to store QTO elements by EBKP code for efficient lookup
+  const ebkpToElementsMap = {};
+
+  // Build the map of QTO elements by EBKP code
+  existingElements.forEach((element) => {
+    // Get EBKP code from any possible location
+    let ebkpCode =
+      element.properties?.ebkph ||
+      element.properties?.classification?.id ||
+      element.ebkp_code;
+
+    if (ebkpCode) {
+      if (!ebkpToElementsMap[ebkpCode]) {
+        ebkpToElementsMap[ebkpCode] = [];
       }
+      ebkpToElementsMap[ebkpCode].push(element);
 
-      // Normalize eBKP code for matching
+      // Also add with normalized code
       const normalizedCode = normalizeEbkpCode(ebkpCode);
-
-      // Find matching QTO element
-      let elementId = null;
-      if (normalizedCode && ebkpToElementMap[normalizedCode]) {
-        elementId = ebkpToElementMap[normalizedCode];
-      } else if (ebkpToElementMap[ebkpCode]) {
-        elementId = ebkpToElementMap[ebkpCode];
+      if (normalizedCode && normalizedCode !== ebkpCode) {
+        if (!ebkpToElementsMap[normalizedCode]) {
+          ebkpToElementsMap[normalizedCode] = [];
+        }
+        ebkpToElementsMap[normalizedCode].push(element);
       }
+    }
+  });
 
-      if (elementId) {
-        matchedElements.add(ebkpCode);
+  // Track which elements were matched
+  const matchedElements = new Set();
+  const unmatchedEbkpCodes = [];
 
-        // Update existing QTO element with cost data
-        elementOps.push({
-          updateOne: {
-            filter: {
-              _id: elementId,
-            },
-            update: {
-              $set: {
-                unit_cost: kennwert,
-                total_cost: item.totalChf || item.cost || 0,
-                currency: "CHF",
-                updated_at: new Date(),
-                // Update metadata as an object with $set to avoid conflict
-                metadata: {
-                  // Preserve existing metadata if any
-                  ...(existingElements.find(
-                    (e) => e._id.toString() === elementId.toString()
-                  )?.metadata || {}),
-                  // Add cost-specific metadata
-                  has_cost_data: true,
-                  cost_updated_at: new Date(),
-                },
-              },
-            },
-          },
-        });
+  // Use a Map to track which QTO elements have already been processed for costElements
+  const processedQtoElements = new Map();
 
-        // Find QTO elements with this EBKP code
-        const qtoElements =
-          ebkpToElementsMap[normalizedCode] ||
-          ebkpToElementsMap[ebkpCode] ||
-          [];
-
-        if (qtoElements.length > 0) {
-          // Process each QTO element but store only one entry per element
-          qtoElements.forEach((qtoElement) => {
-            const qtoElementId = qtoElement._id.toString();
-
-            // Check if we've already processed this QTO element
-            if (!processedQtoElements.has(qtoElementId)) {
-              // Calculate element-specific total cost based on its quantity/area
-              const elementArea =
-                qtoElement.original_area ||
-                qtoElement.quantity ||
-                qtoElement.properties?.area ||
-                0;
-              const elementTotalCost = kennwert * elementArea;
-
-              // Store this cost data for this QTO element
-              processedQtoElements.set(qtoElementId, {
-                unit_cost: kennwert,
-                total_cost: elementTotalCost,
-                currency: "CHF",
-                source: "excel-import",
-                timestamp: new Date(),
-              });
-            }
-          });
-        }
-      } else {
-        // Track EBKP codes that didn't match any elements
-        unmatchedEbkpCodes.push(ebkpCode);
-      }
-    });
+  // Arrays to hold documents to save
+  const elementUpdates = [];
 
-    // Now create costElements entries - only one per QTO element
-    const costElementsToSave = [];
+  // Process the QTO elements that match the Excel items
+  // ----------------------------------------------------------------------
+  costItems.forEach((item) => {
+    // Get EBKP code and cost data
+    const ebkpCode = item.ebkp || item.ebkph || item.id;
+    const kennwert = item.cost_unit || item.kennwert || 0;
 
-    // Process the map of QTO elements with cost data
-    for (const [qtoElementId, costData] of processedQtoElements.entries()) {
-      // Find the QTO element
-      const qtoElement = existingElements.find(
-        (e) => e._id.toString() === qtoElementId
+    // Skip items with zero unit cost
+    if (kennwert <= 0) {
+      console.log(
+        `Skipping cost item with EBKP ${ebkpCode || ""} due to zero unit cost`
       );
+      return;
+    }
 
-      if (qtoElement) {
-        // Create the costElement document
-        const costElementDoc = {
-          // Use the QTO element as the base
-          ...qtoElement,
-
-          // Generate a new ID for this collection
-          _id: new ObjectId(),
-
-          // Reference to original QTO element
-          qto_element_id: qtoElement._id,
-
-          // Add cost data without changing the structure
-          unit_cost: costData.unit_cost,
-          total_cost: costData.total_cost,
-          currency: costData.currency,
-
-          // Add cost data to properties
-          properties: {
-            ...qtoElement.properties,
-            cost_data: {
-              unit_cost: costData.unit_cost,
-              total_cost: costData.total_cost,
-              source: costData.source,
-              timestamp: costData.timestamp,
-            },
-          },
+    if (!ebkpCode) {
+      console.warn("Item has no EBKP code, skipping:", item);
+      return;
+    }
 
-          // Update timestamps
-          qto_created_at: qtoElement.created_at,
-          qto_updated_at: qtoElement.updated_at,
-          created_at: new Date(),
-          updated_at: new Date(),
-        };
+    // Normalize eBKP code for matching
+    const normalizedCode = normalizeEbkpCode(ebkpCode);
 
-        costElementsToSave.push(costElementDoc);
-      }
+    // Find matching QTO element
+    let elementId = null;
+    if (normalizedCode && ebkpToElementMap[normalizedCode]) {
+      elementId = ebkpToElementMap[normalizedCode];
+    } else if (ebkpToElementMap[ebkpCode]) {
+      elementId = ebkpToElementMap[ebkpCode];
     }
 
-    // Log how many elements were matched/unmatched
-    console.log(`Matched ${matchedElements.size} elements with eBKP codes`);
-    if (unmatchedEbkpCodes.length > 0) {
-      console.log(
-        `${
-          unmatchedEbkpCodes.length
-        } eBKP codes did not match any existing elements: ${unmatchedEbkpCodes
-          .slice(0, 5)
-          .join(", ")}${unmatchedEbkpCodes.length > 5 ? "..." : ""}`
-      );
+    if (elementId) {
+      matchedElements.add(ebkpCode);
+
+      // Update existing QTO element with cost data
+      elementUpdates.push({
+        _id: elementId,
+        set: {
+          unit_cost: kennwert,
+          total_cost: item.totalChf || item.cost || 0,
+          currency: "CHF",
+          updated_at: new Date(),
+          // Update metadata as an object with $set to avoid conflict
+          metadata: {
+            // Preserve existing metadata if any
+            ...(existingElements.find(
+              (e) => e._id.toString() === elementId.toString()
+            )?.metadata || {}),
+            // Add cost-specific metadata
+            has_cost_data: true,
+            cost_updated_at: new Date(),
+          },
+        },
+      });
+
+      // Find QTO elements with this EBKP code
+      const qtoElements =
+        ebkpToElementsMap[normalizedCode] || ebkpToElementsMap[ebkpCode] || [];
+
+      if (qtoElements.length > 0) {
+        // Process each QTO element but store only one entry per element
+        qtoElements.forEach((qtoElement) => {
+          const qtoElementId = qtoElement._id.toString();
+
+          // Check if we've already processed this QTO element
+          if (!processedQtoElements.has(qtoElementId)) {
+            // Calculate element-specific total cost from the quantity in
+            // the unit of the cost item
+            const unit = item.einheit || "";
+            const quantity = getElementQuantity(qtoElement, unit);
+            const elementTotalCost = kennwert * quantity;
+
+            // Store this cost data for this QTO element
+            processedQtoElements.set(qtoElementId, {
+              unit_cost: kennwert,
+              quantity,
+              unit,
+              total_cost: elementTotalCost,
+              currency: "CHF",
+              source: "excel-import",
+              timestamp: new Date(),
+            });
+          }
+        });
+      }
+    } else {
+      // Track EBKP codes that didn't match any elements
+      unmatchedEbkpCodes.push(ebkpCode);
+    }
+  });
+
+  // Now create costElements entries - only one per QTO element
+  const costElementsToSave = [];
+
+  // Process the map of QTO elements with cost data
+  for (const [qtoElementId, costData] of processedQtoElements.entries()) {
+    // Find the QTO element
+    const qtoElement = existingElements.find(
+      (e) => e._id.toString() === qtoElementId
+    );
+
+    if (qtoElement) {
+      // Create the costElement document
+      const costElementDoc = {
+        // Use the QTO element as the base
+        ...qtoElement,
+
+        // Generate a new ID for this collection
+        _id: new ObjectId(),
+
+        // Reference to original QTO element
+        qto_element_id: qtoElement._id,
+
+        // Add cost data without changing the structure
+        unit_cost: costData.unit_cost,
+        cost_quantity: costData.quantity,
+        cost_quantity_unit: costData.unit,
+        total_cost: costData.total_cost,
+        currency: costData.currency,
+
+        // Add cost data to properties
+        properties: {
+          ...qtoElement.properties,
+          cost_data: {
+            unit_cost: costData.unit_cost,
+            quantity: costData.quantity,
+            unit: costData.unit,
+            total_cost: costData.total_cost,
+            source: costData.source,
+            timestamp: costData.timestamp,
+          },
+        },
+
+        // Update timestamps
+        qto_created_at: qtoElement.created_at,
+        qto_updated_at: qtoElement.updated_at,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      costElementsToSave.push(costElementDoc);
     }
+  }
 
-    // Log what we're about to save
+  // Log how many elements were matched/unmatched
+  console.log(`Matched ${matchedElements.size} elements with eBKP codes`);
+  if (unmatchedEbkpCodes.length > 0) {
     console.log(
-      `Prepared ${costElementsToSave.length} cost elements for saving from QTO elements`
+      `${
+        unmatchedEbkpCodes.length
+      } eBKP codes did not match any existing elements: ${unmatchedEbkpCodes
+        .slice(0, 5)
+        .join(", ")}${unmatchedEbkpCodes.length > 5 ? "..." : ""}`
     );
+  }
 
-    if (costElementsToSave.length > 0) {
-      console.log(
-        `Sample cost element: ${JSON.stringify(costElementsToSave[0], null, 2)}`
-      );
+  // Log what we're about to save
+  console.log(
+    `Prepared ${costElementsToSave.length} cost elements for saving from QTO elements`
+  );
+
+  if (costElementsToSave.length > 0) {
+    console.log(
+      `Sample cost element: ${JSON.stringify(costElementsToSave[0], null, 2)}`
+    );
+  }
+
+  return { costElementsToSave, elementUpdates };
+}
+
+/**
+ * Save cost data in batch
+ * This function now only processes QTO elements for costElements collection
+ * Excel data is already saved to costData in a separate step
+ */
+async function saveCostDataBatch(costItems, projectName) {
+  try {
+    // Ensure MongoDB connection and get database references
+    const { costDb: costDatabase, qtoDb: qtoDatabase } =
+      await ensureConnection();
+
+    console.log(
+      `Starting batch save for project: ${projectName}, ${costItems.length} items from matching QTO elements for costElements collection`
+    );
+
+    if (!costItems || costItems.length === 0) {
+      console.warn("No cost items provided to save");
+      return { insertedCount: 0, message: "No items to save" };
     }
 
+    const projectId = await findOrCreateProject(projectName);
+
+    // IMPORTANT NOTE: We do NOT delete costData entries here
+    // This function is called during preview confirmation
+    // costData entries are already saved during the Excel upload phase
+    // and should not be touched here
+    console.log(
+      `NOTE: Not deleting costData entries in this flow - only updating costElements`
+    );
+
+    const { costElementsToSave, elementUpdates } = await prepareCostElements(
+      costItems,
+      projectId
+    );
+    const elementOps = elementUpdates.map(({ _id, set }) => ({
+      updateOne: { filter: { _id }, update: { $set: set } },
+    }));
+
     // Delete existing cost elements for this project
     console.log(`Deleting existing cost elements for project ${projectId}`);
     const deleteElementsResult = await costDatabase
@@ -1258,6 +1869,1816 @@ async function saveCostDataBatch(costItems, projectName) {
   }
 }
 
+/**
+ * Get all projects of the QTO database with their element count and the
+ * time of the last change to the project or one of its elements
+ */
+async function getProjects() {
+  await ensureConnection();
+
+  try {
+    const projects = await qtoDb
+      .collection("projects")
+      .aggregate([
+        {
+          $lookup: {
+            from: "elements",
+            let: { projectId: "$_id" },
+            pipeline: [
+              { $match: { $expr: { $eq: ["$project_id", "$$projectId"] } } },
+              {
+                $group: {
+                  _id: null,
+                  count: { $sum: 1 },
+                  updated_at: { $max: "$updated_at" },
+                },
+              },
+            ],
+            as: "element_stats",
+          },
+        },
+        { $sort: { name: 1 } },
+      ])
+      .toArray();
+
+    return projects.map((project) => {
+      const stats = project.element_stats[0];
+      const updatedAt = [project.updated_at, stats?.updated_at]
+        .filter(Boolean)
+        .map((date) => new Date(date))
+        .sort((a, b) => b - a)[0];
+
+      return {
+        id: project._id.toString(),
+        name: project.name,
+        elementCount: stats?.count || 0,
+        updated_at: updatedAt ? updatedAt.toISOString() : null,
+      };
+    });
+  } catch (error) {
+    console.error("Error getting projects:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get all column mapping profiles saved for a project
+ */
+async function getColumnMappingProfiles(projectName) {
+  await ensureConnection();
+
+  try {
+    const profiles = await costDb
+      .collection("columnMappingProfiles")
+      .find({ project_name: projectName })
+      .sort({ updated_at: -1 })
+      .toArray();
+
+    return profiles.map((profile) => ({
+      id: profile._id.toString(),
+      name: profile.name,
+      projectName: profile.project_name,
+      mapping: profile.mapping || {},
+      created_at: profile.created_at,
+      updated_at: profile.updated_at,
+    }));
+  } catch (error) {
+    console.error("Error getting column mapping profiles:", error);
+    return [];
+  }
+}
+
+/**
+ * Save a named column mapping profile for a project
+ * Profiles are unique by name per project, saving again overwrites the mapping
+ */
+async function saveColumnMappingProfile(projectName, profile) {
+  await ensureConnection();
+
+  try {
+    // Link the profile to the QTO project if it already exists
+    const qtoProject = await qtoDb.collection("projects").findOne({
+      name: { $regex: new RegExp(`^${projectName}$`, "i") },
+    });
+
+    // Only keep string column names in the stored mapping
+    const mapping = {};
+    Object.entries(profile.mapping || {}).forEach(([field, column]) => {
+      if (typeof column === "string" && column.trim() !== "") {
+        mapping[field] = column;
+      }
+    });
+
+    const result = await costDb
+      .collection("columnMappingProfiles")
+      .findOneAndUpdate(
+        { project_name: projectName, name: profile.name },
+        {
+          $set: {
+            project_id: qtoProject ? qtoProject._id : null,
+            mapping,
+            updated_at: new Date(),
+          },
+          $setOnInsert: { created_at: new Date() },
+        },
+        { upsert: true, returnDocument: "after" }
+      );
+
+    return {
+      id: result._id.toString(),
+      name: result.name,
+      projectName: result.project_name,
+      mapping: result.mapping,
+      created_at: result.created_at,
+      updated_at: result.updated_at,
+    };
+  } catch (error) {
+    console.error("Error saving column mapping profile:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the manual eBKP matching overrides of a project
+ */
+async function getMatchingOverrides(projectName) {
+  await ensureConnection();
+
+  try {
+    const overrides = await costDb
+      .collection("matchingOverrides")
+      .find({ project_name: projectName })
+      .toArray();
+
+    return overrides.map((override) => ({
+      excelCode: override.excel_code,
+      modelCodes: override.model_codes || [],
+      excluded: !!override.excluded,
+      updated_at: override.updated_at,
+    }));
+  } catch (error) {
+    console.error("Error getting matching overrides:", error);
+    return [];
+  }
+}
+
+/**
+ * Replace the manual eBKP matching overrides of a project
+ * Each override assigns an Excel code to model codes or excludes it
+ */
+async function saveMatchingOverrides(projectName, overrides) {
+  await ensureConnection();
+
+  try {
+    const now = new Date();
+    const documents = (overrides || [])
+      .filter((override) => override && override.excelCode)
+      .map((override) => ({
+        project_name: projectName,
+        excel_code: override.excelCode,
+        model_codes: Array.isArray(override.modelCodes)
+          ? override.modelCodes.filter((code) => typeof code === "string")
+          : [],
+        excluded: !!override.excluded,
+        updated_at: now,
+      }));
+
+    await costDb
+      .collection("matchingOverrides")
+      .deleteMany({ project_name: projectName });
+
+    if (documents.length > 0) {
+      await costDb.collection("matchingOverrides").insertMany(documents);
+    }
+
+    return documents.length;
+  } catch (error) {
+    console.error("Error saving matching overrides:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the unit costs of a project from its Excel data in costData, and the
+ * reference catalog it falls back to
+ * Unit costs of other projects are never included
+ */
+async function getProjectUnitCosts(projectName) {
+  await ensureConnection();
+
+  try {
+    const qtoProject = await qtoDb.collection("projects").findOne({
+      name: { $regex: new RegExp(`^${projectName}$`, "i") },
+    });
+
+    const referenceCatalog = await getReferenceCatalog(projectName);
+
+    if (!qtoProject) {
+      return { projectId: null, unitCosts: [], referenceCatalog };
+    }
+
+    const unitCosts = await costDb
+      .collection("costData")
+      .find({
+        project_id: qtoProject._id,
+        ebkp_code: { $nin: [null, ""] },
+        unit_cost: { $gt: 0 },
+      })
+      .toArray();
+
+    return { projectId: qtoProject._id, unitCosts, referenceCatalog };
+  } catch (error) {
+    console.error("Error getting project unit costs:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the model elements of a project for matching with its unit costs
+ */
+async function getProjectMatchingElements(projectId) {
+  await ensureConnection();
+
+  try {
+    return await qtoDb
+      .collection("elements")
+      .find({ project_id: projectId })
+      .toArray();
+  } catch (error) {
+    console.error("Error getting project matching elements:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the reference unit cost catalog a project falls back to, if any
+ */
+async function getReferenceCatalog(projectName) {
+  await ensureConnection();
+
+  const settings = await costDb
+    .collection("projectSettings")
+    .findOne({ project_name: projectName });
+
+  if (!settings || !settings.reference_catalog) {
+    return null;
+  }
+
+  return costDb
+    .collection("unitCostCatalogs")
+    .findOne({ name: settings.reference_catalog });
+}
+
+/**
+ * Convert a stored unit cost catalog to the summary sent to clients
+ */
+function toUnitCostCatalogSummary(catalog) {
+  return {
+    name: catalog.name,
+    itemCount: (catalog.items || []).length,
+    sourceProject: catalog.source_project,
+    updated_at: catalog.updated_at,
+  };
+}
+
+/**
+ * Get all company-wide reference unit cost catalogs
+ */
+async function getUnitCostCatalogs() {
+  await ensureConnection();
+
+  try {
+    const catalogs = await costDb
+      .collection("unitCostCatalogs")
+      .find({})
+      .sort({ name: 1 })
+      .toArray();
+
+    return catalogs.map(toUnitCostCatalogSummary);
+  } catch (error) {
+    console.error("Error getting unit cost catalogs:", error);
+    throw error;
+  }
+}
+
+/**
+ * Publish the unit costs of a project as a named reference catalog
+ * An existing catalog with the same name is replaced
+ */
+async function saveUnitCostCatalog(catalogName, projectName) {
+  await ensureConnection();
+
+  try {
+    const { unitCosts } = await getProjectUnitCosts(projectName);
+
+    if (unitCosts.length === 0) {
+      throw new Error(`Project '${projectName}' has no unit costs`);
+    }
+
+    const now = new Date();
+    const catalog = {
+      name: catalogName,
+      source_project: projectName,
+      items: unitCosts.map((item) => ({
+        ebkp_code: item.ebkp_code,
+        category: item.category || "",
+        unit_cost: item.unit_cost,
+        metadata: {
+          source: `reference:${catalogName}`,
+          timestamp: now,
+          original_data: { einheit: item.metadata?.original_data?.einheit },
+        },
+      })),
+      updated_at: now,
+    };
+
+    await costDb
+      .collection("unitCostCatalogs")
+      .updateOne(
+        { name: catalogName },
+        { $set: catalog, $setOnInsert: { created_at: now } },
+        { upsert: true }
+      );
+
+    return toUnitCostCatalogSummary(catalog);
+  } catch (error) {
+    console.error("Error saving unit cost catalog:", error);
+    throw error;
+  }
+}
+
+/**
+ * Set the reference catalog a project falls back to, or none
+ */
+async function setReferenceCatalog(projectName, catalogName) {
+  await ensureConnection();
+
+  try {
+    if (catalogName) {
+      const catalog = await costDb
+        .collection("unitCostCatalogs")
+        .findOne({ name: catalogName });
+      if (!catalog) {
+        throw new Error(`Unit cost catalog '${catalogName}' not found`);
+      }
+    }
+
+    await costDb.collection("projectSettings").updateOne(
+      { project_name: projectName },
+      {
+        $set: {
+          reference_catalog: catalogName || null,
+          updated_at: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    return catalogName || null;
+  } catch (error) {
+    console.error("Error setting reference catalog:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the names of the projects whose unit costs feed the reference library
+ */
+async function getReferenceProjects() {
+  await ensureConnection();
+
+  try {
+    const settings = await costDb
+      .collection("projectSettings")
+      .find({ is_reference: true })
+      .sort({ project_name: 1 })
+      .toArray();
+
+    return settings.map((setting) => setting.project_name);
+  } catch (error) {
+    console.error("Error getting reference projects:", error);
+    throw error;
+  }
+}
+
+/**
+ * Include a project in the reference library or remove it
+ */
+async function setReferenceProject(projectName, isReference) {
+  await ensureConnection();
+
+  try {
+    await costDb.collection("projectSettings").updateOne(
+      { project_name: projectName },
+      {
+        $set: {
+          is_reference: Boolean(isReference),
+          updated_at: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    return Boolean(isReference);
+  } catch (error) {
+    console.error("Error setting reference project:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the unit costs of all reference projects except the given one
+ */
+async function getReferenceProjectUnitCosts(excludeProjectName) {
+  const referenceProjects = await getReferenceProjects();
+
+  const projects = [];
+  for (const projectName of referenceProjects) {
+    if (projectName === excludeProjectName) continue;
+
+    const { unitCosts } = await getProjectUnitCosts(projectName);
+    projects.push({ projectName, unitCosts });
+  }
+  return projects;
+}
+
+/**
+ * Normalize a price index date ("2024-04" or "2024-04-01") to YYYY-MM-DD
+ */
+function toPriceIndexDate(value) {
+  const match = String(value || "")
+    .trim()
+    .match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+  if (!match) {
+    throw new Error(`Invalid price index date '${value}', expected YYYY-MM-DD`);
+  }
+  return `${match[1]}-${match[2]}-${match[3] || "01"}`;
+}
+
+/**
+ * Get the value of a price index series in effect at a date: the latest
+ * published value on or before it
+ */
+function getPriceIndexValue(index, date) {
+  const point = index.points.filter((point) => point.date <= date).pop();
+  if (!point) {
+    throw new Error(
+      `Price index '${index.name}' has no value on or before ${date}`
+    );
+  }
+  return point.value;
+}
+
+/**
+ * Convert a stored price index series to the form sent to clients
+ */
+function toPriceIndex(index) {
+  return {
+    name: index.name,
+    points: index.points,
+    updated_at: index.updated_at,
+  };
+}
+
+/**
+ * Get all stored construction price index series
+ */
+async function getPriceIndices() {
+  await ensureConnection();
+
+  try {
+    const indices = await costDb
+      .collection("priceIndices")
+      .find({})
+      .sort({ name: 1 })
+      .toArray();
+
+    return indices.map(toPriceIndex);
+  } catch (error) {
+    console.error("Error getting price indices:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save a price index series entered by the user
+ * An existing series with the same name is replaced
+ */
+async function savePriceIndex(indexName, points) {
+  await ensureConnection();
+
+  try {
+    if (!Array.isArray(points) || points.length === 0) {
+      throw new Error(`Price index '${indexName}' has no values`);
+    }
+
+    const normalizedPoints = points
+      .map((point) => {
+        const value = Number(point.value);
+        if (!Number.isFinite(value) || value <= 0) {
+          throw new Error(
+            `Invalid price index value '${point.value}' for ${point.date}`
+          );
+        }
+        return { date: toPriceIndexDate(point.date), value };
+      })
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const now = new Date();
+    const index = {
+      name: indexName,
+      points: normalizedPoints,
+      updated_at: now,
+    };
+
+    await costDb
+      .collection("priceIndices")
+      .updateOne(
+        { name: indexName },
+        { $set: index, $setOnInsert: { created_at: now } },
+        { upsert: true }
+      );
+
+    return toPriceIndex(index);
+  } catch (error) {
+    console.error("Error saving price index:", error);
+    throw error;
+  }
+}
+
+/**
+ * Calculate the escalation of a project's Kennwerte from the base date to the
+ * target date of a price index series
+ */
+function calculatePriceEscalation(index, baseDate, targetDate) {
+  const baseValue = getPriceIndexValue(index, baseDate);
+  const targetValue = getPriceIndexValue(index, targetDate);
+
+  return {
+    indexName: index.name,
+    baseDate,
+    targetDate,
+    baseValue,
+    targetValue,
+    factor: targetValue / baseValue,
+  };
+}
+
+/**
+ * Get the price escalation of a project, or null if its Kennwerte are not
+ * escalated or the escalation can no longer be calculated
+ */
+async function getPriceEscalation(projectName) {
+  await ensureConnection();
+
+  const settings = await costDb
+    .collection("projectSettings")
+    .findOne({ project_name: projectName });
+
+  const escalation = settings?.price_escalation;
+  if (!escalation) {
+    return null;
+  }
+
+  const index = await costDb
+    .collection("priceIndices")
+    .findOne({ name: escalation.index_name });
+
+  try {
+    if (!index) {
+      throw new Error(`Price index '${escalation.index_name}' not found`);
+    }
+    return calculatePriceEscalation(
+      index,
+      escalation.base_date,
+      escalation.target_date
+    );
+  } catch (error) {
+    console.warn(
+      `Price escalation of project '${projectName}' ignored: ${error.message}`
+    );
+    return null;
+  }
+}
+
+/**
+ * Set the price index series and dates a project's Kennwerte are escalated
+ * with, or turn the escalation off
+ */
+async function setPriceEscalation(projectName, escalation) {
+  await ensureConnection();
+
+  try {
+    let priceEscalation = null;
+    let result = null;
+
+    if (escalation) {
+      const index = await costDb
+        .collection("priceIndices")
+        .findOne({ name: escalation.indexName });
+      if (!index) {
+        throw new Error(`Price index '${escalation.indexName}' not found`);
+      }
+
+      priceEscalation = {
+        index_name: index.name,
+        base_date: toPriceIndexDate(escalation.baseDate),
+        target_date: toPriceIndexDate(escalation.targetDate),
+      };
+      result = calculatePriceEscalation(
+        index,
+        priceEscalation.base_date,
+        priceEscalation.target_date
+      );
+    }
+
+    await costDb.collection("projectSettings").updateOne(
+      { project_name: projectName },
+      {
+        $set: {
+          price_escalation: priceEscalation,
+          updated_at: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    return result;
+  } catch (error) {
+    console.error("Error setting price escalation:", error);
+    throw error;
+  }
+}
+
+// Kinds of surcharge rules: a percentage of the selected groups or a fixed
+// amount in CHF
+const SURCHARGE_TYPES = ["percentage", "fixed"];
+
+/**
+ * Validate surcharge rules entered by the user and bring them to the stored
+ * form. Groups are eBKP main groups, no groups means all of them.
+ */
+function toCostSurcharges(surcharges) {
+  if (!Array.isArray(surcharges)) {
+    throw new Error("Surcharges must be a list");
+  }
+
+  return surcharges.map((surcharge) => {
+    const name = String(surcharge.name || "").trim();
+    const value = Number(surcharge.value);
+    const groups = (surcharge.groups || []).map((group) =>
+      String(group).trim().toUpperCase()
+    );
+
+    if (!name) {
+      throw new Error("Surcharge without a name");
+    }
+    if (!SURCHARGE_TYPES.includes(surcharge.type)) {
+      throw new Error(`Invalid type '${surcharge.type}' of surcharge ${name}`);
+    }
+    if (!Number.isFinite(value)) {
+      throw new Error(
+        `Invalid value '${surcharge.value}' of surcharge ${name}`
+      );
+    }
+    const invalidGroup = groups.find((group) => !/^[A-Z]$/.test(group));
+    if (invalidGroup !== undefined) {
+      throw new Error(
+        `Invalid eBKP main group '${invalidGroup}' of surcharge ${name}`
+      );
+    }
+
+    return { name, type: surcharge.type, value, groups };
+  });
+}
+
+/**
+ * Apply the surcharge rules of a project in order, from the net cost of each
+ * eBKP main group to the gross total. Each rule applies to the net cost of
+ * its groups including the surcharges before it, so MWST listed last also
+ * covers contingency and fees. Fixed amounts for all groups are only
+ * included by later rules that apply to all groups.
+ */
+function calculateCostBreakdown(netByGroup, surcharges) {
+  // Running totals by main group, "*" holds fixed amounts for all groups
+  const running = { ...netByGroup, "*": 0 };
+  const net = Object.values(netByGroup).reduce((sum, cost) => sum + cost, 0);
+
+  const applied = surcharges.map((surcharge) => {
+    const groups =
+      surcharge.groups.length > 0 ? surcharge.groups : Object.keys(running);
+    groups.forEach((group) => {
+      running[group] = running[group] || 0;
+    });
+    const base = groups.reduce((sum, group) => sum + running[group], 0);
+
+    let amount;
+    if (surcharge.type === "percentage") {
+      amount = (base * surcharge.value) / 100;
+      groups.forEach((group) => {
+        running[group] += (running[group] * surcharge.value) / 100;
+      });
+    } else {
+      amount = surcharge.value;
+      if (surcharge.groups.length === 0) {
+        running["*"] += amount;
+      } else {
+        // Split across the groups by their cost, evenly if they have none
+        groups.forEach((group) => {
+          running[group] +=
+            base > 0
+              ? (amount * running[group]) / base
+              : amount / groups.length;
+        });
+      }
+    }
+
+    return { ...surcharge, base, amount };
+  });
+
+  return {
+    net,
+    net_by_group: netByGroup,
+    surcharges: applied,
+    gross: net + applied.reduce((sum, surcharge) => sum + surcharge.amount, 0),
+  };
+}
+
+/**
+ * Get the surcharge rules of a project
+ */
+async function getCostSurcharges(projectName) {
+  await ensureConnection();
+
+  try {
+    const settings = await costDb
+      .collection("projectSettings")
+      .findOne({ project_name: projectName });
+
+    return settings?.cost_surcharges || [];
+  } catch (error) {
+    console.error("Error getting cost surcharges:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the surcharge rules of a project
+ */
+async function saveCostSurcharges(projectName, surcharges) {
+  await ensureConnection();
+
+  try {
+    const costSurcharges = toCostSurcharges(surcharges);
+
+    await costDb.collection("projectSettings").updateOne(
+      { project_name: projectName },
+      {
+        $set: {
+          cost_surcharges: costSurcharges,
+          updated_at: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    return costSurcharges;
+  } catch (error) {
+    console.error("Error saving cost surcharges:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the elements a project was priced with at its last update, or null
+ * before the first update
+ */
+async function getElementSnapshot(projectName) {
+  await ensureConnection();
+
+  try {
+    const snapshot = await costDb
+      .collection("elementSnapshots")
+      .findOne({ project_name: projectName });
+
+    return snapshot ? snapshot.elements : null;
+  } catch (error) {
+    console.error("Error getting element snapshot:", error);
+    throw error;
+  }
+}
+
+/**
+ * Store the change report of a project update and replace the element
+ * snapshot the next update is compared against
+ */
+async function saveCostChangeReport(projectName, report, elements) {
+  await ensureConnection();
+
+  try {
+    const document = {
+      project_name: projectName,
+      ...report,
+      created_at: new Date(),
+    };
+    const result = await costDb
+      .collection("costChangeReports")
+      .insertOne(document);
+
+    await costDb
+      .collection("elementSnapshots")
+      .updateOne(
+        { project_name: projectName },
+        { $set: { elements, updated_at: new Date() } },
+        { upsert: true }
+      );
+
+    return { ...document, _id: result.insertedId };
+  } catch (error) {
+    console.error("Error saving cost change report:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the change reports of a project, newest first
+ */
+async function getCostChangeReports(projectName, limit = 50) {
+  await ensureConnection();
+
+  try {
+    return await costDb
+      .collection("costChangeReports")
+      .find({ project_name: projectName })
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray();
+  } catch (error) {
+    console.error("Error getting cost change reports:", error);
+    throw error;
+  }
+}
+
+/**
+ * Validate budget targets entered by the user and bring them to the stored
+ * form. A target without an eBKP code is the budget of the whole project,
+ * otherwise of an eBKP main group ("C") or subgroup ("C2", "C2.1"). The
+ * threshold is the share of the budget in percent at which it counts as
+ * exceeded.
+ */
+function toBudgetTargets(targets) {
+  if (!Array.isArray(targets)) {
+    throw new Error("Budget targets must be a list");
+  }
+
+  const seenCodes = new Set();
+  return targets.map((target) => {
+    const ebkp = toComparableEbkpCode(target.ebkp);
+    const amount = Number(target.amount);
+    const threshold =
+      target.threshold === undefined || target.threshold === null
+        ? 100
+        : Number(target.threshold);
+    const label = ebkp || "project";
+
+    if (ebkp && !/^[A-Z](\d+(\.\d+)*)?$/.test(ebkp)) {
+      throw new Error(`Invalid eBKP code '${target.ebkp}' of budget target`);
+    }
+    if (seenCodes.has(ebkp)) {
+      throw new Error(`Duplicate budget target for ${label}`);
+    }
+    seenCodes.add(ebkp);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error(`Invalid amount '${target.amount}' of budget ${label}`);
+    }
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+      throw new Error(
+        `Invalid threshold '${target.threshold}' of budget ${label}`
+      );
+    }
+
+    return { ebkp, amount, threshold };
+  });
+}
+
+/**
+ * Compare the cost of a project with its budget targets: the project budget
+ * with the gross total, group budgets with the escalated net cost of the
+ * group (surcharges are not split below main groups). netByCode holds the
+ * escalated net cost by comparable eBKP code of the elements.
+ */
+function compareBudgetTargets(targets, breakdown, netByCode) {
+  const getActual = (ebkp) => {
+    if (!ebkp) return breakdown.gross;
+    if (ebkp.length === 1) return breakdown.net_by_group[ebkp] || 0;
+    return Object.entries(netByCode)
+      .filter(([code]) => code === ebkp || code.startsWith(`${ebkp}.`))
+      .reduce((sum, [, cost]) => sum + cost, 0);
+  };
+
+  return targets.map((target) => {
+    const actual = getActual(target.ebkp);
+    const ratio = actual / target.amount;
+    return {
+      ...target,
+      actual,
+      ratio,
+      exceeded: ratio * 100 >= target.threshold,
+    };
+  });
+}
+
+/**
+ * Get the budget targets of a project
+ */
+async function getBudgetTargets(projectName) {
+  await ensureConnection();
+
+  try {
+    const settings = await costDb
+      .collection("projectSettings")
+      .findOne({ project_name: projectName });
+
+    return settings?.budget_targets || [];
+  } catch (error) {
+    console.error("Error getting budget targets:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the budget targets of a project
+ */
+async function saveBudgetTargets(projectName, targets) {
+  await ensureConnection();
+
+  try {
+    const budgetTargets = toBudgetTargets(targets);
+
+    await costDb.collection("projectSettings").updateOne(
+      { project_name: projectName },
+      {
+        $set: {
+          budget_targets: budgetTargets,
+          updated_at: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    return budgetTargets;
+  } catch (error) {
+    console.error("Error saving budget targets:", error);
+    throw error;
+  }
+}
+
+// Reference quantities of SIA 416 the cost of a project is compared by:
+// gross floor area GF in m² and building volume GV in m³
+const REFERENCE_QUANTITY_KEYS = ["gf", "gv"];
+
+// A reference quantity is entered by the user or derived from the spaces of
+// the QTO model
+const REFERENCE_QUANTITY_SOURCES = ["manual", "qto"];
+
+/**
+ * Validate reference quantities entered by the user and bring them to the
+ * stored form. Unset quantities are null, values derived from QTO are not
+ * stored but summed up again on each summary update.
+ */
+function toReferenceQuantities(quantities) {
+  if (!quantities || typeof quantities !== "object") {
+    throw new Error("Reference quantities must be an object");
+  }
+
+  return Object.fromEntries(
+    REFERENCE_QUANTITY_KEYS.map((key) => {
+      const quantity = quantities[key];
+      if (!quantity) return [key, null];
+
+      if (!REFERENCE_QUANTITY_SOURCES.includes(quantity.source)) {
+        throw new Error(
+          `Invalid source '${quantity.source}' of reference quantity ${key}`
+        );
+      }
+      if (quantity.source === "qto") return [key, { source: "qto" }];
+
+      const value = Number(quantity.value);
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(
+          `Invalid value '${quantity.value}' of reference quantity ${key}`
+        );
+      }
+      return [key, { source: "manual", value }];
+    })
+  );
+}
+
+/**
+ * Sum up the floor area and volume of the spaces (IfcSpace) of a project's
+ * QTO model, the model's approximation of GF and GV
+ */
+async function getQtoReferenceQuantities(projectName) {
+  await ensureConnection();
+
+  try {
+    const qtoProject = await qtoDb.collection("projects").findOne({
+      name: { $regex: new RegExp(`^${projectName}$`, "i") },
+    });
+    if (!qtoProject) {
+      return { gf: 0, gv: 0, spaces_count: 0 };
+    }
+
+    const spaces = await qtoDb
+      .collection("elements")
+      .find({
+        project_id: qtoProject._id,
+        $or: [
+          { element_type: { $regex: /^IfcSpace$/i } },
+          { "properties.category": { $regex: /^IfcSpace$/i } },
+        ],
+      })
+      .toArray();
+
+    return spaces.reduce(
+      (totals, space) => ({
+        gf:
+          totals.gf +
+          (parseFloat(
+            space.original_area || space.quantity || space.properties?.area
+          ) || 0),
+        gv:
+          totals.gv +
+          (parseFloat(space.volume || space.properties?.volume) || 0),
+        spaces_count: totals.spaces_count + 1,
+      }),
+      { gf: 0, gv: 0, spaces_count: 0 }
+    );
+  } catch (error) {
+    console.error("Error getting QTO reference quantities:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the reference quantities of a project as stored
+ */
+async function getReferenceQuantities(projectName) {
+  await ensureConnection();
+
+  try {
+    const settings = await costDb
+      .collection("projectSettings")
+      .findOne({ project_name: projectName });
+
+    return settings?.reference_quantities || { gf: null, gv: null };
+  } catch (error) {
+    console.error("Error getting reference quantities:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the reference quantities of a project
+ */
+async function saveReferenceQuantities(projectName, quantities) {
+  await ensureConnection();
+
+  try {
+    const referenceQuantities = toReferenceQuantities(quantities);
+
+    await costDb.collection("projectSettings").updateOne(
+      { project_name: projectName },
+      {
+        $set: {
+          reference_quantities: referenceQuantities,
+          updated_at: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    return referenceQuantities;
+  } catch (error) {
+    console.error("Error saving reference quantities:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the reference quantities of a project with the values derived from
+ * QTO filled in
+ */
+async function resolveReferenceQuantities(projectName) {
+  const stored = await getReferenceQuantities(projectName);
+  const fromQto = REFERENCE_QUANTITY_KEYS.some(
+    (key) => stored[key]?.source === "qto"
+  )
+    ? await getQtoReferenceQuantities(projectName)
+    : null;
+
+  return Object.fromEntries(
+    REFERENCE_QUANTITY_KEYS.map((key) => {
+      const quantity = stored[key];
+      if (!quantity) return [key, null];
+      return [
+        key,
+        quantity.source === "qto"
+          ? { source: "qto", value: fromQto[key] }
+          : quantity,
+      ];
+    })
+  );
+}
+
+/**
+ * Cost of a project per m² GF and m³ GV: the net and gross totals and the
+ * escalated net cost of each eBKP main group. Benchmarks without their
+ * reference quantity are null.
+ */
+function calculateCostBenchmarks(referenceQuantities, breakdown) {
+  const gf = referenceQuantities.gf?.value || 0;
+  const gv = referenceQuantities.gv?.value || 0;
+  const perReference = (cost) => ({
+    cost,
+    per_gf: gf > 0 ? cost / gf : null,
+    per_gv: gv > 0 ? cost / gv : null,
+  });
+
+  return {
+    gf: referenceQuantities.gf,
+    gv: referenceQuantities.gv,
+    net: perReference(breakdown.net),
+    gross: perReference(breakdown.gross),
+    by_group: Object.entries(breakdown.net_by_group)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([group, cost]) => ({ group, ...perReference(cost) })),
+  };
+}
+
+/**
+ * Get the eBKP codes used by the model elements of all projects
+ */
+async function getElementEbkpCodes() {
+  await ensureConnection();
+
+  try {
+    const fields = [
+      "properties.classification.id",
+      "properties.ebkph",
+      "ebkph",
+      "ebkp_code",
+    ];
+    const codes = await Promise.all(
+      fields.map((field) => qtoDb.collection("elements").distinct(field))
+    );
+
+    return [...new Set(codes.flat())].filter(
+      (code) => typeof code === "string" && code !== ""
+    );
+  } catch (error) {
+    console.error("Error getting element eBKP codes:", error);
+    throw error;
+  }
+}
+
+/**
+ * Record an element received from Kafka as processed for a project
+ * Returns false if the element was processed before
+ */
+async function markElementProcessed(projectName, elementId) {
+  await ensureConnection();
+
+  try {
+    await costDb.collection("processedElements").insertOne({
+      project_name: projectName,
+      element_id: String(elementId),
+      processed_at: new Date(),
+    });
+    return true;
+  } catch (error) {
+    // Duplicate key: the element was already processed
+    if (error.code === 11000) {
+      return false;
+    }
+    console.error("Error marking element as processed:", error);
+    throw error;
+  }
+}
+
+/**
+ * Build a costData document from an Excel item
+ * Returns null for items without a unit cost, these are not stored
+ */
+function createCostDataDocument(
+  item,
+  projectId,
+  index,
+  source = "excel-import"
+) {
+  const unitCost = parseFloat(item.kennwert || 0) || 0;
+  if (unitCost <= 0) {
+    return null;
+  }
+
+  return {
+    _id: new ObjectId(),
+    project_id: projectId,
+    ebkp_code: item.ebkp || "",
+    category: item.bezeichnung || item.category || "",
+    level: item.level || "",
+    unit_cost: unitCost,
+    quantity: parseFloat(item.menge || 0) || 0,
+    total_cost: parseFloat(item.totalChf || item.chf || 0) || 0,
+    currency: "CHF",
+    metadata: {
+      source,
+      timestamp: new Date(),
+      original_data: {
+        einheit: item.einheit || "m²",
+        kommentar: item.kommentar || "",
+        excel_row: index + 1,
+      },
+    },
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+/**
+ * Convert a stored cost plan version to the summary sent to clients
+ */
+function toCostPlanVersionSummary(version) {
+  return {
+    id: version._id.toString(),
+    projectName: version.project_name,
+    version: version.version,
+    fileName: version.file_name,
+    uploadedBy: version.uploaded_by,
+    itemCount: version.item_count,
+    totalCost: version.total_cost,
+    created_at: version.created_at,
+  };
+}
+
+/**
+ * Build the document of the next cost plan version of a project
+ * The version number is assigned when the batch is swapped in
+ */
+async function buildCostPlanVersion(
+  projectName,
+  projectId,
+  { fileName, uploadedBy, excelItems, matchedItems }
+) {
+  // Keep only the cost fields of the Excel items, without the hierarchy
+  const items = (excelItems || []).map((item) => ({
+    ebkp: item.ebkp || "",
+    bezeichnung: item.bezeichnung || "",
+    menge: item.menge ?? null,
+    einheit: item.einheit || "",
+    kennwert: item.kennwert ?? null,
+    chf: item.chf ?? null,
+    totalChf: item.totalChf ?? null,
+    kommentar: item.kommentar || "",
+  }));
+
+  // Only count leaf items so group totals aren't added twice
+  const leafItems = (excelItems || []).filter(
+    (item) => !item.children || item.children.length === 0
+  );
+  const totalCost = leafItems.reduce(
+    (sum, item) => sum + (parseFloat(item.totalChf || item.chf || 0) || 0),
+    0
+  );
+
+  return {
+    _id: new ObjectId(),
+    project_id: projectId,
+    project_name: projectName,
+    version: null,
+    file_name: fileName || "",
+    uploaded_by: uploadedBy || "",
+    item_count: items.length,
+    total_cost: totalCost,
+    items,
+    matched_items: matchedItems || [],
+    created_at: new Date(),
+  };
+}
+
+/**
+ * Get all cost plan versions of a project, newest first (without items)
+ */
+async function getCostPlanVersions(projectName) {
+  await ensureConnection();
+
+  try {
+    const versions = await costDb
+      .collection("costPlanVersions")
+      .find(
+        { project_name: projectName },
+        { projection: { items: 0, matched_items: 0 } }
+      )
+      .sort({ version: -1 })
+      .toArray();
+
+    return versions.map(toCostPlanVersionSummary);
+  } catch (error) {
+    console.error("Error getting cost plan versions:", error);
+    return [];
+  }
+}
+
+/**
+ * Compare two cost plan versions of a project at eBKP level
+ * Returns the added, removed and changed codes of the compared version
+ * relative to the base version
+ */
+async function diffCostPlanVersions(
+  projectName,
+  baseVersionId,
+  compareVersionId
+) {
+  await ensureConnection();
+
+  try {
+    const [baseVersion, compareVersion] = await Promise.all(
+      [baseVersionId, compareVersionId].map((id) =>
+        costDb
+          .collection("costPlanVersions")
+          .findOne({ _id: new ObjectId(id), project_name: projectName })
+      )
+    );
+
+    if (!baseVersion || !compareVersion) {
+      throw new Error("Cost plan version not found");
+    }
+
+    // Index items by eBKP code, the first row of a code wins
+    const byCode = (items) => {
+      const map = new Map();
+      items.forEach((item) => {
+        if (item.ebkp && !map.has(item.ebkp)) {
+          map.set(item.ebkp, item);
+        }
+      });
+      return map;
+    };
+
+    const baseItems = byCode(baseVersion.items || []);
+    const compareItems = byCode(compareVersion.items || []);
+    const fields = ["kennwert", "menge", "totalChf"];
+    const changes = [];
+
+    compareItems.forEach((item, ebkp) => {
+      const baseItem = baseItems.get(ebkp);
+      if (!baseItem) {
+        changes.push({
+          ebkp,
+          status: "added",
+          bezeichnung: item.bezeichnung,
+          after: item,
+        });
+        return;
+      }
+
+      const changedFields = fields.filter(
+        (field) => (baseItem[field] ?? null) !== (item[field] ?? null)
+      );
+      if (changedFields.length > 0) {
+        changes.push({
+          ebkp,
+          status: "changed",
+          bezeichnung: item.bezeichnung,
+          changedFields,
+          before: baseItem,
+          after: item,
+        });
+      }
+    });
+
+    baseItems.forEach((item, ebkp) => {
+      if (!compareItems.has(ebkp)) {
+        changes.push({
+          ebkp,
+          status: "removed",
+          bezeichnung: item.bezeichnung,
+          before: item,
+        });
+      }
+    });
+
+    changes.sort((a, b) => a.ebkp.localeCompare(b.ebkp));
+
+    return {
+      base: toCostPlanVersionSummary(baseVersion),
+      compare: toCostPlanVersionSummary(compareVersion),
+      changes,
+    };
+  } catch (error) {
+    console.error("Error comparing cost plan versions:", error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a cost plan version of a project
+ * Rebuilds costData and costElements from the stored items as a staged batch
+ * and swaps it in, so a failed restore leaves the current cost plan untouched
+ */
+async function restoreCostPlanVersion(projectName, versionId) {
+  await ensureConnection();
+
+  try {
+    const version = await costDb
+      .collection("costPlanVersions")
+      .findOne({ _id: new ObjectId(versionId), project_name: projectName });
+
+    if (!version) {
+      throw new Error("Cost plan version not found");
+    }
+
+    const qtoProject = await qtoDb.collection("projects").findOne({
+      name: { $regex: new RegExp(`^${projectName}$`, "i") },
+    });
+
+    if (!qtoProject) {
+      throw new Error(`Project '${projectName}' not found`);
+    }
+
+    const projectId = qtoProject._id;
+
+    // Rebuild the Excel data and costElements from the items of the version
+    const costDataToSave = (version.items || [])
+      .map((item, index) =>
+        createCostDataDocument(item, projectId, index, "version-restore")
+      )
+      .filter((item) => item !== null);
+
+    const { costElementsToSave, elementUpdates } =
+      version.matched_items && version.matched_items.length > 0
+        ? await prepareCostElements(version.matched_items, projectId)
+        : { costElementsToSave: [], elementUpdates: [] };
+
+    // The version itself is kept, the batch only points to it
+    const batchId = await stageCostBatch(projectName, projectId, {
+      costData: costDataToSave,
+      costElements: costElementsToSave,
+      elementUpdates,
+      versionId: version._id,
+    });
+    await swapInCostBatch(batchId);
+
+    const summary = await costDb
+      .collection("costSummaries")
+      .findOne({ project_id: projectId });
+
+    console.log(
+      `Restored cost plan version ${version.version} for project '${projectName}'`
+    );
+
+    return {
+      version: toCostPlanVersionSummary(version),
+      projectId: projectId.toString(),
+      costDataCount: costDataToSave.length,
+      summary,
+    };
+  } catch (error) {
+    console.error("Error restoring cost plan version:", error);
+    throw error;
+  }
+}
+
+/**
+ * Reserve the next cost plan version number of a project
+ * Versions are numbered per project, starting at 1
+ */
+async function nextCostPlanVersionNumber(projectName) {
+  const counters = costDb.collection("costPlanVersionCounters");
+
+  // Continue after the versions saved before the project had a counter
+  if (!(await counters.findOne({ project_name: projectName }))) {
+    const lastVersion = await costDb
+      .collection("costPlanVersions")
+      .find({ project_name: projectName })
+      .sort({ version: -1 })
+      .limit(1)
+      .next();
+
+    try {
+      await counters.insertOne({
+        project_name: projectName,
+        seq: lastVersion ? lastVersion.version : 0,
+      });
+    } catch (error) {
+      // Duplicate key: another batch created the counter first
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  const counter = await counters.findOneAndUpdate(
+    { project_name: projectName },
+    { $inc: { seq: 1 } },
+    { returnDocument: "after" }
+  );
+
+  return counter.seq;
+}
+
+// Staged cost batches older than this are considered abandoned
+const STAGED_BATCH_TTL = 60 * 60 * 1000; // 1 hour in milliseconds
+
+/**
+ * Write the documents of a cost batch to costBatchStaging and mark the batch
+ * committed. A batch that fails before that point is discarded.
+ * Returns the id of the committed batch
+ */
+async function stageCostBatch(
+  projectName,
+  projectId,
+  { costData, costElements, elementUpdates, version = null, versionId }
+) {
+  const batchId = new ObjectId();
+
+  try {
+    await costDb.collection("costBatches").insertOne({
+      _id: batchId,
+      project_id: projectId,
+      project_name: projectName,
+      status: "staging",
+      version_id: version ? version._id : versionId,
+      counts: {
+        costData: costData.length,
+        costElements: costElements.length,
+        elementUpdates: elementUpdates.length,
+      },
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+
+    // Live cost documents carry their batch, so the swap can remove the rest
+    const staged = [
+      ...costData.map((doc) => ({
+        target: "costData",
+        doc: { ...doc, batch_id: batchId },
+      })),
+      ...costElements.map((doc) => ({
+        target: "costElements",
+        doc: { ...doc, batch_id: batchId },
+      })),
+      ...elementUpdates.map((doc) => ({ target: "elements", doc })),
+      ...(version ? [{ target: "costPlanVersions", doc: version }] : []),
+    ].map((entry) => ({ ...entry, batch_id: batchId }));
+
+    if (staged.length > 0) {
+      await costDb.collection("costBatchStaging").insertMany(staged);
+    }
+
+    // Commit point: from here on the batch is rolled forward, also after a
+    // restart of the backend
+    await costDb
+      .collection("costBatches")
+      .updateOne(
+        { _id: batchId },
+        { $set: { status: "committed", updated_at: new Date() } }
+      );
+
+    console.log(
+      `Committed cost batch ${batchId} for project '${projectName}' with ${staged.length} staged documents`
+    );
+
+    return batchId;
+  } catch (error) {
+    console.error("Error staging cost batch:", error);
+    await discardCostBatch(batchId);
+    throw error;
+  }
+}
+
+/**
+ * Save a confirmed cost batch with staging and swap
+ * All documents are written to costBatchStaging first; the live collections
+ * are only touched once the batch is marked committed. A batch that fails
+ * before that point is discarded and leaves the previous state untouched.
+ */
+async function commitCostBatch(
+  projectName,
+  { excelItems, matchedItems, fileName, uploadedBy }
+) {
+  await ensureConnection();
+
+  let batchId;
+
+  try {
+    const projectId = await findOrCreateProject(projectName);
+
+    const costDataToSave = (excelItems || [])
+      .map((item, index) => createCostDataDocument(item, projectId, index))
+      .filter((item) => item !== null);
+
+    const { costElementsToSave, elementUpdates } =
+      matchedItems && matchedItems.length > 0
+        ? await prepareCostElements(matchedItems, projectId)
+        : { costElementsToSave: [], elementUpdates: [] };
+
+    const version = await buildCostPlanVersion(projectName, projectId, {
+      fileName,
+      uploadedBy,
+      excelItems,
+      matchedItems,
+    });
+
+    batchId = await stageCostBatch(projectName, projectId, {
+      costData: costDataToSave,
+      costElements: costElementsToSave,
+      elementUpdates,
+      version,
+    });
+  } catch (error) {
+    console.error("Error preparing cost batch:", error);
+    throw error;
+  }
+
+  try {
+    return await swapInCostBatch(batchId);
+  } catch (error) {
+    // The batch stays committed and is swapped in on the next start
+    const notApplied = new Error(
+      `Cost batch ${batchId} was committed but not applied yet: ${error.message}`
+    );
+    notApplied.code = "COST_BATCH_NOT_APPLIED";
+    throw notApplied;
+  }
+}
+
+/**
+ * Remove the staged documents of a batch that was not committed
+ */
+async function discardCostBatch(batchId) {
+  try {
+    await costDb
+      .collection("costBatchStaging")
+      .deleteMany({ batch_id: batchId });
+    await costDb
+      .collection("costBatches")
+      .updateOne(
+        { _id: batchId },
+        { $set: { status: "failed", updated_at: new Date() } }
+      );
+  } catch (error) {
+    console.error(`Error discarding cost batch ${batchId}:`, error);
+  }
+}
+
+/**
+ * Replace the live cost data of a project with a committed batch
+ * Safe to run again if it was interrupted
+ */
+async function swapInCostBatch(batchId) {
+  await ensureConnection();
+
+  try {
+    const batch = await costDb
+      .collection("costBatches")
+      .findOne({ _id: batchId });
+
+    if (!batch || batch.status !== "committed") {
+      throw new Error(`Cost batch ${batchId} is not committed`);
+    }
+
+    const projectId = batch.project_id;
+    const staging = costDb.collection("costBatchStaging");
+
+    // Number a new version only now, so concurrent uploads get distinct
+    // numbers. The number is kept on the batch in case the swap is repeated
+    let versionNumber = batch.version_number;
+    if (
+      versionNumber === undefined &&
+      (await staging.findOne({ batch_id: batchId, target: "costPlanVersions" }))
+    ) {
+      versionNumber = await nextCostPlanVersionNumber(batch.project_name);
+      await costDb
+        .collection("costBatches")
+        .updateOne(
+          { _id: batchId },
+          { $set: { version_number: versionNumber, updated_at: new Date() } }
+        );
+    }
+    if (versionNumber !== undefined) {
+      await staging.updateOne(
+        { batch_id: batchId, target: "costPlanVersions" },
+        { $set: { "doc.version": versionNumber } }
+      );
+    }
+
+    // Copy the staged documents into the live collections
+    for (const target of ["costData", "costElements", "costPlanVersions"]) {
+      await staging
+        .aggregate([
+          { $match: { batch_id: batchId, target } },
+          { $replaceRoot: { newRoot: "$doc" } },
+          {
+            $merge: {
+              into: target,
+              on: "_id",
+              whenMatched: "replace",
+              whenNotMatched: "insert",
+            },
+          },
+        ])
+        .toArray();
+    }
+
+    // Remove what the batch replaces
+    const costDataResult = await costDb
+      .collection("costData")
+      .deleteMany({ project_id: projectId, batch_id: { $ne: batchId } });
+    const costElementsResult = await costDb
+      .collection("costElements")
+      .deleteMany({ project_id: projectId, batch_id: { $ne: batchId } });
+
+    // Update QTO elements with cost data
+    const elementOps = (
+      await staging.find({ batch_id: batchId, target: "elements" }).toArray()
+    ).map(({ doc }) => ({
+      updateOne: { filter: { _id: doc._id }, update: { $set: doc.set } },
+    }));
+    if (elementOps.length > 0) {
+      await qtoDb.collection("elements").bulkWrite(elementOps);
+    }
+
+    const summary = await updateProjectCostSummary(projectId);
+    const version = await costDb
+      .collection("costPlanVersions")
+      .findOne({ _id: batch.version_id });
+
+    const result = {
+      batchId: batchId.toString(),
+      projectId: projectId.toString(),
+      costDataSaved: batch.counts.costData,
+      costDataRemoved: costDataResult.deletedCount,
+      costElementsSaved: batch.counts.costElements,
+      costElementsRemoved: costElementsResult.deletedCount,
+      qtoElementsUpdated: batch.counts.elementUpdates,
+      totalCost: summary.total_from_elements || 0,
+      version: version ? toCostPlanVersionSummary(version) : undefined,
+    };
+
+    await costDb
+      .collection("costBatches")
+      .updateOne(
+        { _id: batchId },
+        { $set: { status: "swapped", result, updated_at: new Date() } }
+      );
+    await staging.deleteMany({ batch_id: batchId });
+
+    console.log(
+      `Swapped in cost batch ${batchId} for project '${batch.project_name}':`,
+      result
+    );
+
+    return result;
+  } catch (error) {
+    console.error(`Error swapping in cost batch ${batchId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Finish cost batches interrupted by a restart
+ * Committed batches are swapped in, abandoned staging batches are discarded
+ */
+async function recoverCostBatches() {
+  try {
+    const committed = await costDb
+      .collection("costBatches")
+      .find({ status: "committed" })
+      .toArray();
+
+    for (const batch of committed) {
+      console.log(`Recovering committed cost batch ${batch._id}`);
+      await swapInCostBatch(batch._id);
+    }
+
+    const abandoned = await costDb
+      .collection("costBatches")
+      .find({
+        status: "staging",
+        created_at: { $lt: new Date(Date.now() - STAGED_BATCH_TTL) },
+      })
+      .toArray();
+
+    for (const batch of abandoned) {
+      console.log(`Discarding abandoned cost batch ${batch._id}`);
+      await discardCostBatch(batch._id);
+    }
+  } catch (error) {
+    console.error("Error recovering cost batches:", error);
+  }
+}
+
 module.exports = {
   connectToMongoDB,
   closeMongoDB,
@@ -1270,5 +3691,45 @@ module.exports = {
   saveCostDataBatch,
   getCostElementsByProject,
   getCostElementsByEbkpCode,
+  getProjects,
+  getColumnMappingProfiles,
+  saveColumnMappingProfile,
+  getMatchingOverrides,
+  saveMatchingOverrides,
+  getProjectUnitCosts,
+  getProjectMatchingElements,
+  getElementEbkpCodes,
+  markElementProcessed,
+  getUnitCostCatalogs,
+  getReferenceCatalog,
+  saveUnitCostCatalog,
+  setReferenceCatalog,
+  getReferenceProjects,
+  setReferenceProject,
+  getReferenceProjectUnitCosts,
+  getPriceIndices,
+  savePriceIndex,
+  getPriceEscalation,
+  setPriceEscalation,
+  getCostDashboard,
+  getCostDashboardElements,
+  getCostItemElements,
+  getCostSurcharges,
+  saveCostSurcharges,
+  getBudgetTargets,
+  saveBudgetTargets,
+  onBudgetExceeded,
+  getReferenceQuantities,
+  saveReferenceQuantities,
+  getQtoReferenceQuantities,
+  getProjectCostSummary,
+  getElementSnapshot,
+  saveCostChangeReport,
+  getCostChangeReports,
+  commitCostBatch,
+  getCostPlanVersions,
+  diffCostPlanVersions,
+  restoreCostPlanVersion,
+  createCostDataDocument,
   ObjectId,
 };
@@ -0,0 +1,127 @@
+// WebSocket protocol shared with the frontend (see protocol.json)
+const protocol = require("./protocol.json");
+
+const PROTOCOL_VERSION = protocol.version;
+
+/**
+ * Get the response type of a request type, or null for unknown requests
+ */
+function getResponseType(requestType) {
+  const definition = protocol.requests[requestType];
+  return definition ? definition.response : null;
+}
+
+/**
+ * Get the protocol type of a value: string, number, boolean, array, object
+ * or null
+ */
+function getValueType(value) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isFinite(value) ? "number" : "";
+  return typeof value;
+}
+
+/**
+ * Find the fields of a message whose values don't have the type the
+ * protocol declares. Missing and null fields are left to the required check.
+ */
+function findInvalidFields(values, fieldTypes) {
+  return Object.entries(fieldTypes || {})
+    .filter(([field, type]) => {
+      const value = values[field];
+      return (
+        value !== undefined && value !== null && getValueType(value) !== type
+      );
+    })
+    .map(([field, type]) => `${field} (expected ${type})`);
+}
+
+/**
+ * Validate an incoming request against the protocol
+ * Returns null for valid requests, otherwise { code, message }
+ */
+function validateRequest(data) {
+  if (!data || typeof data.type !== "string") {
+    return {
+      code: "INVALID_MESSAGE",
+      message: "Invalid message. Missing type.",
+    };
+  }
+
+  const definition = protocol.requests[data.type];
+  if (!definition) {
+    return {
+      code: "UNKNOWN_MESSAGE_TYPE",
+      message: `Unknown message type '${data.type}'.`,
+    };
+  }
+
+  if (data.protocolVersion !== PROTOCOL_VERSION) {
+    return {
+      code: "PROTOCOL_VERSION_MISMATCH",
+      message: `Protocol version mismatch: client uses ${
+        data.protocolVersion ?? "none"
+      }, server uses ${PROTOCOL_VERSION}. Please reload the page.`,
+    };
+  }
+
+  if (data.payload !== undefined && getValueType(data.payload) !== "object") {
+    return {
+      code: "INVALID_PAYLOAD",
+      message: "Invalid payload. Expected an object.",
+    };
+  }
+
+  const payload = data.payload || {};
+  const missing = definition.required.filter(
+    (field) =>
+      payload[field] === undefined ||
+      payload[field] === null ||
+      payload[field] === ""
+  );
+  if (missing.length > 0) {
+    return {
+      code: "INVALID_PAYLOAD",
+      message: `Invalid payload. Missing ${missing.join(", ")}.`,
+    };
+  }
+
+  const invalid = findInvalidFields(payload, definition.fields);
+  if (invalid.length > 0) {
+    return {
+      code: "INVALID_PAYLOAD",
+      message: `Invalid payload. Wrong type of ${invalid.join(", ")}.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Build the error response for a request that failed validation
+ */
+function createErrorResponse(data, error) {
+  return {
+    type: getResponseType(data && data.type) || "error",
+    messageId: data && data.messageId,
+    status: "error",
+    code: error.code,
+    message: error.message,
+  };
+}
+
+/**
+ * Send a response to a client, stamped with the protocol version
+ */
+function sendResponse(ws, response) {
+  ws.send(JSON.stringify({ ...response, protocolVersion: PROTOCOL_VERSION }));
+}
+
+module.exports = {
+  PROTOCOL_VERSION,
+  getResponseType,
+  validateRequest,
+  createErrorResponse,
+  sendResponse,
+};
@@ -14,7 +14,53 @@ const {
   getCostDataForElement,
   saveCostData,
   saveCostDataBatch,
+  getProjects,
+  getColumnMappingProfiles,
+  saveColumnMappingProfile,
+  getMatchingOverrides,
+  saveMatchingOverrides,
+  getProjectUnitCosts,
+  getProjectMatchingElements,
+  getElementEbkpCodes,
+  markElementProcessed,
+  getUnitCostCatalogs,
+  getReferenceCatalog,
+  saveUnitCostCatalog,
+  setReferenceCatalog,
+  getReferenceProjects,
+  setReferenceProject,
+  getReferenceProjectUnitCosts,
+  getPriceIndices,
+  savePriceIndex,
+  getPriceEscalation,
+  setPriceEscalation,
+  getCostSurcharges,
+  saveCostSurcharges,
+  getBudgetTargets,
+  saveBudgetTargets,
+  onBudgetExceeded,
+  getReferenceQuantities,
+  saveReferenceQuantities,
+  getQtoReferenceQuantities,
+  getCostDashboard,
+  getCostDashboardElements,
+  getCostItemElements,
+  getProjectCostSummary,
+  getElementSnapshot,
+  saveCostChangeReport,
+  getCostChangeReports,
+  commitCostBatch,
+  getCostPlanVersions,
+  diffCostPlanVersions,
+  restoreCostPlanVersion,
+  createCostDataDocument,
 } = require("./mongodb");
+const {
+  validateRequest,
+  createErrorResponse,
+  sendResponse,
+} = require("./protocol");
+const { getElementQuantity } = require("./units");
 
 // Load environment variables
 dotenv.config();
@@ -30,10 +76,6 @@ const config = {
   websocket: {
     port: parseInt(process.env.WEBSOCKET_PORT || "8001"),
   },
-  storage: {
-    elementFile: process.env.ELEMENT_FILE || "ifc_elements.json",
-    saveInterval: parseInt(process.env.SAVE_INTERVAL || "300000"), // 5 minutes
-  },
   mongodb: {
     enabled: true, // Always enable MongoDB
     uri:
@@ -49,29 +91,14 @@ const config = {
   },
 };
 
-// Store unit costs by EBKPH code in memory
-const unitCostsByEbkph = {};
-
-// Store IFC elements by EBKPH code
-const ifcElementsByEbkph = {};
-
-// Track elements to prevent duplicates
-const processedElementIds = new Set();
-
-// Storage for elements by project
-const elementsByProject = {};
-
-// Add at the top with other global variables
-let cachedMatches = null;
-let lastMatchTimestamp = null;
-const MATCH_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
+// The matching state (unit costs, model elements and processed element IDs)
+// is kept per project in MongoDB, so every replica matches the same way
 
 console.log("Starting WebSocket server with configuration:", {
   kafkaBroker: config.kafka.broker,
   kafkaTopic: config.kafka.topic,
   kafkaCostTopic: config.kafka.costTopic,
   websocketPort: config.websocket.port,
-  elementFile: config.storage.elementFile,
   mongodbEnabled: config.mongodb.enabled,
   mongodbUri: config.mongodb.uri,
   mongodbDatabase: config.mongodb.database,
@@ -121,61 +148,126 @@ const server = http.createServer((req, res) => {
         costProducer: costProducer.isConnected ? "CONNECTED" : "DISCONNECTED",
         clients: clients.size,
         topics: [config.kafka.topic, config.kafka.costTopic],
-        elements: {
-          stored: processedElementIds.size,
-          byEbkph: Object.keys(ifcElementsByEbkph).length,
-          byProject: Object.keys(elementsByProject).length,
-        },
       })
     );
   }
-  // Endpoint to get all stored elements
+  // Endpoint to get the element count of all projects
   else if (req.url === "/elements") {
-    res.writeHead(200, { "Content-Type": "application/json" });
-    res.end(
-      JSON.stringify({
-        elementCount: processedElementIds.size,
-        ebkphCodes: Object.keys(ifcElementsByEbkph),
-        projects: Object.keys(elementsByProject),
-        timestamp: new Date().toISOString(),
+    getProjects()
+      .then((projects) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            elementCount: projects.reduce(
+              (count, project) => count + (project.elementCount || 0),
+              0
+            ),
+            projects: projects.map((project) => project.name),
+            timestamp: new Date().toISOString(),
+          })
+        );
       })
-    );
+      .catch((error) => {
+        console.error("Error getting elements:", error);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({ error: `Failed to get elements: ${error.message}` })
+        );
+      });
   }
-  // Get elements by EBKPH code
+  // Get elements of a project by EBKPH code (/elements/ebkph/:code?project=)
   else if (req.url.startsWith("/elements/ebkph/")) {
-    const ebkpCode = req.url.replace("/elements/ebkph/", "");
-    const normalizedCode = normalizeEbkpCode(ebkpCode);
-    const elements = ifcElementsByEbkph[normalizedCode] || [];
+    const url = new URL(req.url, "http://localhost");
+    const ebkpCode = decodeURIComponent(
+      url.pathname.replace("/elements/ebkph/", "")
+    );
+    const projectName = url.searchParams.get("project");
 
-    res.writeHead(200, { "Content-Type": "application/json" });
-    res.end(
-      JSON.stringify({
-        ebkphCode: ebkpCode,
-        normalizedCode,
-        elements,
-        count: elements.length,
-        hasCost: unitCostsByEbkph[normalizedCode] !== undefined,
+    if (!projectName) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Missing query parameter 'project'" }));
+      return;
+    }
+
+    loadProjectMatchingState(projectName)
+      .then(({ catalogs, elementsByEbkph }) => {
+        const normalizedCode = normalizeEbkpCode(ebkpCode);
+        const elements = elementsByEbkph[normalizedCode] || [];
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            project: projectName,
+            ebkphCode: ebkpCode,
+            normalizedCode,
+            elements,
+            count: elements.length,
+            hasCost: catalogs.some(
+              (catalog) => catalog.unitCosts[normalizedCode] !== undefined
+            ),
+          })
+        );
       })
-    );
+      .catch((error) => {
+        console.error(`Error getting elements for code ${ebkpCode}:`, error);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({ error: `Failed to get elements: ${error.message}` })
+        );
+      });
   }
   // Get elements by project
   else if (req.url.startsWith("/elements/project/")) {
     const projectName = decodeURIComponent(
       req.url.replace("/elements/project/", "")
     );
-    const projectData = elementsByProject[projectName] || {};
 
-    res.writeHead(200, { "Content-Type": "application/json" });
-    res.end(
-      JSON.stringify({
-        project: projectName,
-        ebkphCodes: Object.keys(projectData),
-        elementCount: Object.values(projectData).reduce(
-          (count, elements) => count + elements.length,
-          0
-        ),
+    loadProjectMatchingState(projectName)
+      .then(({ elementsByEbkph }) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            project: projectName,
+            ebkphCodes: Object.keys(elementsByEbkph),
+            elementCount: Object.values(elementsByEbkph).reduce(
+              (count, elements) => count + elements.length,
+              0
+            ),
+          })
+        );
       })
-    );
+      .catch((error) => {
+        console.error(
+          `Error getting elements for project ${projectName}:`,
+          error
+        );
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({ error: `Failed to get elements: ${error.message}` })
+        );
+      });
+  }
+  // Get all projects of the QTO database (/projects)
+  else if (req.url === "/projects") {
+    // Check if MongoDB is enabled
+    if (!config.mongodb.enabled) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "MongoDB is not enabled" }));
+      return;
+    }
+
+    getProjects()
+      .then((projects) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(projects));
+      })
+      .catch((error) => {
+        console.error("Error getting projects:", error);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({ error: `Failed to get projects: ${error.message}` })
+        );
+      });
   }
   // Get project elements by name (/project-elements/:projectName)
   else if (req.url.startsWith("/project-elements/")) {
@@ -302,6 +394,8 @@ const server = http.createServer((req, res) => {
                 `Manual calculation found total cost: ${manualTotal}`
               );
               costSummary.total_from_elements = manualTotal;
+              costSummary.total_from_elements_escalated =
+                manualTotal * (costSummary.price_escalation?.factor || 1);
 
               // Update the summary with the corrected total
               await costDb.collection("costSummaries").updateOne(
@@ -309,6 +403,8 @@ const server = http.createServer((req, res) => {
                 {
                   $set: {
                     total_from_elements: manualTotal,
+                    total_from_elements_escalated:
+                      costSummary.total_from_elements_escalated,
                     updated_at: new Date(),
                   },
                 }
@@ -324,6 +420,15 @@ const server = http.createServer((req, res) => {
           cost_data_count: costSummary.cost_data_count,
           total_from_cost_data: costSummary.total_from_cost_data,
           total_from_elements: costSummary.total_from_elements,
+          total_from_cost_data_escalated:
+            costSummary.total_from_cost_data_escalated,
+          total_from_elements_escalated:
+            costSummary.total_from_elements_escalated,
+          price_escalation: costSummary.price_escalation,
+          cost_breakdown: costSummary.cost_breakdown,
+          cost_by_level: costSummary.cost_by_level,
+          budget_status: costSummary.budget_status,
+          cost_benchmarks: costSummary.cost_benchmarks,
           updated_at: costSummary.updated_at,
         };
 
@@ -402,19 +507,7 @@ const server = http.createServer((req, res) => {
 
         // Send to Kafka
         try {
-          // Create a proper message
-          const message = {
-            key: payload.projectId || payload.projectName,
-            value: JSON.stringify(data),
-          };
-
-          // Produce the message to Kafka
-          await producer.send({
-            topic: config.kafka.costTopic || "cost-data",
-            messages: [message],
-          });
-
-          console.log("Cost update sent to Kafka:", message.key);
+          await sendCostUpdateToKafka(data);
 
           // Update internal elements mapping if project is loaded
           const projectName = payload.projectName;
@@ -469,87 +562,32 @@ const server = http.createServer((req, res) => {
       }
     });
   }
-  // Add new endpoint for debugging EBKPH code matching
-  else if (req.url === "/debug/codes") {
-    // Collect Excel cost codes
-    const excelCodes = Object.keys(unitCostsByEbkph).map((code) => ({
-      code,
-      normalized: code,
-      originalCode: unitCostsByEbkph[code].originalCode || code,
-      unitCost: unitCostsByEbkph[code].cost_unit,
-    }));
-
-    // Collect IFC element codes
-    const ifcCodes = Object.keys(ifcElementsByEbkph).map((code) => ({
-      code,
-      normalized: code,
-      elementCount: ifcElementsByEbkph[code].length,
-    }));
-
-    // Find potential matches (codes that should match but don't)
-    const potentialMatches = [];
-    const automaticMatches = [];
-
-    ifcCodes.forEach((ifcCode) => {
-      const match = findBestEbkphMatch(ifcCode.code);
-      if (match && match.method !== "direct") {
-        automaticMatches.push({
-          ifcCode: ifcCode.code,
-          matchedWith: match.code,
-          method: match.method,
-          unitCost: match.costInfo.cost_unit,
-          elementCount: ifcCode.elementCount,
-        });
-      }
-    });
+  // Add new endpoint for debugging EBKPH code matching of a project
+  else if (req.url.startsWith("/debug/codes")) {
+    const projectName = new URL(req.url, "http://localhost").searchParams.get(
+      "project"
+    );
 
-    excelCodes.forEach((excelCode) => {
-      // Check for close matches that don't match exactly
-      ifcCodes.forEach((ifcCode) => {
-        // Simple comparison: codes that match when lowercased and spaces/zeros removed
-        const simplifiedExcel = excelCode.originalCode
-          .toLowerCase()
-          .replace(/\s+/g, "")
-          .replace(/^([a-z])0+(\d+)/g, "$1$2");
-        const simplifiedIfc = ifcCode.code
-          .toLowerCase()
-          .replace(/\s+/g, "")
-          .replace(/^([a-z])0+(\d+)/g, "$1$2");
+    if (!projectName) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Missing query parameter 'project'" }));
+      return;
+    }
 
-        if (
-          simplifiedExcel === simplifiedIfc &&
-          excelCode.code !== ifcCode.code
-        ) {
-          potentialMatches.push({
-            excelCode: excelCode.originalCode,
-            normalizedExcel: excelCode.code,
-            ifcCode: ifcCode.code,
-            normalizedIfc: ifcCode.normalized,
-            simplifiedExcel,
-            simplifiedIfc,
-            reason: "Similar but not matching exactly",
-          });
-        }
+    loadProjectMatchingState(projectName)
+      .then(({ catalogs, elementsByEbkph }) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify(debugCodeMatching(catalogs, elementsByEbkph), null, 2) // Pretty print JSON
+        );
+      })
+      .catch((error) => {
+        console.error(`Error debugging codes of ${projectName}:`, error);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({ error: `Failed to debug codes: ${error.message}` })
+        );
       });
-    });
-
-    res.writeHead(200, { "Content-Type": "application/json" });
-    res.end(
-      JSON.stringify(
-        {
-          excelCodes,
-          ifcCodes,
-          potentialMatches,
-          automaticMatches,
-          matchingCodes: excelCodes
-            .filter((ec) => ifcCodes.some((ic) => ic.code === ec.code))
-            .map((ec) => ec.code),
-          timestamp: new Date().toISOString(),
-        },
-        null,
-        2
-      ) // Pretty print JSON
-    );
   } else {
     res.writeHead(404, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ error: "Not found" }));
@@ -615,6 +653,30 @@ process.on("SIGINT", () => {
   process.exit(0);
 });
 
+/**
+ * Describe what a saved cost batch changed, for the response message
+ */
+function describeCostBatchResult(result) {
+  return `Saved ${result.costDataSaved} Excel items to costData (replacing ${result.costDataRemoved}) and ${result.costElementsSaved} cost elements to costElements (replacing ${result.costElementsRemoved}), updated ${result.qtoElementsUpdated} QTO elements and stored version ${result.version?.version}.`;
+}
+
+// Chunked cost batch uploads by uploadId, kept until committed or expired
+const pendingBatchUploads = new Map();
+const BATCH_UPLOAD_TTL = 30 * 60 * 1000; // 30 minutes in milliseconds
+
+/**
+ * Drop chunked uploads that were not committed in time
+ */
+function purgeExpiredBatchUploads() {
+  const now = Date.now();
+  pendingBatchUploads.forEach((upload, uploadId) => {
+    if (now - upload.updatedAt > BATCH_UPLOAD_TTL) {
+      console.log(`Discarding expired batch upload ${uploadId}`);
+      pendingBatchUploads.delete(uploadId);
+    }
+  });
+}
+
 // Handle WebSocket connections
 wss.on("connection", async (ws, req) => {
   const clientId = nextClientId++;
@@ -642,6 +704,16 @@ wss.on("connection", async (ws, req) => {
       const data = JSON.parse(message);
       console.log(`Received message from client ${clientId}:`, message);
 
+      // Reject messages that do not match the shared protocol
+      const validationError = validateRequest(data);
+      if (validationError) {
+        console.error(
+          `Rejected message from client ${clientId}: ${validationError.message}`
+        );
+        sendResponse(ws, createErrorResponse(data, validationError));
+        return;
+      }
+
       // Handle delete project data request - new handler
       if (data.type === "delete_project_data") {
         const { projectName } = data.payload || {};
@@ -649,14 +721,12 @@ wss.on("connection", async (ws, req) => {
 
         if (!projectName) {
           console.error("Invalid delete_project_data payload:", data.payload);
-          ws.send(
-            JSON.stringify({
-              type: "delete_project_data_response",
-              messageId,
-              status: "error",
-              message: "Invalid payload. Missing projectName.",
-            })
-          );
+          sendResponse(ws, {
+            type: "delete_project_data_response",
+            messageId,
+            status: "error",
+            message: "Invalid payload. Missing projectName.",
+          });
           return;
         }
 
@@ -673,15 +743,13 @@ wss.on("connection", async (ws, req) => {
           if (!qtoProject) {
             // Project not found but don't treat it as an error
             console.log(`Project '${projectName}' not found for deletion`);
-            ws.send(
-              JSON.stringify({
-                type: "delete_project_data_response",
-                messageId,
-                status: "success",
-                message: `Project '${projectName}' not found, nothing to delete`,
-                deletedCount: 0,
-              })
-            );
+            sendResponse(ws, {
+              type: "delete_project_data_response",
+              messageId,
+              status: "success",
+              message: `Project '${projectName}' not found, nothing to delete`,
+              deletedCount: 0,
+            });
             return;
           }
 
@@ -712,176 +780,953 @@ wss.on("connection", async (ws, req) => {
           );
 
           // Send success response
-          ws.send(
-            JSON.stringify({
-              type: "delete_project_data_response",
-              messageId,
-              status: "success",
-              message: `Successfully deleted ${totalDeleted} cost data entries`,
-              deletedCount: totalDeleted,
-              details: {
-                costData: costDataResult.deletedCount,
-                costElements: costElementsResult.deletedCount,
-                costSummaries: costSummariesResult.deletedCount,
-              },
-            })
-          );
+          sendResponse(ws, {
+            type: "delete_project_data_response",
+            messageId,
+            status: "success",
+            message: `Successfully deleted ${totalDeleted} cost data entries`,
+            deletedCount: totalDeleted,
+            details: {
+              costData: costDataResult.deletedCount,
+              costElements: costElementsResult.deletedCount,
+              costSummaries: costSummariesResult.deletedCount,
+            },
+          });
         } catch (error) {
           console.error(
             `Error deleting cost data for project '${projectName}':`,
             error
           );
           // Send error response
-          ws.send(
-            JSON.stringify({
-              type: "delete_project_data_response",
-              messageId,
-              status: "error",
-              message: `Failed to delete cost data: ${error.message}`,
-            })
-          );
+          sendResponse(ws, {
+            type: "delete_project_data_response",
+            messageId,
+            status: "error",
+            message: `Failed to delete cost data: ${error.message}`,
+          });
         }
         return; // Ensure we don't fall through
       }
 
-      // Handle request for available eBKP codes
-      if (data.type === "get_available_ebkp_codes") {
-        console.log("Received request for available eBKP codes");
-
-        try {
-          // Get all unique eBKP codes from elements and unit costs
-          const allCodes = new Set([
-            ...Object.keys(ifcElementsByEbkph),
-            ...Object.keys(unitCostsByEbkph),
-          ]);
+      // Handle request for the saved column mapping profiles of a project
+      if (data.type === "get_column_profiles") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
 
-          // Create a more detailed response with code information
-          const codeDetails = Array.from(allCodes).map((code) => {
-            // Count elements with this code
-            const elements = ifcElementsByEbkph[code] || [];
-            const elementCount = elements.length;
+        if (!projectName) {
+          sendResponse(ws, {
+            type: "get_column_profiles_response",
+            messageId,
+            status: "error",
+            message: "Invalid payload. Missing projectName.",
+            profiles: [],
+          });
+          return;
+        }
 
-            // Check if we have costs for this code
-            const hasCost = unitCostsByEbkph[code] !== undefined;
+        const profiles = await getColumnMappingProfiles(projectName);
+        console.log(
+          `Sending ${profiles.length} column mapping profiles for project '${projectName}'`
+        );
+        sendResponse(ws, {
+          type: "get_column_profiles_response",
+          messageId,
+          status: "success",
+          profiles,
+        });
+        return;
+      }
 
-            // Calculate total area for this code
-            const totalArea = elements.reduce((sum, element) => {
-              return sum + parseFloat(element.quantity || element.area || 0);
-            }, 0);
+      // Handle request to save a column mapping profile
+      if (data.type === "save_column_profile") {
+        const { projectName, profile } = data.payload || {};
+        const messageId = data.messageId;
 
-            return {
-              code,
-              elementCount,
-              hasCost,
-              totalArea,
-              // Add the original format for troubleshooting
-              originalFormat: code,
-            };
+        if (!projectName || !profile || !profile.name || !profile.mapping) {
+          console.error("Invalid save_column_profile payload:", data.payload);
+          sendResponse(ws, {
+            type: "save_column_profile_response",
+            messageId,
+            status: "error",
+            message:
+              "Invalid payload. Missing projectName, profile name or mapping.",
           });
+          return;
+        }
 
-          // Send back as an array with detailed info
-          const response = {
-            type: "available_ebkp_codes",
-            messageId: data.messageId,
-            codes: Array.from(allCodes),
-            codeDetails,
-            timestamp: new Date().toISOString(),
-          };
-
-          ws.send(JSON.stringify(response));
+        try {
+          const savedProfile = await saveColumnMappingProfile(
+            projectName,
+            profile
+          );
           console.log(
-            `Sent ${allCodes.size} available eBKP codes to client with details`
+            `Saved column mapping profile '${profile.name}' for project '${projectName}'`
           );
-          return;
+          sendResponse(ws, {
+            type: "save_column_profile_response",
+            messageId,
+            status: "success",
+            profile: savedProfile,
+          });
         } catch (error) {
-          console.error(
-            "Error processing available eBKP codes request:",
-            error
-          );
-          ws.send(
-            JSON.stringify({
-              type: "available_ebkp_codes",
-              messageId: data.messageId,
-              error: "Failed to get eBKP codes: " + error.message,
-              codes: [],
-              timestamp: new Date().toISOString(),
-            })
-          );
+          sendResponse(ws, {
+            type: "save_column_profile_response",
+            messageId,
+            status: "error",
+            message: `Failed to save column profile: ${error.message}`,
+          });
         }
         return;
       }
 
-      // Handle request for code matching
-      if (data.type === "request_code_matching") {
-        console.log(
-          `Received code matching request with ${
-            data.codes?.length || 0
-          } codes from client ${clientId}`
-        );
+      // Handle request for the manual eBKP matching overrides of a project
+      if (data.type === "get_matching_overrides") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
 
-        try {
-          // Log input details
-          if (data.codes?.length > 0) {
-            console.log(
-              `Sample codes: ${data.codes.slice(0, 5).join(", ")}...`
-            );
-          } else {
-            console.log("WARNING: No codes provided in request");
-          }
+        if (!projectName) {
+          sendResponse(ws, {
+            type: "get_matching_overrides_response",
+            messageId,
+            status: "error",
+            message: "Invalid payload. Missing projectName.",
+            overrides: [],
+          });
+          return;
+        }
 
-          // Force MongoDB load if requested
-          if (data.debug?.forceMongoDB && config.mongodb.enabled) {
-            console.log("DEBUG: Client requested to force MongoDB load");
-            await loadElementsFromMongoDB();
-            // Force refresh matches after MongoDB load
-            cachedMatches = null;
-            lastMatchTimestamp = null;
-          }
+        const overrides = await getMatchingOverrides(projectName);
+        sendResponse(ws, {
+          type: "get_matching_overrides_response",
+          messageId,
+          status: "success",
+          overrides,
+        });
+        return;
+      }
 
-          // Get codes from the message
-          const excelCodes = data.codes || [];
-          console.log(`Processing ${excelCodes.length} excel codes`);
+      // Handle request to save the manual eBKP matching overrides of a project
+      if (data.type === "save_matching_overrides") {
+        const { projectName, overrides } = data.payload || {};
+        const messageId = data.messageId;
 
-          // Some basic validation
-          if (!excelCodes.length) {
-            console.log("No codes to process, sending empty response");
-            ws.send(
-              JSON.stringify({
-                type: "code_matching_info",
-                messageId: data.messageId,
-                status: "success",
-                matchingCodes: [],
-                matches: [],
-                matchCount: 0,
-                timestamp: new Date().toISOString(),
-              })
-            );
-            return;
-          }
+        if (!projectName || !Array.isArray(overrides)) {
+          console.error(
+            "Invalid save_matching_overrides payload:",
+            data.payload
+          );
+          sendResponse(ws, {
+            type: "save_matching_overrides_response",
+            messageId,
+            status: "error",
+            message: "Invalid payload. Missing projectName or overrides.",
+          });
+          return;
+        }
 
-          // Normalize the codes for better matching
-          const normalizedCodes = excelCodes.map((code) =>
-            normalizeEbkpCode(code)
+        try {
+          const savedCount = await saveMatchingOverrides(
+            projectName,
+            overrides
           );
           console.log(
-            `Normalized ${normalizedCodes.length} codes for matching`
+            `Saved ${savedCount} matching overrides for project '${projectName}'`
           );
+          sendResponse(ws, {
+            type: "save_matching_overrides_response",
+            messageId,
+            status: "success",
+            savedCount,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "save_matching_overrides_response",
+            messageId,
+            status: "error",
+            message: `Failed to save matching overrides: ${error.message}`,
+          });
+        }
+        return;
+      }
 
-          try {
-            // Get elements and unit costs
-            const elementsList = Object.values(ifcElementsByEbkph).flat();
-            console.log(
-              `Processing matches using ${elementsList.length} elements and ${
-                Object.keys(unitCostsByEbkph).length
-              } cost codes`
-            );
+      // Handle request for the reference unit cost catalogs
+      if (data.type === "get_unit_cost_catalogs") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const catalogs = await getUnitCostCatalogs();
+          const referenceCatalog = await getReferenceCatalog(projectName);
+          sendResponse(ws, {
+            type: "get_unit_cost_catalogs_response",
+            messageId,
+            status: "success",
+            catalogs,
+            referenceCatalog: referenceCatalog ? referenceCatalog.name : null,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_unit_cost_catalogs_response",
+            messageId,
+            status: "error",
+            message: `Failed to get unit cost catalogs: ${error.message}`,
+            catalogs: [],
+          });
+        }
+        return;
+      }
+
+      // Handle request to publish the unit costs of a project as a reference catalog
+      if (data.type === "save_unit_cost_catalog") {
+        const { projectName, catalogName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const catalog = await saveUnitCostCatalog(catalogName, projectName);
+          console.log(
+            `Saved unit cost catalog '${catalogName}' with ${catalog.itemCount} items from project '${projectName}'`
+          );
+          sendResponse(ws, {
+            type: "save_unit_cost_catalog_response",
+            messageId,
+            status: "success",
+            catalog,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "save_unit_cost_catalog_response",
+            messageId,
+            status: "error",
+            message: `Failed to save unit cost catalog: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request to set the reference catalog a project falls back to
+      if (data.type === "set_reference_catalog") {
+        const { projectName, catalogName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const referenceCatalog = await setReferenceCatalog(
+            projectName,
+            catalogName
+          );
+          console.log(
+            `Project '${projectName}' now falls back to ${
+              referenceCatalog ? `catalog '${referenceCatalog}'` : "no catalog"
+            }`
+          );
+          sendResponse(ws, {
+            type: "set_reference_catalog_response",
+            messageId,
+            status: "success",
+            referenceCatalog,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "set_reference_catalog_response",
+            messageId,
+            status: "error",
+            message: `Failed to set reference catalog: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request for the unit cost library of the reference projects
+      if (data.type === "get_unit_cost_library") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const library = await loadUnitCostLibrary(projectName);
+          const referenceProjects = await getReferenceProjects();
+          sendResponse(ws, {
+            type: "get_unit_cost_library_response",
+            messageId,
+            status: "success",
+            library,
+            referenceProjects,
+            isReference: referenceProjects.includes(projectName),
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_unit_cost_library_response",
+            messageId,
+            status: "error",
+            message: `Failed to get unit cost library: ${error.message}`,
+            library: [],
+          });
+        }
+        return;
+      }
+
+      // Handle request to include a project in the reference library
+      if (data.type === "set_reference_project") {
+        const { projectName, isReference } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const result = await setReferenceProject(projectName, isReference);
+          console.log(
+            `Project '${projectName}' ${
+              result ? "added to" : "removed from"
+            } the reference library`
+          );
+          sendResponse(ws, {
+            type: "set_reference_project_response",
+            messageId,
+            status: "success",
+            isReference: result,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "set_reference_project_response",
+            messageId,
+            status: "error",
+            message: `Failed to set reference project: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request for the price index series and the escalation of a project
+      if (data.type === "get_price_indices") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const indices = await getPriceIndices();
+          const escalation = await getPriceEscalation(projectName);
+          sendResponse(ws, {
+            type: "get_price_indices_response",
+            messageId,
+            status: "success",
+            indices,
+            escalation,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_price_indices_response",
+            messageId,
+            status: "error",
+            message: `Failed to get price indices: ${error.message}`,
+            indices: [],
+          });
+        }
+        return;
+      }
+
+      // Handle request to save a price index series entered by the user
+      if (data.type === "save_price_index") {
+        const { indexName, points } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const index = await savePriceIndex(indexName, points);
+          console.log(
+            `Saved price index '${indexName}' with ${index.points.length} values`
+          );
+          sendResponse(ws, {
+            type: "save_price_index_response",
+            messageId,
+            status: "success",
+            index,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "save_price_index_response",
+            messageId,
+            status: "error",
+            message: `Failed to save price index: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request to set how the Kennwerte of a project are escalated
+      if (data.type === "set_price_escalation") {
+        const { projectName, escalation } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const result = await setPriceEscalation(projectName, escalation);
+          console.log(
+            `Project '${projectName}' ${
+              result
+                ? `escalated with '${result.indexName}' from ${result.baseDate} to ${result.targetDate} (factor ${result.factor})`
+                : "no longer escalated"
+            }`
+          );
+          sendResponse(ws, {
+            type: "set_price_escalation_response",
+            messageId,
+            status: "success",
+            escalation: result,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "set_price_escalation_response",
+            messageId,
+            status: "error",
+            message: `Failed to set price escalation: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request for the surcharge rules of a project
+      if (data.type === "get_cost_surcharges") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const surcharges = await getCostSurcharges(projectName);
+          sendResponse(ws, {
+            type: "get_cost_surcharges_response",
+            messageId,
+            status: "success",
+            surcharges,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_cost_surcharges_response",
+            messageId,
+            status: "error",
+            message: `Failed to get cost surcharges: ${error.message}`,
+            surcharges: [],
+          });
+        }
+        return;
+      }
+
+      // Handle request to replace the surcharge rules of a project
+      if (data.type === "save_cost_surcharges") {
+        const { projectName, surcharges } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const saved = await saveCostSurcharges(projectName, surcharges);
+          console.log(
+            `Saved ${saved.length} surcharge rules for project '${projectName}'`
+          );
+          sendResponse(ws, {
+            type: "save_cost_surcharges_response",
+            messageId,
+            status: "success",
+            surcharges: saved,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "save_cost_surcharges_response",
+            messageId,
+            status: "error",
+            message: `Failed to save cost surcharges: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request for the budget targets of a project
+      if (data.type === "get_budget_targets") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const targets = await getBudgetTargets(projectName);
+          sendResponse(ws, {
+            type: "get_budget_targets_response",
+            messageId,
+            status: "success",
+            targets,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_budget_targets_response",
+            messageId,
+            status: "error",
+            message: `Failed to get budget targets: ${error.message}`,
+            targets: [],
+          });
+        }
+        return;
+      }
+
+      // Handle request to replace the budget targets of a project; the
+      // summary is recalculated so overruns are reported right away
+      if (data.type === "save_budget_targets") {
+        const { projectName, targets } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const saved = await saveBudgetTargets(projectName, targets);
+          const summary = await getProjectCostSummary(projectName);
+          console.log(
+            `Saved ${saved.length} budget targets for project '${projectName}'`
+          );
+          sendResponse(ws, {
+            type: "save_budget_targets_response",
+            messageId,
+            status: "success",
+            targets: saved,
+            budgetStatus: summary ? summary.budget_status : [],
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "save_budget_targets_response",
+            messageId,
+            status: "error",
+            message: `Failed to save budget targets: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request for the reference quantities of a project, with the
+      // values its QTO model provides
+      if (data.type === "get_reference_quantities") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const [referenceQuantities, qtoQuantities] = await Promise.all([
+            getReferenceQuantities(projectName),
+            getQtoReferenceQuantities(projectName),
+          ]);
+          sendResponse(ws, {
+            type: "get_reference_quantities_response",
+            messageId,
+            status: "success",
+            referenceQuantities,
+            qtoQuantities,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_reference_quantities_response",
+            messageId,
+            status: "error",
+            message: `Failed to get reference quantities: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request to replace the reference quantities of a project; the
+      // summary is recalculated with the new benchmarks
+      if (data.type === "save_reference_quantities") {
+        const { projectName, referenceQuantities } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const saved = await saveReferenceQuantities(
+            projectName,
+            referenceQuantities
+          );
+          const summary = await getProjectCostSummary(projectName);
+          sendResponse(ws, {
+            type: "save_reference_quantities_response",
+            messageId,
+            status: "success",
+            referenceQuantities: saved,
+            benchmarks: summary ? summary.cost_benchmarks : null,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "save_reference_quantities_response",
+            messageId,
+            status: "error",
+            message: `Failed to save reference quantities: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request for the cost of a project by group, level and category
+      if (data.type === "get_cost_dashboard") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const dashboard = await getCostDashboard(projectName);
+          sendResponse(ws, {
+            type: "get_cost_dashboard_response",
+            messageId,
+            status: "success",
+            dashboard,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_cost_dashboard_response",
+            messageId,
+            status: "error",
+            message: `Failed to get cost dashboard: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request for the cost elements behind one dashboard bar
+      if (data.type === "get_cost_dashboard_elements") {
+        const { projectName, dimension, key } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const elements = await getCostDashboardElements(
+            projectName,
+            dimension,
+            key
+          );
+          sendResponse(ws, {
+            type: "get_cost_dashboard_elements_response",
+            messageId,
+            status: "success",
+            elements,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_cost_dashboard_elements_response",
+            messageId,
+            status: "error",
+            message: `Failed to get cost dashboard elements: ${error.message}`,
+            elements: [],
+          });
+        }
+        return;
+      }
+
+      // Handle request for the elements matched to one cost row
+      if (data.type === "get_cost_item_elements") {
+        const { projectName, ebkpCode } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const { source, elements } = await getCostItemElements(
+            projectName,
+            ebkpCode
+          );
+          sendResponse(ws, {
+            type: "get_cost_item_elements_response",
+            messageId,
+            status: "success",
+            source,
+            elements,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_cost_item_elements_response",
+            messageId,
+            status: "error",
+            message: `Failed to get elements of cost row: ${error.message}`,
+            elements: [],
+          });
+        }
+        return;
+      }
+
+      // Handle request for the change reports of a project's updates
+      if (data.type === "get_cost_change_reports") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        try {
+          const reports = await getCostChangeReports(projectName);
+          sendResponse(ws, {
+            type: "get_cost_change_reports_response",
+            messageId,
+            status: "success",
+            reports,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_cost_change_reports_response",
+            messageId,
+            status: "error",
+            message: `Failed to get cost change reports: ${error.message}`,
+            reports: [],
+          });
+        }
+        return;
+      }
+
+      // Handle request for the stored cost plan versions of a project
+      if (data.type === "get_cost_plan_versions") {
+        const { projectName } = data.payload || {};
+        const messageId = data.messageId;
+
+        if (!projectName) {
+          sendResponse(ws, {
+            type: "get_cost_plan_versions_response",
+            messageId,
+            status: "error",
+            message: "Invalid payload. Missing projectName.",
+          });
+          return;
+        }
+
+        const versions = await getCostPlanVersions(projectName);
+        sendResponse(ws, {
+          type: "get_cost_plan_versions_response",
+          messageId,
+          status: "success",
+          versions,
+        });
+        return;
+      }
+
+      // Handle request for the eBKP-level diff between two cost plan versions
+      if (data.type === "get_cost_plan_diff") {
+        const { projectName, baseVersionId, compareVersionId } =
+          data.payload || {};
+        const messageId = data.messageId;
+
+        if (!projectName || !baseVersionId || !compareVersionId) {
+          sendResponse(ws, {
+            type: "get_cost_plan_diff_response",
+            messageId,
+            status: "error",
+            message:
+              "Invalid payload. Missing projectName, baseVersionId or compareVersionId.",
+          });
+          return;
+        }
+
+        try {
+          const diff = await diffCostPlanVersions(
+            projectName,
+            baseVersionId,
+            compareVersionId
+          );
+          sendResponse(ws, {
+            type: "get_cost_plan_diff_response",
+            messageId,
+            status: "success",
+            diff,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "get_cost_plan_diff_response",
+            messageId,
+            status: "error",
+            message: `Failed to compare cost plan versions: ${error.message}`,
+          });
+        }
+        return;
+      }
 
-            // Process matches (will use cache if available)
-            const matches = await batchProcessCodeMatches(
-              elementsList,
-              unitCostsByEbkph,
-              data.debug?.forceRefresh || false
+      // Handle request to restore a previous cost plan version
+      if (data.type === "restore_cost_plan_version") {
+        const { projectName, versionId } = data.payload || {};
+        const messageId = data.messageId;
+
+        if (!projectName || !versionId) {
+          sendResponse(ws, {
+            type: "restore_cost_plan_version_response",
+            messageId,
+            status: "error",
+            message: "Invalid payload. Missing projectName or versionId.",
+          });
+          return;
+        }
+
+        try {
+          const result = await restoreCostPlanVersion(projectName, versionId);
+
+          // Notify other plugins the same way the frontend does after an upload
+          try {
+            await sendCostUpdateToKafka({
+              eventType: "COST_UPDATED",
+              timestamp: new Date().toISOString(),
+              producer: "plugin-cost",
+              payload: {
+                projectId: result.projectId,
+                projectName,
+                elementCount: result.summary.elements_count || 0,
+                totalCost: result.summary.total_from_elements || 0,
+              },
+              metadata: {
+                version: "1.0",
+                correlationId: `cost-restore-${Date.now()}`,
+              },
+            });
+          } catch (error) {
+            console.error("Error sending cost update to Kafka:", error);
+          }
+
+          sendResponse(ws, {
+            type: "restore_cost_plan_version_response",
+            messageId,
+            status: "success",
+            message: `Restored version ${result.version.version} of project '${projectName}'`,
+            result,
+          });
+        } catch (error) {
+          sendResponse(ws, {
+            type: "restore_cost_plan_version_response",
+            messageId,
+            status: "error",
+            message: `Failed to restore cost plan version: ${error.message}`,
+          });
+        }
+        return;
+      }
+
+      // Handle request for available eBKP codes
+      if (data.type === "get_available_ebkp_codes") {
+        const projectName = data.payload?.projectName;
+        console.log(
+          `Received request for available eBKP codes${
+            projectName ? ` of project '${projectName}'` : ""
+          }`
+        );
+
+        try {
+          // Without a project only the model codes of all projects are listed,
+          // unit costs always belong to a single project
+          const { catalogs, elementsByEbkph } = projectName
+            ? await loadProjectMatchingState(projectName)
+            : {
+                catalogs: [],
+                elementsByEbkph: Object.fromEntries(
+                  (await getElementEbkpCodes()).map((code) => [
+                    normalizeEbkpCode(code),
+                    [],
+                  ])
+                ),
+              };
+
+          // Get all unique eBKP codes from elements and the project's unit costs
+          const allCodes = new Set([
+            ...Object.keys(elementsByEbkph),
+            ...(catalogs.length > 0 ? Object.keys(catalogs[0].unitCosts) : []),
+          ]);
+
+          // Create a more detailed response with code information
+          const codeDetails = Array.from(allCodes).map((code) => {
+            // Count elements with this code
+            const elements = elementsByEbkph[code] || [];
+            const elementCount = elements.length;
+
+            // Check if any catalog of the project has costs for this code
+            const hasCost = catalogs.some(
+              (catalog) => catalog.unitCosts[code] !== undefined
             );
+
+            // Calculate total area for this code
+            const totalArea = elements.reduce((sum, element) => {
+              return sum + parseFloat(element.quantity || element.area || 0);
+            }, 0);
+
+            return {
+              code,
+              elementCount,
+              hasCost,
+              totalArea,
+              // Add the original format for troubleshooting
+              originalFormat: code,
+            };
+          });
+
+          // Send back as an array with detailed info
+          const response = {
+            type: "available_ebkp_codes",
+            messageId: data.messageId,
+            codes: Array.from(allCodes),
+            codeDetails,
+            timestamp: new Date().toISOString(),
+          };
+
+          sendResponse(ws, response);
+          console.log(
+            `Sent ${allCodes.size} available eBKP codes to client with details`
+          );
+          return;
+        } catch (error) {
+          console.error(
+            "Error processing available eBKP codes request:",
+            error
+          );
+          sendResponse(ws, {
+            type: "available_ebkp_codes",
+            messageId: data.messageId,
+            error: "Failed to get eBKP codes: " + error.message,
+            codes: [],
+            timestamp: new Date().toISOString(),
+          });
+        }
+        return;
+      }
+
+      // Handle request for code matching
+      if (data.type === "request_code_matching") {
+        const projectName = data.projectName;
+        console.log(
+          `Received code matching request with ${
+            data.codes?.length || 0
+          } codes for project '${projectName}' from client ${clientId}`
+        );
+
+        // Unit costs are matched within a single project only
+        if (!projectName) {
+          sendResponse(ws, {
+            type: "code_matching_info",
+            messageId: data.messageId,
+            status: "error",
+            message: "Missing projectName for code matching.",
+            matchingCodes: [],
+            matches: [],
+            matchCount: 0,
+          });
+          return;
+        }
+
+        try {
+          // Log input details
+          if (data.codes?.length > 0) {
+            console.log(
+              `Sample codes: ${data.codes.slice(0, 5).join(", ")}...`
+            );
+          } else {
+            console.log("WARNING: No codes provided in request");
+          }
+
+          // Get codes from the message
+          const excelCodes = data.codes || [];
+          console.log(`Processing ${excelCodes.length} excel codes`);
+
+          // Some basic validation
+          if (!excelCodes.length) {
+            console.log("No codes to process, sending empty response");
+            sendResponse(ws, {
+              type: "code_matching_info",
+              messageId: data.messageId,
+              status: "success",
+              matchingCodes: [],
+              matches: [],
+              matchCount: 0,
+              timestamp: new Date().toISOString(),
+            });
+            return;
+          }
+
+          // Normalize the codes for better matching
+          const normalizedCodes = excelCodes.map((code) =>
+            normalizeEbkpCode(code)
+          );
+          console.log(
+            `Normalized ${normalizedCodes.length} codes for matching`
+          );
+
+          try {
+            // Get the elements and unit costs of the project
+            const { catalogs, elements, elementsByEbkph } =
+              await loadProjectMatchingState(projectName);
+            console.log(
+              `Processing matches using ${elements.length} elements and ${catalogs.length} unit cost catalogs`
+            );
+
+            const matches = batchProcessCodeMatches(elements, catalogs);
             console.log(`Found ${matches.length} matches`);
 
             // Send back all matches in a single message with explicit status field
@@ -890,12 +1735,11 @@ wss.on("connection", async (ws, req) => {
               messageId: data.messageId,
               status: "success",
               excelCodeCount: excelCodes.length,
-              ifcCodeCount: Object.keys(ifcElementsByEbkph).length,
+              ifcCodeCount: Object.keys(elementsByEbkph).length,
               matchingCodes: matches ? matches : [], // Always send an array even if empty
               matches: matches ? matches : [], // Send in both formats for compatibility
               matchCount: matches ? matches.length : 0,
               timestamp: new Date().toISOString(),
-              isCached: !data.debug?.forceRefresh && cachedMatches !== null,
             };
 
             console.log(
@@ -903,36 +1747,32 @@ wss.on("connection", async (ws, req) => {
                 matches ? matches.length : 0
               } matches found`
             );
-            ws.send(JSON.stringify(response));
+            sendResponse(ws, response);
           } catch (error) {
             console.error("Error processing matches:", error);
-            ws.send(
-              JSON.stringify({
-                type: "code_matching_info",
-                messageId: data.messageId,
-                status: "error",
-                message: `Error processing matches: ${error.message}`,
-                timestamp: new Date().toISOString(),
-                matchingCodes: [], // Add empty arrays to ensure client doesn't crash
-                matches: [],
-                matchCount: 0,
-              })
-            );
-          }
-        } catch (error) {
-          console.error("Error in code matching request:", error);
-          ws.send(
-            JSON.stringify({
+            sendResponse(ws, {
               type: "code_matching_info",
               messageId: data.messageId,
               status: "error",
-              message: error.message,
+              message: `Error processing matches: ${error.message}`,
               timestamp: new Date().toISOString(),
               matchingCodes: [], // Add empty arrays to ensure client doesn't crash
               matches: [],
               matchCount: 0,
-            })
-          );
+            });
+          }
+        } catch (error) {
+          console.error("Error in code matching request:", error);
+          sendResponse(ws, {
+            type: "code_matching_info",
+            messageId: data.messageId,
+            status: "error",
+            message: error.message,
+            timestamp: new Date().toISOString(),
+            matchingCodes: [], // Add empty arrays to ensure client doesn't crash
+            matches: [],
+            matchCount: 0,
+          });
         }
         return;
       }
@@ -943,14 +1783,12 @@ wss.on("connection", async (ws, req) => {
 
         if (!projectName || !costItems || costItems.length === 0) {
           console.error("Invalid save_cost_batch payload:", data.payload);
-          ws.send(
-            JSON.stringify({
-              type: "save_cost_batch_response",
-              messageId,
-              status: "error",
-              message: "Invalid payload. Missing projectName or costItems.",
-            })
-          );
+          sendResponse(ws, {
+            type: "save_cost_batch_response",
+            messageId,
+            status: "error",
+            message: "Invalid payload. Missing projectName or costItems.",
+          });
           return;
         }
 
@@ -968,50 +1806,50 @@ wss.on("connection", async (ws, req) => {
           );
 
           // Send success response
-          ws.send(
-            JSON.stringify({
-              type: "save_cost_batch_response",
-              messageId,
-              status: "success",
-              message: `Successfully saved ${
-                result.insertedCount || 0
-              } cost items.`,
-              insertedCount: result.insertedCount || 0,
-            })
-          );
+          sendResponse(ws, {
+            type: "save_cost_batch_response",
+            messageId,
+            status: "success",
+            message: `Successfully saved ${
+              result.insertedCount || 0
+            } cost items.`,
+            insertedCount: result.insertedCount || 0,
+          });
         } catch (error) {
           console.error(
             `Error saving cost batch for project '${projectName}':`,
             error
           );
           // Send error response
-          ws.send(
-            JSON.stringify({
-              type: "save_cost_batch_response",
-              messageId,
-              status: "error",
-              message: `Failed to save cost data: ${error.message}`,
-            })
-          );
+          sendResponse(ws, {
+            type: "save_cost_batch_response",
+            messageId,
+            status: "error",
+            message: `Failed to save cost data: ${error.message}`,
+          });
         }
         return; // Ensure we don't fall through
       }
       // Handle request to save cost data batch with full Excel data
       else if (data.type === "save_cost_batch_full") {
-        const { projectName, matchedItems, allExcelItems } = data.payload || {};
+        const {
+          projectName,
+          matchedItems,
+          allExcelItems,
+          fileName,
+          uploadedBy,
+        } = data.payload || {};
         const messageId = data.messageId;
 
         if (!projectName || !matchedItems || !allExcelItems) {
           console.error("Invalid save_cost_batch_full payload:", data.payload);
-          ws.send(
-            JSON.stringify({
-              type: "save_cost_batch_full_response",
-              messageId,
-              status: "error",
-              message:
-                "Invalid payload. Missing projectName, matchedItems, or allExcelItems.",
-            })
-          );
+          sendResponse(ws, {
+            type: "save_cost_batch_full_response",
+            messageId,
+            status: "error",
+            message:
+              "Invalid payload. Missing projectName, matchedItems, or allExcelItems.",
+          });
           return;
         }
 
@@ -1020,107 +1858,191 @@ wss.on("connection", async (ws, req) => {
         );
 
         try {
-          // Create a custom handler function that will pass both matched items and all Excel items
-          const saveFullBatchResult = async (
+          const result = await commitCostBatch(projectName, {
+            excelItems: allExcelItems,
             matchedItems,
-            allExcelItems,
-            projectName
-          ) => {
-            // First ensure we're connected to the database
-            const { costDb, qtoDb } = await connectToMongoDB();
+            fileName,
+            // Fall back to the client address if the host app doesn't send a user
+            uploadedBy: uploadedBy || req.socket.remoteAddress,
+          });
+
+          // Send success response
+          sendResponse(ws, {
+            type: "save_cost_batch_full_response",
+            messageId,
+            status: "success",
+            message: describeCostBatchResult(result),
+            result,
+          });
+        } catch (error) {
+          console.error(
+            `Error saving full batch for project '${projectName}':`,
+            error
+          );
+          // Send error response
+          sendResponse(ws, {
+            type: "save_cost_batch_full_response",
+            messageId,
+            status: "error",
+            // Committed batches are applied later, everything else was
+            // discarded and left the previous data untouched
+            code:
+              error.code === "COST_BATCH_NOT_APPLIED" ? error.code : undefined,
+            message: `Failed to save full batch data: ${error.message}`,
+          });
+        }
+        return; // Ensure we don't fall through
+      }
+      // Handle a single chunk of a chunked cost batch upload
+      else if (data.type === "save_cost_batch_chunk") {
+        const {
+          projectName,
+          uploadId,
+          chunkIndex,
+          totalChunks,
+          matchedItems,
+          allExcelItems,
+        } = data.payload;
+        const messageId = data.messageId;
 
-            // Step 1: Find or create the project
-            let projectId;
+        if (
+          !Number.isInteger(chunkIndex) ||
+          !Number.isInteger(totalChunks) ||
+          chunkIndex < 0 ||
+          chunkIndex >= totalChunks
+        ) {
+          sendResponse(ws, {
+            type: "save_cost_batch_chunk_response",
+            messageId,
+            status: "error",
+            message: `Invalid chunk ${chunkIndex} of ${totalChunks}.`,
+          });
+          return;
+        }
 
-            const qtoProject = await qtoDb.collection("projects").findOne({
-              name: { $regex: new RegExp(`^${projectName}$`, "i") },
-            });
+        purgeExpiredBatchUploads();
 
-            if (qtoProject) {
-              projectId = qtoProject._id;
-              console.log(`Found existing QTO project with ID: ${projectId}`);
-            } else {
-              projectId = new ObjectId();
-              console.log(`Creating new project with ID: ${projectId}`);
-
-              await qtoDb.collection("projects").insertOne({
-                _id: projectId,
-                name: projectName,
-                type: "BimProject",
-                status: "active",
-                metadata: {
-                  source: "cost-plugin",
-                  has_cost_data: true,
-                },
-                created_at: new Date(),
-                updated_at: new Date(),
-              });
-            }
+        let upload = pendingBatchUploads.get(uploadId);
+        if (!upload) {
+          upload = {
+            projectName,
+            totalChunks,
+            chunks: new Map(),
+            updatedAt: Date.now(),
+          };
+          pendingBatchUploads.set(uploadId, upload);
+        } else if (
+          upload.projectName !== projectName ||
+          upload.totalChunks !== totalChunks
+        ) {
+          sendResponse(ws, {
+            type: "save_cost_batch_chunk_response",
+            messageId,
+            status: "error",
+            message: `Chunk does not belong to upload ${uploadId}.`,
+          });
+          return;
+        }
 
-            // Step 2: Delete existing costElements entries but KEEP costData entries
-            // IMPORTANT: We're only updating the costElements collection here
-            // The costData collection already contains the Excel data from the upload step
-            console.log(
-              `Deleting only costElements entries for project ${projectId}`
-            );
-            await costDb
-              .collection("costElements")
-              .deleteMany({ project_id: projectId });
+        // Chunks are sent again after a reconnect, the latest copy wins
+        upload.chunks.set(chunkIndex, { matchedItems, allExcelItems });
+        upload.updatedAt = Date.now();
 
-            // Step 3: Skip saving Excel items to costData - we've already done this during upload
-            console.log(
-              `Using ${allExcelItems.length} existing Excel items from costData collection (not modifying costData)`
-            );
+        console.log(
+          `Received chunk ${
+            chunkIndex + 1
+          }/${totalChunks} of upload ${uploadId} for project '${projectName}'`
+        );
 
-            // Step 4: Process matched items using the existing function to update costElements
-            const matchedResult = await saveCostDataBatch(
-              matchedItems,
-              projectName
-            );
-            console.log(
-              `Processed ${matchedItems.length} matched items for costElements collection`
-            );
+        sendResponse(ws, {
+          type: "save_cost_batch_chunk_response",
+          messageId,
+          status: "success",
+          uploadId,
+          receivedChunks: Array.from(upload.chunks.keys()).sort(
+            (a, b) => a - b
+          ),
+          totalChunks,
+        });
+        return;
+      }
+      // Commit a chunked cost batch upload once every chunk has arrived
+      else if (data.type === "commit_cost_batch_upload") {
+        const { projectName, uploadId, fileName, uploadedBy } = data.payload;
+        const messageId = data.messageId;
+        const upload = pendingBatchUploads.get(uploadId);
+
+        if (!upload || upload.projectName !== projectName) {
+          sendResponse(ws, {
+            type: "commit_cost_batch_upload_response",
+            messageId,
+            status: "error",
+            message: `Upload ${uploadId} not found or expired.`,
+          });
+          return;
+        }
 
-            return {
-              excelItemsAlreadySaved: allExcelItems.length,
-              matchedItemsProcessed: matchedItems.length,
-              qtoElementsUpdated: matchedResult.modifiedCount || 0,
-            };
-          };
+        const missingChunks = [];
+        for (let index = 0; index < upload.totalChunks; index++) {
+          if (!upload.chunks.has(index)) missingChunks.push(index);
+        }
+        if (missingChunks.length > 0) {
+          sendResponse(ws, {
+            type: "commit_cost_batch_upload_response",
+            messageId,
+            status: "error",
+            message: `Upload ${uploadId} is missing chunks ${missingChunks.join(
+              ", "
+            )}.`,
+            missingChunks,
+          });
+          return;
+        }
 
-          // Call our custom handler
-          const result = await saveFullBatchResult(
-            matchedItems,
-            allExcelItems,
-            projectName
-          );
+        // Assemble the chunks in order and save them as one batch
+        const chunks = Array.from({ length: upload.totalChunks }, (_, index) =>
+          upload.chunks.get(index)
+        );
+        const matchedItems = chunks.flatMap((chunk) => chunk.matchedItems);
+        const allExcelItems = chunks.flatMap((chunk) => chunk.allExcelItems);
 
-          // Send success response
-          ws.send(
-            JSON.stringify({
-              type: "save_cost_batch_full_response",
-              messageId,
-              status: "success",
-              message: `Successfully updated ${result.matchedItemsProcessed} matched QTO elements in costElements collection (${result.excelItemsAlreadySaved} Excel items were already saved in costData during upload).`,
-              result,
-            })
-          );
+        console.log(
+          `Committing upload ${uploadId} for project '${projectName}' with ${matchedItems.length} matched items and ${allExcelItems.length} total Excel items.`
+        );
+
+        try {
+          const result = await commitCostBatch(projectName, {
+            excelItems: allExcelItems,
+            matchedItems,
+            fileName,
+            uploadedBy: uploadedBy || req.socket.remoteAddress,
+          });
+          pendingBatchUploads.delete(uploadId);
+
+          sendResponse(ws, {
+            type: "commit_cost_batch_upload_response",
+            messageId,
+            status: "success",
+            message: describeCostBatchResult(result),
+            result,
+          });
         } catch (error) {
           console.error(
-            `Error saving full batch for project '${projectName}':`,
+            `Error committing upload ${uploadId} for project '${projectName}':`,
             error
           );
-          // Send error response
-          ws.send(
-            JSON.stringify({
-              type: "save_cost_batch_full_response",
-              messageId,
-              status: "error",
-              message: `Failed to save full batch data: ${error.message}`,
-            })
-          );
+          sendResponse(ws, {
+            type: "commit_cost_batch_upload_response",
+            messageId,
+            status: "error",
+            // Committed batches are applied later, everything else was
+            // discarded and left the previous data untouched
+            code:
+              error.code === "COST_BATCH_NOT_APPLIED" ? error.code : undefined,
+            message: `Failed to save full batch data: ${error.message}`,
+          });
         }
-        return; // Ensure we don't fall through
+        return;
       }
       // Handle direct Excel data upload (save raw Excel data without matching)
       else if (data.type === "save_excel_data") {
@@ -1129,14 +2051,12 @@ wss.on("connection", async (ws, req) => {
 
         if (!projectName || !excelItems || excelItems.length === 0) {
           console.error("Invalid save_excel_data payload:", data.payload);
-          ws.send(
-            JSON.stringify({
-              type: "save_excel_data_response",
-              messageId,
-              status: "error",
-              message: "Invalid payload. Missing projectName or excelItems.",
-            })
-          );
+          sendResponse(ws, {
+            type: "save_excel_data_response",
+            messageId,
+            status: "error",
+            message: "Invalid payload. Missing projectName or excelItems.",
+          });
           return;
         }
 
@@ -1192,44 +2112,12 @@ wss.on("connection", async (ws, req) => {
           }
 
           // Save all Excel items to costData collection
+          // Items with a unit cost of 0 are skipped
           const costDataToSave = excelItems
-            .map((item, index) => {
-              // Skip items with unit_cost of 0
-              const unitCost = parseFloat(item.kennwert || 0) || 0;
-              if (unitCost <= 0) {
-                console.log(
-                  `Skipping Excel item with EBKP ${
-                    item.ebkp || ""
-                  } due to zero unit cost`
-                );
-                return null; // Return null for items to be filtered out
-              }
-
-              // Return valid items as before
-              return {
-                _id: new ObjectId(),
-                project_id: projectId,
-                ebkp_code: item.ebkp || "",
-                category: item.bezeichnung || item.category || "",
-                level: item.level || "",
-                unit_cost: unitCost,
-                quantity: parseFloat(item.menge || 0) || 0,
-                total_cost: parseFloat(item.totalChf || item.chf || 0) || 0,
-                currency: "CHF",
-                metadata: {
-                  source: "excel-import",
-                  timestamp: new Date(),
-                  original_data: {
-                    einheit: item.einheit || "m²",
-                    kommentar: item.kommentar || "",
-                    excel_row: index + 1,
-                  },
-                },
-                created_at: new Date(),
-                updated_at: new Date(),
-              };
-            })
-            .filter((item) => item !== null); // Filter out null items
+            .map((item, index) =>
+              createCostDataDocument(item, projectId, index)
+            )
+            .filter((item) => item !== null);
 
           // Save to database
           const costDataResult = await costDb
@@ -1240,34 +2128,30 @@ wss.on("connection", async (ws, req) => {
           );
 
           // Send success response
-          ws.send(
-            JSON.stringify({
-              type: "save_excel_data_response",
-              messageId,
-              status: "success",
-              message: `Successfully saved ${costDataResult.insertedCount} Excel items.`,
-              insertedCount: costDataResult.insertedCount,
-            })
-          );
+          sendResponse(ws, {
+            type: "save_excel_data_response",
+            messageId,
+            status: "success",
+            message: `Successfully saved ${costDataResult.insertedCount} Excel items.`,
+            insertedCount: costDataResult.insertedCount,
+          });
         } catch (error) {
           console.error(
             `Error saving Excel data for project '${projectName}':`,
             error
           );
           // Send error response
-          ws.send(
-            JSON.stringify({
-              type: "save_excel_data_response",
-              messageId,
-              status: "error",
-              message: `Failed to save Excel data: ${error.message}`,
-            })
-          );
+          sendResponse(ws, {
+            type: "save_excel_data_response",
+            messageId,
+            status: "error",
+            message: `Failed to save Excel data: ${error.message}`,
+          });
         }
         return; // Ensure we don't fall through
       } else if (data.type === "ping") {
         console.log(`Received ping from client ${clientId}, sending pong`);
-        ws.send(JSON.stringify({ type: "pong" }));
+        sendResponse(ws, { type: "pong" });
       }
     } catch (error) {
       console.error(`Error processing message from client ${clientId}:`, error);
@@ -1433,56 +2317,35 @@ async function run() {
               const elementCount = messageData.payload.elementCount;
 
               try {
-                // Fetch all elements for this project from MongoDB
+                // Load the elements and unit costs of this project from MongoDB
                 console.log(
-                  `Fetching all elements for project ${projectName} (ID: ${projectId})`
+                  `Loading matching state for project ${projectName} (ID: ${projectId})`
                 );
-                const elements = await getAllElementsForProject(projectId);
+                const { catalogs, elements, elementsByEbkph } =
+                  await loadProjectMatchingState(projectName);
                 console.log(
                   `Retrieved ${elements.length} elements for project ${projectName}`
                 );
 
                 if (elements.length > 0) {
-                  // Update the project data in our in-memory storage
-                  elementsByProject[projectName] = {};
-
-                  // Process and organize elements by EBKPH code
-                  elements.forEach((element) => {
-                    const ebkpCode =
-                      element.properties?.classification?.id ||
-                      element.ebkph ||
-                      "unknown";
-                    const normalizedCode = normalizeEbkpCode(ebkpCode);
-
-                    // Store by EBKPH code
-                    if (!ifcElementsByEbkph[normalizedCode]) {
-                      ifcElementsByEbkph[normalizedCode] = [];
-                    }
-                    ifcElementsByEbkph[normalizedCode].push(element);
-
-                    // Also store by project for easier retrieval
-                    if (!elementsByProject[projectName][normalizedCode]) {
-                      elementsByProject[projectName][normalizedCode] = [];
-                    }
-                    elementsByProject[projectName][normalizedCode].push(
-                      element
-                    );
-
-                    // Mark as processed to avoid duplicates
-                    const elementId = element._id.toString();
-                    processedElementIds.add(elementId);
-                  });
-
                   // Calculate costs for all elements
                   let projectTotalCost = 0;
                   let elementsWithCost = 0;
 
-                  for (const ebkpCode in elementsByProject[projectName]) {
-                    const elementsWithThisCode =
-                      elementsByProject[projectName][ebkpCode];
+                  // Manual matches made by the user take precedence
+                  const matchingOverrides = await getMatchingOverrides(
+                    projectName
+                  );
+
+                  for (const ebkpCode in elementsByEbkph) {
+                    const elementsWithThisCode = elementsByEbkph[ebkpCode];
 
                     // Find the best match for this code
-                    const bestMatch = findBestEbkphMatch(ebkpCode);
+                    const bestMatch = findEbkphMatchWithOverrides(
+                      ebkpCode,
+                      catalogs,
+                      matchingOverrides
+                    );
 
                     if (bestMatch) {
                       // Get cost information
@@ -1491,15 +2354,17 @@ async function run() {
 
                       // Apply costs to all elements with this code
                       elementsWithThisCode.forEach((element) => {
-                        const area = parseFloat(element.quantity || 0);
-                        const totalCost = costUnit * (area || 1);
+                        const quantity = getElementQuantity(
+                          element,
+                          costInfo.unit
+                        );
+                        const totalCost = costUnit * quantity;
 
                         // Update element with cost data
                         element.cost_unit = costUnit;
                         element.cost = totalCost;
-                        element.cost_source = costInfo.filename;
                         element.cost_timestamp = costInfo.timestamp;
-                        element.cost_match_method = bestMatch.method;
+                        Object.assign(element, getCostMatchFields(bestMatch));
 
                         // Update project total
                         projectTotalCost += totalCost;
@@ -1518,6 +2383,26 @@ async function run() {
                   // Update project cost summary in MongoDB
                   await updateProjectCostSummary(projectId);
 
+                  // Compare with the elements of the previous update and
+                  // store what changed
+                  let changeReport = null;
+                  try {
+                    const snapshot = toElementSnapshot(elements);
+                    const previousSnapshot = await getElementSnapshot(
+                      projectName
+                    );
+                    changeReport = await saveCostChangeReport(
+                      projectName,
+                      buildCostChangeReport(previousSnapshot, snapshot),
+                      snapshot
+                    );
+                  } catch (reportError) {
+                    console.error(
+                      `Error storing change report for ${projectName}:`,
+                      reportError
+                    );
+                  }
+
                   // Broadcast project update to clients
                   const projectUpdateMessage = {
                     type: "project_update",
@@ -1528,6 +2413,14 @@ async function run() {
                     totalCost: projectTotalCost,
                     timestamp: new Date().toISOString(),
                     metadata: messageData.metadata,
+                    changeReport: changeReport && {
+                      id: changeReport._id,
+                      baseline: changeReport.baseline,
+                      added: changeReport.added_count,
+                      removed: changeReport.removed_count,
+                      changed: changeReport.changed_count,
+                      costDelta: changeReport.cost_delta,
+                    },
                   };
 
                   console.log(
@@ -1549,80 +2442,43 @@ async function run() {
               // Handle legacy element messages for backward compatibility
               const elementData = messageData;
 
-              // Check if we've already processed this element
+              // Check if we've already processed this element for its project
               const elementId = elementData.element_id || elementData.id;
-              if (!elementId || processedElementIds.has(elementId)) {
+              const projectKey = elementData.project || "unknown";
+              if (
+                !elementId ||
+                !(await markElementProcessed(projectKey, elementId))
+              ) {
                 // Skip duplicates
                 broadcast(messageValue); // Still forward the message to clients
                 return;
               }
 
-              // Store the element by EBKPH code for later use
-              if (elementData.ebkph) {
-                // Normalize EBKPH code
-                const ebkpCode = normalizeEbkpCode(elementData.ebkph);
-
-                // Store by EBKPH code
-                if (!ifcElementsByEbkph[ebkpCode]) {
-                  ifcElementsByEbkph[ebkpCode] = [];
-                }
-                ifcElementsByEbkph[ebkpCode].push(elementData);
-
-                // Also store by project for easier retrieval
-                const projectKey = elementData.project || "unknown";
-                if (!elementsByProject[projectKey]) {
-                  elementsByProject[projectKey] = {};
-                }
-                if (!elementsByProject[projectKey][ebkpCode]) {
-                  elementsByProject[projectKey][ebkpCode] = [];
-                }
-                elementsByProject[projectKey][ebkpCode].push(elementData);
-
-                // Mark as processed to avoid duplicates
-                processedElementIds.add(elementId);
-
-                console.log(
-                  `Stored IFC element with EBKPH ${ebkpCode} (element ID: ${elementId})`
-                );
-
-                // Save to file periodically
-                scheduleElementSave();
-              }
-
-              // If element has an EBKPH code, check if we have a unit cost for it
+              // If element has an EBKPH code, check if its project has a unit cost for it
               if (elementData.ebkph) {
                 // Normalize the code for lookup
                 const normalizedCode = normalizeEbkpCode(elementData.ebkph);
-
-                // Debug log all available cost codes for comparison
-                if (Object.keys(unitCostsByEbkph).length > 0) {
-                  console.log(
-                    `Looking for cost data match for element EBKPH ${elementData.ebkph} (normalized: ${normalizedCode})`
-                  );
-                  console.log(
-                    `Available cost codes: ${Object.keys(unitCostsByEbkph).join(
-                      ", "
-                    )}`
-                  );
-                }
+                const { catalogs } = await loadProjectCatalogs(projectKey);
 
                 // Find the best match for this code
-                const bestMatch = findBestEbkphMatch(normalizedCode);
+                const bestMatch = findBestEbkphMatch(normalizedCode, catalogs);
 
                 if (bestMatch) {
                   // Add cost information to the element
                   const costInfo = bestMatch.costInfo;
-                  const area = parseFloat(elementData.area || 0);
+                  const quantity = getElementQuantity(
+                    elementData,
+                    costInfo.unit
+                  );
                   const costUnit = costInfo.cost_unit || 0;
 
                   // Enhanced element with cost data - preserve original structure
                   const enhancedElement = {
                     ...elementData, // Keep all original element properties
                     cost_unit: costUnit,
-                    cost: costUnit * (area || 1), // Calculate total cost
-                    cost_source: costInfo.filename,
+                    cost: costUnit * quantity, // Calculate total cost
                     cost_timestamp: costInfo.timestamp,
-                    cost_match_method: bestMatch.method,
+                    ...getCostMatchFields(bestMatch),
                   };
 
                   // Make sure EBKPH components are present
@@ -1637,7 +2493,7 @@ async function run() {
                   }
 
                   console.log(
-                    `MATCH FOUND (${bestMatch.method}): Added cost data to element with EBKPH ${elementData.ebkph} (normalized: ${normalizedCode}): unit cost = ${costUnit}, area = ${area}, total cost = ${enhancedElement.cost}`
+                    `MATCH FOUND (${bestMatch.catalog.type}:${bestMatch.method}): Added cost data to element with EBKPH ${elementData.ebkph} (normalized: ${normalizedCode}): unit cost = ${costUnit}, quantity = ${quantity} ${costInfo.unit}, total cost = ${enhancedElement.cost}`
                   );
 
                   // Send enhanced element to cost topic
@@ -1724,21 +2580,25 @@ function sendTestMessage() {
   setTimeout(sendTestMessage, 15000); // Every 15 seconds
 }
 
+// Make sure the cost topic exists and the cost producer is connected; the
+// admin producer is disconnected after startup
+async function connectCostProducer() {
+  if (!costTopicReady) {
+    console.log(`Ensuring cost topic exists: ${config.kafka.costTopic}`);
+    costTopicReady = await ensureTopicExists(config.kafka.costTopic);
+  }
+
+  if (!costProducer.isConnected) {
+    console.log("Connecting cost producer to Kafka...");
+    await costProducer.connect();
+    console.log("Cost producer connected to Kafka");
+  }
+}
+
 // Send enhanced element with cost data to Kafka
 async function sendEnhancedElementToKafka(enhancedElement) {
   try {
-    // Make sure cost topic exists
-    if (!costTopicReady) {
-      console.log(`Ensuring cost topic exists: ${config.kafka.costTopic}`);
-      costTopicReady = await ensureTopicExists(config.kafka.costTopic);
-    }
-
-    // Make sure cost producer is connected
-    if (!costProducer.isConnected) {
-      console.log("Connecting cost producer to Kafka...");
-      await costProducer.connect();
-      console.log("Cost producer connected to Kafka");
-    }
+    await connectCostProducer();
 
     // Log what we're sending to help with debugging
     console.log("Sending element to cost topic with structure:", {
@@ -1772,9 +2632,128 @@ async function sendEnhancedElementToKafka(enhancedElement) {
   }
 }
 
+// Cost breakdown of a summary as sent to other plugins
+function toCostBreakdownPayload(breakdown) {
+  return {
+    net: breakdown.net,
+    netByGroup: breakdown.net_by_group,
+    surcharges: breakdown.surcharges.map((surcharge) => ({
+      name: surcharge.name,
+      type: surcharge.type,
+      value: surcharge.value,
+      groups: surcharge.groups,
+      amount: surcharge.amount,
+    })),
+    gross: breakdown.gross,
+  };
+}
+
+// Cost per m² GF and m³ GV of a summary as sent to other plugins
+function toCostBenchmarksPayload(benchmarks) {
+  const toReference = (quantity) =>
+    quantity ? { value: quantity.value, source: quantity.source } : null;
+  const toBenchmark = ({ cost, per_gf, per_gv }) => ({
+    cost,
+    perGf: per_gf,
+    perGv: per_gv,
+  });
+
+  return {
+    gf: toReference(benchmarks.gf),
+    gv: toReference(benchmarks.gv),
+    net: toBenchmark(benchmarks.net),
+    gross: toBenchmark(benchmarks.gross),
+    byGroup: benchmarks.by_group.map((entry) => ({
+      group: entry.group,
+      ...toBenchmark(entry),
+    })),
+  };
+}
+
 // Flag to track if cost topic is ready
 let costTopicReady = false;
 
+/**
+ * Send a COST_UPDATED notification to the cost topic, keyed by project
+ * The payload is completed with the breakdown of the project total from net
+ * to gross
+ */
+async function sendCostUpdateToKafka(notification) {
+  let payload = notification.payload || {};
+
+  if (payload.projectName && !payload.costBreakdown) {
+    try {
+      const summary = await getProjectCostSummary(payload.projectName);
+      if (summary) {
+        payload = {
+          ...payload,
+          totalCostGross: summary.cost_breakdown.gross,
+          costBreakdown: toCostBreakdownPayload(summary.cost_breakdown),
+          costBenchmarks: toCostBenchmarksPayload(summary.cost_benchmarks),
+        };
+      }
+    } catch (error) {
+      console.warn(
+        `Sending cost update without breakdown for project '${payload.projectName}':`,
+        error.message
+      );
+    }
+  }
+
+  const message = {
+    key: payload.projectId || payload.projectName,
+    value: JSON.stringify({ ...notification, payload }),
+  };
+
+  await connectCostProducer();
+  await costProducer.send({
+    topic: config.kafka.costTopic || "cost-data",
+    messages: [message],
+  });
+
+  console.log("Cost update sent to Kafka:", message.key);
+}
+
+/**
+ * Send a BUDGET_EXCEEDED notification to the cost topic, keyed by project
+ */
+async function sendBudgetExceededToKafka(event) {
+  const message = {
+    key: event.projectId || event.projectName,
+    value: JSON.stringify({
+      eventType: "BUDGET_EXCEEDED",
+      timestamp: new Date().toISOString(),
+      producer: "plugin-cost",
+      payload: event,
+      metadata: {
+        version: "1.0",
+        correlationId: `budget-${Date.now()}`,
+      },
+    }),
+  };
+
+  await connectCostProducer();
+  await costProducer.send({
+    topic: config.kafka.costTopic || "cost-data",
+    messages: [message],
+  });
+
+  console.log("Budget overrun sent to Kafka:", message.key);
+}
+
+// Alert the clients and the other plugins when a cost summary update takes a
+// project over one of its budget targets
+onBudgetExceeded(async (event) => {
+  broadcast(
+    JSON.stringify({
+      type: "budget_exceeded",
+      ...event,
+      timestamp: new Date().toISOString(),
+    })
+  );
+  await sendBudgetExceededToKafka(event);
+});
+
 // Handle server shutdown
 const shutdown = async () => {
   console.log("Shutting down...");
@@ -1822,79 +2801,11 @@ server.listen(config.websocket.port, async () => {
   console.log(`WebSocket server started on port ${config.websocket.port}`);
 
   try {
-    // Load elements from MongoDB immediately
-    console.log("Loading elements from MongoDB...");
-    const db = await connectToMongoDB();
-
-    if (!db || !db.qtoDb) {
-      console.error("Failed to connect to MongoDB or get qtoDb reference");
-    } else {
-      // Query all elements
-      const elements = await db.qtoDb.collection("elements").find({}).toArray();
-      console.log(`Found ${elements.length} elements in MongoDB`);
-
-      // Clear existing data
-      Object.keys(ifcElementsByEbkph).forEach(
-        (key) => delete ifcElementsByEbkph[key]
-      );
-      processedElementIds.clear();
-
-      // Process elements
-      let processedCount = 0;
-      for (const element of elements) {
-        // Try to extract eBKP code from various locations
-        let ebkpCode = null;
-
-        // Check in properties.classification.id first (most common MongoDB format)
-        if (element.properties?.classification?.id) {
-          ebkpCode = element.properties.classification.id;
-        }
-        // Then try properties.ebkph
-        else if (element.properties?.ebkph) {
-          ebkpCode = element.properties.ebkph;
-        }
-        // Finally, check root level properties
-        else if (element.ebkph) {
-          ebkpCode = element.ebkph;
-        } else if (element.ebkp_code) {
-          ebkpCode = element.ebkp_code;
-        }
-
-        if (ebkpCode) {
-          // Normalize code for consistent matching
-          const normalizedCode = normalizeEbkpCode(ebkpCode);
-
-          // Store element by normalized code
-          if (!ifcElementsByEbkph[normalizedCode]) {
-            ifcElementsByEbkph[normalizedCode] = [];
-          }
-
-          // Get quantity from root level
-          const quantity = element.quantity || 0;
-
-          // Store element with quantity as area
-          ifcElementsByEbkph[normalizedCode].push({
-            ...element,
-            area: quantity, // Use quantity as area
-            quantity: quantity, // Keep original quantity
-          });
-          processedCount++;
-
-          // Mark as processed to avoid duplicates
-          processedElementIds.add(element._id.toString());
-        }
-      }
-
-      console.log(
-        `Successfully loaded ${processedCount} elements from MongoDB with eBKP codes`
-      );
-      console.log(`Available eBKP codes:`, Object.keys(ifcElementsByEbkph));
-
-      // Print QTO element codes summary
-      // await printAllQtoElementCodes(); // Function not defined
-    }
+    // Connect to MongoDB; the matching state of each project is read from
+    // there when it is needed
+    await connectToMongoDB();
   } catch (error) {
-    console.error("Error loading elements from MongoDB:", error);
+    console.error("Error connecting to MongoDB:", error);
   }
 
   // Start the Kafka connection and ensure topics exist
@@ -1910,11 +2821,6 @@ server.listen(config.websocket.port, async () => {
 
   // Start sending test messages if Kafka is not available
   setTimeout(sendTestMessage, 10000); // Start after 10 seconds
-
-  // Set up periodic save
-  // setInterval(() => {
-  //   saveElementsToFile(); // Function not defined
-  // }, config.storage.saveInterval);
 });
 
 // Normalize EBKPH code (used for matching)
@@ -1951,27 +2857,349 @@ function normalizeEbkpCode(code) {
   return normalized;
 }
 
-// Add a helper function to send element updates to all clients
-function broadcastElementUpdate() {
-  const elementInfo = {
-    type: "element_update",
-    elementCount: processedElementIds.size,
-    ebkphCodes:
-      Object.keys(ifcElementsByEbkph).length > 20
-        ? Object.keys(ifcElementsByEbkph).length + " codes available"
-        : Object.keys(ifcElementsByEbkph),
-    projects: Object.keys(elementsByProject),
-    costCodes:
-      Object.keys(unitCostsByEbkph).length > 20
-        ? Object.keys(unitCostsByEbkph).length + " codes available"
-        : Object.keys(unitCostsByEbkph),
-    timestamp: new Date().toISOString(),
+// Get the eBKP code of a model element from the locations QTO uses
+function getElementEbkpCode(element) {
+  return (
+    element.properties?.classification?.id ||
+    element.properties?.ebkph ||
+    element.ebkph ||
+    element.ebkp_code ||
+    element.ebkp ||
+    null
+  );
+}
+
+// Unit costs of a project by normalized eBKP code
+function toUnitCostsByEbkph(costData) {
+  const unitCosts = {};
+  costData.forEach((item) => {
+    const code = normalizeEbkpCode(item.ebkp_code);
+    // The first row of a code wins, like in the Excel file
+    if (!unitCosts[code]) {
+      unitCosts[code] = {
+        cost_unit: item.unit_cost,
+        unit: item.metadata?.original_data?.einheit || "",
+        originalCode: item.ebkp_code,
+        filename: item.metadata?.source,
+        timestamp: item.metadata?.timestamp,
+      };
+    }
+  });
+  return unitCosts;
+}
+
+// Unit cost catalogs of a project in matching order: its own Excel data
+// first, then the company-wide reference catalog it falls back to
+function toUnitCostCatalogs(projectName, unitCosts, referenceCatalog) {
+  const catalogs = [
+    {
+      type: "project",
+      name: projectName,
+      unitCosts: toUnitCostsByEbkph(unitCosts),
+    },
+  ];
+  if (referenceCatalog) {
+    catalogs.push({
+      type: "reference",
+      name: referenceCatalog.name,
+      unitCosts: toUnitCostsByEbkph(referenceCatalog.items || []),
+    });
+  }
+  return catalogs;
+}
+
+/**
+ * Load the unit cost catalogs of a project from MongoDB
+ * Read on every use, so all backend instances see the same unit costs
+ */
+async function loadProjectCatalogs(projectName) {
+  const { projectId, unitCosts, referenceCatalog } = await getProjectUnitCosts(
+    projectName
+  );
+  return {
+    projectId,
+    catalogs: toUnitCostCatalogs(projectName, unitCosts, referenceCatalog),
   };
+}
 
-  broadcast(JSON.stringify(elementInfo));
-  console.log(
-    `Broadcast element update: ${processedElementIds.size} elements available`
+// Median of a sorted list of numbers
+function getMedian(sortedValues) {
+  const middle = Math.floor(sortedValues.length / 2);
+  return sortedValues.length % 2 === 0
+    ? (sortedValues[middle - 1] + sortedValues[middle]) / 2
+    : sortedValues[middle];
+}
+
+// Reference library entries by eBKP code, aggregated over the unit costs of
+// the reference projects. Each project counts once per code.
+function toUnitCostLibrary(referenceProjects) {
+  const entries = {};
+
+  referenceProjects.forEach(({ unitCosts }) => {
+    const seenCodes = new Set();
+    unitCosts.forEach((item) => {
+      const code = normalizeEbkpCode(item.ebkp_code);
+      if (seenCodes.has(code)) return;
+      seenCodes.add(code);
+
+      if (!entries[code]) {
+        entries[code] = { values: [], units: {} };
+      }
+      entries[code].values.push(item.unit_cost);
+
+      const unit = item.metadata?.original_data?.einheit;
+      if (unit) {
+        entries[code].units[unit] = (entries[code].units[unit] || 0) + 1;
+      }
+    });
+  });
+
+  return Object.entries(entries)
+    .map(([ebkp, { values, units }]) => {
+      const sortedValues = [...values].sort((a, b) => a - b);
+      // The unit most reference projects use for the code
+      const unit =
+        Object.entries(units).sort((a, b) => b[1] - a[1])[0]?.[0] || "";
+
+      return {
+        ebkp,
+        min: sortedValues[0],
+        median: getMedian(sortedValues),
+        max: sortedValues[sortedValues.length - 1],
+        count: sortedValues.length,
+        unit,
+      };
+    })
+    .sort((a, b) => a.ebkp.localeCompare(b.ebkp));
+}
+
+/**
+ * Load the reference library for a project, without its own unit costs
+ */
+async function loadUnitCostLibrary(projectName) {
+  const referenceProjects = await getReferenceProjectUnitCosts(projectName);
+  return toUnitCostLibrary(referenceProjects);
+}
+
+/**
+ * Load the matching state of a project: its cached unit cost catalogs and
+ * its model elements by normalized eBKP code, read fresh from MongoDB
+ */
+async function loadProjectMatchingState(projectName) {
+  const { projectId, catalogs } = await loadProjectCatalogs(projectName);
+  const elements = projectId ? await getProjectMatchingElements(projectId) : [];
+
+  const elementsByEbkph = {};
+  elements.forEach((element) => {
+    const ebkpCode = getElementEbkpCode(element);
+    if (!ebkpCode) return;
+
+    const normalizedCode = normalizeEbkpCode(ebkpCode);
+    if (!elementsByEbkph[normalizedCode]) {
+      elementsByEbkph[normalizedCode] = [];
+    }
+    elementsByEbkph[normalizedCode].push(element);
+  });
+
+  return { projectId, catalogs, elements, elementsByEbkph };
+}
+
+// Elements of a change report are capped per list, the counts stay exact
+const CHANGE_REPORT_ELEMENT_LIMIT = 100;
+
+// Elements of a priced project as stored for the comparison with its next
+// update
+function toElementSnapshot(elements) {
+  return elements.map((element) => {
+    const ebkpCode = getElementEbkpCode(element);
+    return {
+      id: element.global_id || String(element._id),
+      ebkp_code: ebkpCode ? normalizeEbkpCode(ebkpCode) : "",
+      quantity: parseFloat(element.quantity || 0) || 0,
+      cost: element.cost || 0,
+    };
+  });
+}
+
+// Quantity and cost of snapshot elements by eBKP code
+function sumSnapshotByEbkp(elements) {
+  const totals = {};
+  elements.forEach((element) => {
+    const code = element.ebkp_code;
+    if (!totals[code]) {
+      totals[code] = { quantity: 0, cost: 0, count: 0 };
+    }
+    totals[code].quantity += element.quantity;
+    totals[code].cost += element.cost;
+    totals[code].count++;
+  });
+  return totals;
+}
+
+// Compare two element snapshots of a project. Without a previous snapshot
+// every element counts as added and the report is flagged as baseline.
+function buildCostChangeReport(previousElements, elements) {
+  const previous = previousElements || [];
+  const previousById = new Map(
+    previous.map((element) => [element.id, element])
   );
+  const currentIds = new Set(elements.map((element) => element.id));
+
+  const added = [];
+  const changed = [];
+  elements.forEach((element) => {
+    const before = previousById.get(element.id);
+    if (!before) {
+      added.push(element);
+      return;
+    }
+    if (
+      before.ebkp_code !== element.ebkp_code ||
+      Math.abs(before.quantity - element.quantity) > 1e-6 ||
+      Math.abs(before.cost - element.cost) > 0.005
+    ) {
+      changed.push({
+        id: element.id,
+        ebkp_code: element.ebkp_code,
+        ebkp_code_before: before.ebkp_code,
+        quantity_before: before.quantity,
+        quantity_after: element.quantity,
+        cost_before: before.cost,
+        cost_after: element.cost,
+        cost_delta: element.cost - before.cost,
+      });
+    }
+  });
+  const removed = previous.filter((element) => !currentIds.has(element.id));
+
+  // Quantity and cost deltas of the codes that changed
+  const totalsBefore = sumSnapshotByEbkp(previous);
+  const totalsAfter = sumSnapshotByEbkp(elements);
+  const empty = { quantity: 0, cost: 0, count: 0 };
+  const byEbkp = [
+    ...new Set([...Object.keys(totalsBefore), ...Object.keys(totalsAfter)]),
+  ]
+    .map((code) => {
+      const before = totalsBefore[code] || empty;
+      const after = totalsAfter[code] || empty;
+      return {
+        ebkp_code: code,
+        elements_before: before.count,
+        elements_after: after.count,
+        quantity_before: before.quantity,
+        quantity_after: after.quantity,
+        quantity_delta: after.quantity - before.quantity,
+        cost_before: before.cost,
+        cost_after: after.cost,
+        cost_delta: after.cost - before.cost,
+      };
+    })
+    .filter(
+      (entry) =>
+        entry.elements_before !== entry.elements_after ||
+        Math.abs(entry.quantity_delta) > 1e-6 ||
+        Math.abs(entry.cost_delta) > 0.005
+    )
+    .sort((a, b) => a.ebkp_code.localeCompare(b.ebkp_code));
+
+  // The largest cost impacts first
+  const byCostImpact = (a, b) =>
+    Math.abs(b.cost_delta ?? b.cost) - Math.abs(a.cost_delta ?? a.cost);
+  const totalBefore = previous.reduce((sum, element) => sum + element.cost, 0);
+  const totalAfter = elements.reduce((sum, element) => sum + element.cost, 0);
+
+  return {
+    baseline: !previousElements,
+    elements_count: elements.length,
+    added_count: added.length,
+    removed_count: removed.length,
+    changed_count: changed.length,
+    added: added.sort(byCostImpact).slice(0, CHANGE_REPORT_ELEMENT_LIMIT),
+    removed: removed.sort(byCostImpact).slice(0, CHANGE_REPORT_ELEMENT_LIMIT),
+    changed: changed.sort(byCostImpact).slice(0, CHANGE_REPORT_ELEMENT_LIMIT),
+    by_ebkp: byEbkp,
+    total_before: totalBefore,
+    total_after: totalAfter,
+    cost_delta: totalAfter - totalBefore,
+  };
+}
+
+// Compare the Excel and model codes of a project for the /debug/codes endpoint
+function debugCodeMatching(catalogs, elementsByEbkph) {
+  // Collect Excel cost codes of the project catalog
+  const unitCosts = catalogs[0].unitCosts;
+  const excelCodes = Object.keys(unitCosts).map((code) => ({
+    code,
+    normalized: code,
+    originalCode: unitCosts[code].originalCode || code,
+    unitCost: unitCosts[code].cost_unit,
+  }));
+
+  // Collect IFC element codes
+  const ifcCodes = Object.keys(elementsByEbkph).map((code) => ({
+    code,
+    normalized: code,
+    elementCount: elementsByEbkph[code].length,
+  }));
+
+  // Find potential matches (codes that should match but don't)
+  const potentialMatches = [];
+  const automaticMatches = [];
+
+  ifcCodes.forEach((ifcCode) => {
+    const match = findBestEbkphMatch(ifcCode.code, catalogs);
+    if (match && match.method !== "direct") {
+      automaticMatches.push({
+        ifcCode: ifcCode.code,
+        matchedWith: match.code,
+        method: match.method,
+        catalog: `${match.catalog.type}:${match.catalog.name}`,
+        unitCost: match.costInfo.cost_unit,
+        elementCount: ifcCode.elementCount,
+      });
+    }
+  });
+
+  excelCodes.forEach((excelCode) => {
+    // Check for close matches that don't match exactly
+    ifcCodes.forEach((ifcCode) => {
+      // Simple comparison: codes that match when lowercased and spaces/zeros removed
+      const simplifiedExcel = excelCode.originalCode
+        .toLowerCase()
+        .replace(/\s+/g, "")
+        .replace(/^([a-z])0+(\d+)/g, "$1$2");
+      const simplifiedIfc = ifcCode.code
+        .toLowerCase()
+        .replace(/\s+/g, "")
+        .replace(/^([a-z])0+(\d+)/g, "$1$2");
+
+      if (
+        simplifiedExcel === simplifiedIfc &&
+        excelCode.code !== ifcCode.code
+      ) {
+        potentialMatches.push({
+          excelCode: excelCode.originalCode,
+          normalizedExcel: excelCode.code,
+          ifcCode: ifcCode.code,
+          normalizedIfc: ifcCode.normalized,
+          simplifiedExcel,
+          simplifiedIfc,
+          reason: "Similar but not matching exactly",
+        });
+      }
+    });
+  });
+
+  return {
+    excelCodes,
+    ifcCodes,
+    potentialMatches,
+    automaticMatches,
+    matchingCodes: excelCodes
+      .filter((ec) => ifcCodes.some((ic) => ic.code === ec.code))
+      .map((ec) => ec.code),
+    timestamp: new Date().toISOString(),
+  };
 }
 
 // Add a function to broadcast cost match information for a single code
@@ -1995,22 +3223,35 @@ function broadcastCostMatch(ebkpCode, costUnit, elementCount) {
   );
 }
 
-// Add this function to find the best match for an EBKP code
-function findBestEbkphMatch(normalizedCode) {
+// Find the best match for an EBKP code in the unit cost catalogs of a
+// project; the first catalog with a match prices the code
+function findBestEbkphMatch(normalizedCode, catalogs) {
   if (!normalizedCode) return null;
 
+  for (const catalog of catalogs) {
+    const match = findMatchInCatalog(normalizedCode, catalog.unitCosts);
+    if (match) {
+      return { ...match, catalog: { type: catalog.type, name: catalog.name } };
+    }
+  }
+
+  return null;
+}
+
+// Add this function to find the best match for an EBKP code in one catalog
+function findMatchInCatalog(normalizedCode, unitCosts) {
   // First, direct match
-  if (unitCostsByEbkph[normalizedCode]) {
+  if (unitCosts[normalizedCode]) {
     return {
       code: normalizedCode,
-      costInfo: unitCostsByEbkph[normalizedCode],
+      costInfo: unitCosts[normalizedCode],
       method: "direct",
     };
   }
 
   // Next, try removing all non-alphanumeric characters
   const cleanedCode = normalizedCode.replace(/[^A-Z0-9]/g, "");
-  for (const [costCode, costInfo] of Object.entries(unitCostsByEbkph)) {
+  for (const [costCode, costInfo] of Object.entries(unitCosts)) {
     const cleanedCostCode = costCode.replace(/[^A-Z0-9]/g, "");
     if (cleanedCostCode === cleanedCode) {
       return {
@@ -2026,7 +3267,7 @@ function findBestEbkphMatch(normalizedCode) {
   if (majorSegmentMatch && majorSegmentMatch[1]) {
     const majorSegment = majorSegmentMatch[1];
 
-    for (const [costCode, costInfo] of Object.entries(unitCostsByEbkph)) {
+    for (const [costCode, costInfo] of Object.entries(unitCosts)) {
       if (
         costCode.startsWith(majorSegment + ".") ||
         costCode === majorSegment
@@ -2043,29 +3284,66 @@ function findBestEbkphMatch(normalizedCode) {
   return null;
 }
 
-// Add a function to batch process code matches
-async function batchProcessCodeMatches(
-  elements,
-  unitCosts,
-  forceRefresh = false
-) {
-  // Return cached matches if they exist and are not expired
-  if (!forceRefresh && cachedMatches && lastMatchTimestamp) {
-    const age = Date.now() - lastMatchTimestamp;
-    if (age < MATCH_CACHE_DURATION) {
-      console.log("Returning cached matches");
-      return cachedMatches;
-    }
+// Find the match for a model code, applying the manual overrides of a project
+// An override replaces the automatic match of its Excel code entirely
+function findEbkphMatchWithOverrides(normalizedCode, catalogs, overrides = []) {
+  if (!normalizedCode) return null;
+
+  const assigned = overrides.find(
+    (override) =>
+      !override.excluded &&
+      override.modelCodes.some(
+        (modelCode) => normalizeEbkpCode(modelCode) === normalizedCode
+      )
+  );
+  // Overrides assign Excel codes of the project itself
+  const projectCatalog = catalogs[0];
+  if (assigned) {
+    const code = normalizeEbkpCode(assigned.excelCode);
+    return projectCatalog.unitCosts[code]
+      ? {
+          code,
+          costInfo: projectCatalog.unitCosts[code],
+          method: "manual",
+          catalog: { type: projectCatalog.type, name: projectCatalog.name },
+        }
+      : null;
+  }
+
+  const match = findBestEbkphMatch(normalizedCode, catalogs);
+  if (
+    match &&
+    match.catalog.type === "project" &&
+    overrides.some(
+      (override) => normalizeEbkpCode(override.excelCode) === match.code
+    )
+  ) {
+    return null;
   }
 
+  return match;
+}
+
+// Record which catalog priced an element and how the code was matched
+function getCostMatchFields(match) {
+  return {
+    cost_source: `${match.catalog.type}:${match.catalog.name}`,
+    cost_match_method: `${match.catalog.type}:${match.method}`,
+  };
+}
+
+// Add a function to batch process the code matches of a project
+function batchProcessCodeMatches(elements, catalogs) {
+  const unitCostCount = catalogs.reduce(
+    (count, catalog) => count + Object.keys(catalog.unitCosts).length,
+    0
+  );
   console.log(
-    `Processing new matches with ${elements.length} elements and ${
-      Object.keys(unitCosts).length
-    } unit costs`
+    `Processing new matches with ${elements.length} elements and ${unitCostCount} unit costs`
   );
 
   // Quick check if both arrays are empty
-  if (elements.length === 0 || Object.keys(unitCosts).length === 0) {
+  if (elements.length === 0 || unitCostCount === 0) {
     console.log(
       "Either elements or unit costs are empty, returning empty array"
     );
@@ -2081,32 +3359,10 @@ async function batchProcessCodeMatches(
     console.log(JSON.stringify(elements.slice(0, 2), null, 2));
   }
 
-  // Create a map of normalized codes for faster lookup
-  const normalizedCostCodes = new Map();
-  Object.entries(unitCosts).forEach(([code, costInfo]) => {
-    const normalizedCode = normalizeEbkpCode(code);
-    normalizedCostCodes.set(normalizedCode, { code, costInfo });
-  });
-
-  console.log(`Normalized ${normalizedCostCodes.size} cost codes for lookup`);
-
   // Process all elements at once
   for (const element of elements) {
     // Try different properties that might contain EBKP codes
-    let ebkpCode = null;
-
-    // First try direct properties
-    if (element.properties?.classification?.id) {
-      ebkpCode = element.properties.classification.id;
-    } else if (element.properties?.ebkph) {
-      ebkpCode = element.properties.ebkph;
-    } else if (element.ebkph) {
-      ebkpCode = element.ebkph;
-    } else if (element.ebkp_code) {
-      ebkpCode = element.ebkp_code;
-    } else if (element.ebkp) {
-      ebkpCode = element.ebkp;
-    }
+    const ebkpCode = getElementEbkpCode(element);
 
     if (!ebkpCode || processedCodes.has(ebkpCode)) continue;
 
@@ -2115,24 +3371,24 @@ async function batchProcessCodeMatches(
       `Processing element code: ${ebkpCode} (normalized: ${normalizedCode})`
     );
 
-    const match = findBestEbkphMatch(normalizedCode);
+    const match = findBestEbkphMatch(normalizedCode, catalogs);
 
     if (match) {
       const costInfo = match.costInfo;
-      const area = parseFloat(element.quantity || element.area || 0);
+      const quantity = getElementQuantity(element, costInfo.unit);
       const costUnit = costInfo.cost_unit || 0;
-      const totalCost = costUnit * (area || 1);
+      const totalCost = costUnit * quantity;
 
       matches.push({
         code: match.code,
         excelCode: ebkpCode,
         normalizedExcelCode: normalizedCode,
         elementCount: 1,
-        quantity: area,
+        quantity,
         matchType: match.method,
         unitCost: costUnit,
         totalCost: totalCost,
-        cost_source: costInfo.filename,
+        ...getCostMatchFields(match),
         cost_timestamp: costInfo.timestamp,
       });
 
@@ -2144,9 +3400,5 @@ async function batchProcessCodeMatches(
     `Found ${matches.length} matches from ${elements.length} elements`
   );
 
-  // Cache the results
-  cachedMatches = matches;
-  lastMatchTimestamp = Date.now();
-
   return matches;
 }
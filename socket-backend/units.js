@@ -0,0 +1,62 @@
+// Units of unit costs and the model quantities they refer to, shared by the
+// server and the MongoDB layer
+
+// Canonical spelling of the units that have a quantity in the model, the
+// same as normalizeUnit of the frontend
+const UNIT_ALIASES = {
+  m2: "m²",
+  "m²": "m²",
+  qm: "m²",
+  m3: "m³",
+  "m³": "m³",
+  cbm: "m³",
+  m: "m",
+  lfm: "m",
+  lm: "m",
+  stk: "Stk",
+  st: "Stk",
+  stück: "Stk",
+};
+
+const QUANTITY_TYPES_BY_UNIT = {
+  "m²": "area",
+  "m³": "volume",
+  m: "length",
+  Stk: "count",
+};
+
+// Model quantity that corresponds to a unit, or null if there is none
+// Unit costs without a unit are priced per m², like in the cost table
+function getQuantityTypeForUnit(unit) {
+  const trimmed = (unit || "m²").trim();
+  const key = trimmed.toLowerCase().replace(/[\s.]/g, "");
+  return QUANTITY_TYPES_BY_UNIT[UNIT_ALIASES[key] || trimmed] || null;
+}
+
+// Quantity of a model element in the unit of a unit cost. Counted units
+// count each element once, units without a model quantity give 0.
+function getElementQuantity(element, unit) {
+  switch (getQuantityTypeForUnit(unit)) {
+    case "area":
+      return (
+        parseFloat(
+          element.original_area ||
+            element.quantity ||
+            element.area ||
+            element.properties?.area
+        ) || 0
+      );
+    case "volume":
+      return parseFloat(element.volume || element.properties?.volume) || 0;
+    case "length":
+      return parseFloat(element.length || element.properties?.length) || 0;
+    case "count":
+      return 1;
+    default:
+      return 0;
+  }
+}
+
+module.exports = {
+  getElementQuantity,
+};
@@ -0,0 +1,285 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import { BudgetStatus, BudgetTarget } from "./types";
+
+interface BudgetTargetsDialogProps {
+  open: boolean;
+  projectName: string;
+  budgetStatus: BudgetStatus[];
+  onClose: () => void;
+  onSaved?: (budgetStatus: BudgetStatus[]) => void;
+}
+
+// Target being edited, values as typed by the user
+interface TargetRow {
+  ebkp: string;
+  amount: string;
+  threshold: string;
+}
+
+const toRow = (target: BudgetTarget): TargetRow => ({
+  ebkp: target.ebkp,
+  amount: String(target.amount),
+  threshold: String(target.threshold),
+});
+
+const parseNumber = (value: string) =>
+  Number(value.replace(/['’\s]/g, "").replace(",", "."));
+
+const toTarget = (row: TargetRow): BudgetTarget => ({
+  ebkp: row.ebkp.trim().toUpperCase(),
+  amount: parseNumber(row.amount),
+  threshold: row.threshold.trim() ? parseNumber(row.threshold) : 100,
+});
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("de-CH", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  });
+
+const BudgetTargetsDialog = ({
+  open,
+  projectName,
+  budgetStatus,
+  onClose,
+  onSaved,
+}: BudgetTargetsDialogProps) => {
+  const { sendRequest } = useWebSocket();
+  const [rows, setRows] = useState<TargetRow[]>([]);
+  const [status, setStatus] = useState<BudgetStatus[]>(budgetStatus);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTargets = useCallback(() => {
+    setLoading(true);
+    setError(null);
+
+    sendRequest({ type: "get_budget_targets", payload: { projectName } })
+      .then((response) => setRows((response.targets || []).map(toRow)))
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [projectName, sendRequest]);
+
+  // Load the targets when the dialog opens
+  useEffect(() => {
+    if (open) loadTargets();
+  }, [open, loadTargets]);
+
+  useEffect(() => {
+    setStatus(budgetStatus);
+  }, [budgetStatus]);
+
+  const updateRow = (index: number, changes: Partial<TargetRow>) => {
+    setRows((current) =>
+      current.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  const invalid = rows.some((row) => {
+    const target = toTarget(row);
+    return (
+      !Number.isFinite(target.amount) ||
+      target.amount <= 0 ||
+      !Number.isFinite(target.threshold) ||
+      target.threshold <= 0
+    );
+  });
+
+  // Replace the targets of the project, the summary is compared right away
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await sendRequest({
+        type: "save_budget_targets",
+        payload: { projectName, targets: rows.map(toTarget) },
+      });
+      setRows((response.targets || []).map(toRow));
+      setStatus(response.budgetStatus || []);
+      onSaved?.(response.budgetStatus || []);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Typography variant="h5">Budget</Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          {projectName}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Ohne eBKP-Code gilt das Budget für das Projekt und wird mit dem
+          Bruttototal verglichen, sonst für eine Hauptgruppe (z.B. C) oder
+          Untergruppe (z.B. C2) mit deren Nettokosten inklusive Teuerung. Ein
+          Budget gilt als überschritten, sobald die Kosten die Schwelle in
+          Prozent des Budgets erreichen.
+        </Typography>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <TableContainer sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>eBKP</TableCell>
+                  <TableCell>Budget CHF</TableCell>
+                  <TableCell>Schwelle %</TableCell>
+                  <TableCell align="right">Kosten CHF</TableCell>
+                  <TableCell align="right">Ausschöpfung</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((row, index) => {
+                  const rowStatus = status.find(
+                    (entry) => entry.ebkp === toTarget(row).ebkp
+                  );
+
+                  return (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          placeholder="Projekt"
+                          value={row.ebkp}
+                          sx={{ width: 120 }}
+                          onChange={(e) =>
+                            updateRow(index, { ebkp: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          value={row.amount}
+                          sx={{ width: 160 }}
+                          onChange={(e) =>
+                            updateRow(index, { amount: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          placeholder="100"
+                          value={row.threshold}
+                          sx={{ width: 90 }}
+                          onChange={(e) =>
+                            updateRow(index, { threshold: e.target.value })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        {rowStatus ? formatCurrency(rowStatus.actual) : "—"}
+                      </TableCell>
+                      <TableCell
+                        align="right"
+                        sx={{
+                          color: rowStatus?.exceeded ? "error.main" : undefined,
+                          fontWeight: rowStatus?.exceeded ? "bold" : undefined,
+                        }}
+                      >
+                        {rowStatus
+                          ? `${(rowStatus.ratio * 100).toFixed(0)}%`
+                          : "—"}
+                      </TableCell>
+                      <TableCell align="right">
+                        <IconButton
+                          size="small"
+                          onClick={() =>
+                            setRows((current) =>
+                              current.filter((_, i) => i !== index)
+                            )
+                          }
+                        >
+                          <DeleteOutlineIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6}>
+                      <Typography variant="body2" color="text.secondary">
+                        Keine Budgetvorgaben für dieses Projekt.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Button
+          startIcon={<AddIcon />}
+          disabled={loading || saving}
+          onClick={() =>
+            setRows((current) => [
+              ...current,
+              { ebkp: "", amount: "", threshold: "100" },
+            ])
+          }
+        >
+          Budget hinzufügen
+        </Button>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} color="inherit">
+          Schliessen
+        </Button>
+        <Button
+          variant="contained"
+          disabled={loading || saving || invalid}
+          onClick={handleSave}
+        >
+          Speichern
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BudgetTargetsDialog;
@@ -0,0 +1,16 @@
+// Budget of a project (no eBKP code), an eBKP main group ("C") or a subgroup
+// ("C2", "C2.1") in CHF. The threshold is the share of the budget in percent
+// at which it counts as exceeded.
+export interface BudgetTarget {
+  ebkp: string;
+  amount: number;
+  threshold: number;
+}
+
+// Budget target compared with the cost of the project: the gross total for
+// the project budget, the escalated net cost for group budgets
+export interface BudgetStatus extends BudgetTarget {
+  actual: number;
+  ratio: number;
+  exceeded: boolean;
+}
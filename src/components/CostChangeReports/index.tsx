@@ -0,0 +1,348 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Collapse,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import { useKafka } from "../../contexts/KafkaContext";
+import { CostChangeElement, CostChangeReport } from "./types";
+
+interface CostChangeReportsProps {
+  projectName: string;
+}
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("de-CH", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  });
+
+const formatQuantity = (quantity: number): string =>
+  quantity.toLocaleString("de-CH", { maximumFractionDigits: 2 });
+
+// Deltas with their sign, e.g. "+1'200" or "-350"
+const formatDelta = (delta: number, format: (value: number) => string) =>
+  `${delta > 0 ? "+" : ""}${format(delta)}`;
+
+const getDeltaColor = (delta: number) =>
+  delta > 0 ? "error.main" : delta < 0 ? "success.main" : "text.secondary";
+
+// Elements added or removed by an update
+const ElementList = ({
+  title,
+  elements,
+  count,
+}: {
+  title: string;
+  elements: CostChangeElement[];
+  count: number;
+}) => {
+  if (count === 0) return null;
+
+  return (
+    <Box mt={2}>
+      <Typography variant="subtitle2">
+        {title} ({count}
+        {count > elements.length && `, ${elements.length} grösste angezeigt`})
+      </Typography>
+      <TableContainer sx={{ maxHeight: 240 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Element</TableCell>
+              <TableCell>eBKP</TableCell>
+              <TableCell align="right">Menge</TableCell>
+              <TableCell align="right">Kosten CHF</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {elements.map((element) => (
+              <TableRow key={element.id}>
+                <TableCell sx={{ fontFamily: "monospace" }}>
+                  {element.id}
+                </TableCell>
+                <TableCell>{element.ebkp_code || "—"}</TableCell>
+                <TableCell align="right">
+                  {formatQuantity(element.quantity)}
+                </TableCell>
+                <TableCell align="right">
+                  {formatCurrency(element.cost)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+// Quantity deltas by eBKP code and the elements behind them
+const ReportDetails = ({ report }: { report: CostChangeReport }) => (
+  <Box mt={2}>
+    {report.by_ebkp.length > 0 && (
+      <TableContainer sx={{ maxHeight: 320 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>eBKP</TableCell>
+              <TableCell align="right">Elemente</TableCell>
+              <TableCell align="right">Menge vorher</TableCell>
+              <TableCell align="right">Menge nachher</TableCell>
+              <TableCell align="right">Δ Menge</TableCell>
+              <TableCell align="right">Δ Kosten CHF</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {report.by_ebkp.map((entry) => (
+              <TableRow key={entry.ebkp_code}>
+                <TableCell>{entry.ebkp_code || "Ohne eBKP"}</TableCell>
+                <TableCell align="right">
+                  {entry.elements_before} → {entry.elements_after}
+                </TableCell>
+                <TableCell align="right">
+                  {formatQuantity(entry.quantity_before)}
+                </TableCell>
+                <TableCell align="right">
+                  {formatQuantity(entry.quantity_after)}
+                </TableCell>
+                <TableCell align="right">
+                  {formatDelta(entry.quantity_delta, formatQuantity)}
+                </TableCell>
+                <TableCell
+                  align="right"
+                  sx={{ color: getDeltaColor(entry.cost_delta) }}
+                >
+                  {formatDelta(entry.cost_delta, formatCurrency)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    )}
+
+    {report.changed_count > 0 && (
+      <Box mt={2}>
+        <Typography variant="subtitle2">
+          Geändert ({report.changed_count}
+          {report.changed_count > report.changed.length &&
+            `, ${report.changed.length} grösste angezeigt`}
+          )
+        </Typography>
+        <TableContainer sx={{ maxHeight: 240 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Element</TableCell>
+                <TableCell>eBKP</TableCell>
+                <TableCell align="right">Menge</TableCell>
+                <TableCell align="right">Δ Kosten CHF</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {report.changed.map((element) => (
+                <TableRow key={element.id}>
+                  <TableCell sx={{ fontFamily: "monospace" }}>
+                    {element.id}
+                  </TableCell>
+                  <TableCell>
+                    {element.ebkp_code_before !== element.ebkp_code
+                      ? `${element.ebkp_code_before || "—"} → ${
+                          element.ebkp_code || "—"
+                        }`
+                      : element.ebkp_code || "—"}
+                  </TableCell>
+                  <TableCell align="right">
+                    {formatQuantity(element.quantity_before)} →{" "}
+                    {formatQuantity(element.quantity_after)}
+                  </TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: getDeltaColor(element.cost_delta) }}
+                  >
+                    {formatDelta(element.cost_delta, formatCurrency)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Box>
+    )}
+
+    <ElementList
+      title="Neu"
+      elements={report.added}
+      count={report.added_count}
+    />
+    <ElementList
+      title="Entfernt"
+      elements={report.removed}
+      count={report.removed_count}
+    />
+  </Box>
+);
+
+// Timeline of the change reports of a project, newest first, reloaded with
+// each project update
+const CostChangeReports = ({ projectName }: CostChangeReportsProps) => {
+  const { sendRequest } = useWebSocket();
+  const { projectUpdates } = useKafka();
+  const [reports, setReports] = useState<CostChangeReport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const lastUpdate = projectUpdates[projectName]?.timestamp;
+
+  const loadReports = useCallback(() => {
+    setLoading(true);
+    setError(null);
+
+    sendRequest({ type: "get_cost_change_reports", payload: { projectName } })
+      .then((response) => setReports(response.reports || []))
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [projectName, sendRequest]);
+
+  useEffect(() => {
+    if (projectName) loadReports();
+  }, [projectName, lastUpdate, loadReports]);
+
+  if (!projectName) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Wählen Sie ein Projekt, um die Änderungen anzuzeigen.
+      </Typography>
+    );
+  }
+
+  if (loading && reports.length === 0) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {!error && reports.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          Noch keine Modellaktualisierungen für dieses Projekt. Jede
+          Aktualisierung aus dem QTO wird hier mit ihren Kostenauswirkungen
+          aufgeführt.
+        </Typography>
+      )}
+
+      {reports.map((report, index) => {
+        const expanded = expandedId === report._id;
+
+        return (
+          <Box key={report._id} display="flex" gap={2}>
+            {/* Timeline marker and the line to the next report */}
+            <Box
+              display="flex"
+              flexDirection="column"
+              alignItems="center"
+              pt={2}
+            >
+              <Box
+                sx={{
+                  width: 12,
+                  height: 12,
+                  borderRadius: "50%",
+                  backgroundColor: report.baseline ? "grey.500" : "#e65100",
+                }}
+              />
+              {index < reports.length - 1 && (
+                <Box sx={{ flex: 1, width: 2, backgroundColor: "grey.300" }} />
+              )}
+            </Box>
+
+            <Paper
+              variant="outlined"
+              sx={{ p: 2, mb: 2, flex: 1, cursor: "pointer" }}
+              onClick={() => setExpandedId(expanded ? null : report._id)}
+            >
+              <Box
+                display="flex"
+                justifyContent="space-between"
+                alignItems="center"
+                flexWrap="wrap"
+                gap={1}
+              >
+                <Box>
+                  <Typography variant="subtitle1" fontWeight="bold">
+                    {new Date(report.created_at).toLocaleString("de-CH")}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {report.baseline
+                      ? `Erster Stand mit ${report.elements_count} Elementen`
+                      : `${
+                          report.elements_count
+                        } Elemente · Total ${formatCurrency(
+                          report.total_before
+                        )} → ${formatCurrency(report.total_after)} CHF`}
+                  </Typography>
+                </Box>
+                <Box display="flex" alignItems="center" gap={1}>
+                  {!report.baseline && (
+                    <>
+                      <Chip size="small" label={`+${report.added_count} neu`} />
+                      <Chip
+                        size="small"
+                        label={`${report.removed_count} entfernt`}
+                      />
+                      <Chip
+                        size="small"
+                        label={`${report.changed_count} geändert`}
+                      />
+                    </>
+                  )}
+                  <Typography
+                    variant="subtitle1"
+                    fontWeight="bold"
+                    sx={{
+                      minWidth: 120,
+                      textAlign: "right",
+                      color: getDeltaColor(report.cost_delta),
+                    }}
+                  >
+                    {formatDelta(report.cost_delta, formatCurrency)} CHF
+                  </Typography>
+                </Box>
+              </Box>
+
+              <Collapse in={expanded} unmountOnExit>
+                <Box onClick={(e) => e.stopPropagation()}>
+                  <ReportDetails report={report} />
+                </Box>
+              </Collapse>
+            </Paper>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default CostChangeReports;
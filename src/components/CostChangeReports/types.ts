@@ -0,0 +1,64 @@
+// Model element as compared between two project updates, eBKP code
+// normalized and cost as priced at the update
+export interface CostChangeElement {
+  id: string;
+  ebkp_code: string;
+  quantity: number;
+  cost: number;
+}
+
+// Element present in both updates whose code, quantity or cost changed
+export interface CostChangeElementDelta {
+  id: string;
+  ebkp_code: string;
+  ebkp_code_before: string;
+  quantity_before: number;
+  quantity_after: number;
+  cost_before: number;
+  cost_after: number;
+  cost_delta: number;
+}
+
+// Quantity and cost of one eBKP code before and after an update
+export interface CostChangeEbkpDelta {
+  ebkp_code: string;
+  elements_before: number;
+  elements_after: number;
+  quantity_before: number;
+  quantity_after: number;
+  quantity_delta: number;
+  cost_before: number;
+  cost_after: number;
+  cost_delta: number;
+}
+
+// What a PROJECT_UPDATED event changed compared to the previous update.
+// The element lists hold the largest cost impacts, the counts are exact.
+// The first update of a project is the baseline, all its elements are added.
+export interface CostChangeReport {
+  _id: string;
+  project_name: string;
+  baseline: boolean;
+  elements_count: number;
+  added_count: number;
+  removed_count: number;
+  changed_count: number;
+  added: CostChangeElement[];
+  removed: CostChangeElement[];
+  changed: CostChangeElementDelta[];
+  by_ebkp: CostChangeEbkpDelta[];
+  total_before: number;
+  total_after: number;
+  cost_delta: number;
+  created_at: string;
+}
+
+// Summary of the change report sent with a project_update broadcast
+export interface CostChangeReportSummary {
+  id: string;
+  baseline: boolean;
+  added: number;
+  removed: number;
+  changed: number;
+  costDelta: number;
+}
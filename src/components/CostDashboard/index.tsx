@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Grid,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import {
+  CostDashboard as CostDashboardData,
+  CostDashboardBucket,
+  CostDashboardDimension,
+  CostDashboardElement,
+} from "./types";
+
+interface CostDashboardProps {
+  projectName: string;
+}
+
+// Title of each dimension and the label of elements without a value
+const DIMENSIONS: {
+  dimension: CostDashboardDimension;
+  title: string;
+  emptyLabel: string;
+}[] = [
+  { dimension: "group", title: "eBKP-Hauptgruppe", emptyLabel: "Ohne eBKP" },
+  { dimension: "level", title: "Geschoss", emptyLabel: "Ohne Geschoss" },
+  {
+    dimension: "category",
+    title: "IFC-Kategorie",
+    emptyLabel: "Ohne Kategorie",
+  },
+  { dimension: "structural", title: "Tragwerk", emptyLabel: "—" },
+];
+
+const STRUCTURAL_LABELS: Record<string, string> = {
+  structural: "Tragend",
+  non_structural: "Nicht tragend",
+};
+
+const getDimension = (dimension: CostDashboardDimension) =>
+  DIMENSIONS.find((entry) => entry.dimension === dimension)!;
+
+const getBucketLabel = (dimension: CostDashboardDimension, key: string) => {
+  if (dimension === "structural") return STRUCTURAL_LABELS[key] || key;
+  return key || getDimension(dimension).emptyLabel;
+};
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("de-CH", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  });
+
+const CostDashboard = ({ projectName }: CostDashboardProps) => {
+  const { sendRequest } = useWebSocket();
+  const [dashboard, setDashboard] = useState<CostDashboardData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<{
+    dimension: CostDashboardDimension;
+    key: string;
+  } | null>(null);
+  const [elements, setElements] = useState<CostDashboardElement[]>([]);
+  const [loadingElements, setLoadingElements] = useState(false);
+
+  const loadDashboard = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    setSelection(null);
+
+    sendRequest({ type: "get_cost_dashboard", payload: { projectName } })
+      .then((response) => setDashboard(response.dashboard || null))
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [projectName, sendRequest]);
+
+  useEffect(() => {
+    if (projectName) loadDashboard();
+  }, [projectName, loadDashboard]);
+
+  // Load the elements behind the selected bar
+  useEffect(() => {
+    if (!selection) {
+      setElements([]);
+      return;
+    }
+
+    setLoadingElements(true);
+    sendRequest({
+      type: "get_cost_dashboard_elements",
+      payload: { projectName, ...selection },
+    })
+      .then((response) => setElements(response.elements || []))
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoadingElements(false));
+  }, [projectName, selection, sendRequest]);
+
+  const renderBars = (
+    dimension: CostDashboardDimension,
+    buckets: CostDashboardBucket[]
+  ) => {
+    const maxCost = Math.max(...buckets.map((bucket) => bucket.cost), 0);
+
+    return buckets.map((bucket) => {
+      const selected =
+        selection?.dimension === dimension && selection.key === bucket.key;
+
+      return (
+        <Box
+          key={bucket.key}
+          onClick={() =>
+            setSelection(selected ? null : { dimension, key: bucket.key })
+          }
+          sx={{
+            mb: 1,
+            cursor: "pointer",
+            "&:hover .cost-bar": { opacity: 1 },
+          }}
+        >
+          <Box display="flex" justifyContent="space-between">
+            <Typography variant="body2" fontWeight={selected ? "bold" : 400}>
+              {getBucketLabel(dimension, bucket.key)}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {formatCurrency(bucket.cost)} CHF · {bucket.count}
+            </Typography>
+          </Box>
+          <Box sx={{ height: 8, backgroundColor: "#f0f0f0", borderRadius: 1 }}>
+            <Box
+              className="cost-bar"
+              sx={{
+                height: "100%",
+                width: `${maxCost > 0 ? (bucket.cost / maxCost) * 100 : 0}%`,
+                backgroundColor: selected ? "#e65100" : "#ffb74d",
+                borderRadius: 1,
+                opacity: selected ? 1 : 0.8,
+              }}
+            />
+          </Box>
+        </Box>
+      );
+    });
+  };
+
+  if (!projectName) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Wählen Sie ein Projekt, um die Kostenverteilung anzuzeigen.
+      </Typography>
+    );
+  }
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {dashboard && dashboard.elements_count === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          Für dieses Projekt sind noch keine Kosten erfasst.
+        </Typography>
+      )}
+
+      {dashboard && dashboard.elements_count > 0 && (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {formatCurrency(dashboard.total)} CHF auf {dashboard.elements_count}{" "}
+            Elemente
+            {dashboard.escalation_factor !== 1 && ", inklusive Teuerung"}.
+            Klicken Sie auf einen Balken, um die Elemente anzuzeigen.
+          </Typography>
+
+          <Grid container spacing={2}>
+            {DIMENSIONS.map(({ dimension, title }) => (
+              <Grid item xs={12} md={6} key={dimension}>
+                <Paper variant="outlined" sx={{ p: 2, height: "100%" }}>
+                  <Typography variant="subtitle1" fontWeight="bold" mb={1}>
+                    {title}
+                  </Typography>
+                  <Box sx={{ maxHeight: 300, overflow: "auto", pr: 1 }}>
+                    {renderBars(dimension, dashboard[dimension])}
+                  </Box>
+                </Paper>
+              </Grid>
+            ))}
+          </Grid>
+        </>
+      )}
+
+      {selection && (
+        <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+          <Box
+            display="flex"
+            justifyContent="space-between"
+            alignItems="center"
+          >
+            <Typography variant="subtitle1" fontWeight="bold">
+              {getDimension(selection.dimension).title}:{" "}
+              {getBucketLabel(selection.dimension, selection.key)}
+            </Typography>
+            <IconButton size="small" onClick={() => setSelection(null)}>
+              <CloseIcon fontSize="small" />
+            </IconButton>
+          </Box>
+
+          {loadingElements ? (
+            <Box display="flex" justifyContent="center" p={2}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <TableContainer sx={{ maxHeight: 400 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Element</TableCell>
+                    <TableCell>eBKP</TableCell>
+                    <TableCell>Kategorie</TableCell>
+                    <TableCell>Geschoss</TableCell>
+                    <TableCell align="right">Menge</TableCell>
+                    <TableCell align="right">Kennwert</TableCell>
+                    <TableCell align="right">Total CHF</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {elements.map((element) => (
+                    <TableRow key={element._id}>
+                      <TableCell>
+                        {element.global_id || element.qto_element_id || "—"}
+                      </TableCell>
+                      <TableCell>{element.ebkp_code || "—"}</TableCell>
+                      <TableCell>{element.category || "—"}</TableCell>
+                      <TableCell>{element.level || "—"}</TableCell>
+                      <TableCell align="right">
+                        {element.quantity.toLocaleString("de-CH", {
+                          maximumFractionDigits: 2,
+                        })}
+                      </TableCell>
+                      <TableCell align="right">
+                        {element.unit_cost.toLocaleString("de-CH", {
+                          maximumFractionDigits: 2,
+                        })}
+                      </TableCell>
+                      <TableCell align="right">
+                        {formatCurrency(element.total_cost)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default CostDashboard;
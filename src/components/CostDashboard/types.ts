@@ -0,0 +1,43 @@
+// Dimensions the cost of a project is aggregated by
+export type CostDashboardDimension =
+  | "group"
+  | "level"
+  | "category"
+  | "structural";
+
+// Escalated cost and element count of one key of a dimension, e.g. main
+// group "C" or level "EG". Elements without a value have the key "".
+export interface CostDashboardBucket {
+  key: string;
+  cost: number;
+  count: number;
+}
+
+// Cost of a project's elements by eBKP main group, level, IFC category and
+// structural ("structural") vs. non-structural ("non_structural")
+export interface CostDashboard {
+  total: number;
+  elements_count: number;
+  escalation_factor: number;
+  currency: string;
+  group: CostDashboardBucket[];
+  level: CostDashboardBucket[];
+  category: CostDashboardBucket[];
+  structural: CostDashboardBucket[];
+}
+
+// Cost element behind a dashboard bar, costs escalated
+export interface CostDashboardElement {
+  _id: string;
+  qto_element_id?: string;
+  global_id?: string;
+  element_type?: string;
+  ebkp_code: string;
+  group: string;
+  level: string;
+  category: string;
+  structural: string;
+  quantity: number;
+  unit_cost: number;
+  total_cost: number;
+}
@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import { CostSurcharge } from "./types";
+
+interface CostSurchargesDialogProps {
+  open: boolean;
+  projectName: string;
+  onClose: () => void;
+  onSaved?: (surcharges: CostSurcharge[]) => void;
+}
+
+// Typical order for a cost estimate: contingency and fees on the net cost,
+// VAT last on everything before it
+const SURCHARGE_TEMPLATE: CostSurcharge[] = [
+  { name: "Reserve", type: "percentage", value: 10, groups: [] },
+  { name: "Honorare", type: "percentage", value: 15, groups: [] },
+  { name: "MWST", type: "percentage", value: 8.1, groups: [] },
+];
+
+// Rule being edited, value and groups as typed by the user
+interface SurchargeRow {
+  name: string;
+  type: CostSurcharge["type"];
+  value: string;
+  groups: string;
+}
+
+const toRow = (surcharge: CostSurcharge): SurchargeRow => ({
+  name: surcharge.name,
+  type: surcharge.type,
+  value: String(surcharge.value),
+  groups: surcharge.groups.join(", "),
+});
+
+// Parse the main groups of a rule, e.g. "C, E" or "ce"
+const parseGroups = (groups: string): string[] =>
+  Array.from(
+    new Set(
+      groups
+        .toUpperCase()
+        .split(/[\s,;]+/)
+        .flatMap((part) => part.split(""))
+        .filter((group) => group)
+    )
+  );
+
+const toSurcharge = (row: SurchargeRow): CostSurcharge => ({
+  name: row.name.trim(),
+  type: row.type,
+  value: Number(row.value.replace(",", ".")),
+  groups: parseGroups(row.groups),
+});
+
+const CostSurchargesDialog = ({
+  open,
+  projectName,
+  onClose,
+  onSaved,
+}: CostSurchargesDialogProps) => {
+  const { sendRequest } = useWebSocket();
+  const [rows, setRows] = useState<SurchargeRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSurcharges = useCallback(() => {
+    setLoading(true);
+    setError(null);
+
+    sendRequest({ type: "get_cost_surcharges", payload: { projectName } })
+      .then((response) => setRows((response.surcharges || []).map(toRow)))
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [projectName, sendRequest]);
+
+  // Load the rules when the dialog opens
+  useEffect(() => {
+    if (open) loadSurcharges();
+  }, [open, loadSurcharges]);
+
+  const updateRow = (index: number, changes: Partial<SurchargeRow>) => {
+    setRows((current) =>
+      current.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  const invalid = rows.some(
+    (row) =>
+      !row.name.trim() ||
+      !row.value.trim() ||
+      !Number.isFinite(Number(row.value.replace(",", ".")))
+  );
+
+  // Replace the rules of the project, the totals are recalculated
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await sendRequest({
+        type: "save_cost_surcharges",
+        payload: { projectName, surcharges: rows.map(toSurcharge) },
+      });
+      const saved = response.surcharges || [];
+      setRows(saved.map(toRow));
+      onSaved?.(saved);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Typography variant="h5">Zuschläge</Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          {projectName}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Die Zuschläge werden der Reihe nach auf die Nettokosten angewendet,
+          jeder Prozentsatz auf das Total inklusive der Zuschläge davor. Ohne
+          Hauptgruppen gilt ein Zuschlag für alle eBKP-Hauptgruppen, ein Betrag
+          mit Hauptgruppen wird anteilig auf diese verteilt.
+        </Typography>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <TableContainer sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Bezeichnung</TableCell>
+                  <TableCell>Art</TableCell>
+                  <TableCell>Wert</TableCell>
+                  <TableCell>Hauptgruppen</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={row.name}
+                        onChange={(e) =>
+                          updateRow(index, { name: e.target.value })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        value={row.type}
+                        onChange={(e) =>
+                          updateRow(index, {
+                            type: e.target.value as CostSurcharge["type"],
+                          })
+                        }
+                      >
+                        <MenuItem value="percentage">Prozent</MenuItem>
+                        <MenuItem value="fixed">Betrag CHF</MenuItem>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={row.value}
+                        sx={{ width: 120 }}
+                        onChange={(e) =>
+                          updateRow(index, { value: e.target.value })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        placeholder="alle"
+                        value={row.groups}
+                        sx={{ width: 140 }}
+                        onChange={(e) =>
+                          updateRow(index, { groups: e.target.value })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <IconButton
+                        size="small"
+                        onClick={() =>
+                          setRows((current) =>
+                            current.filter((_, i) => i !== index)
+                          )
+                        }
+                      >
+                        <DeleteOutlineIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5}>
+                      <Typography variant="body2" color="text.secondary">
+                        Keine Zuschläge, das Total entspricht den Nettokosten.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Box display="flex" gap={1}>
+          <Button
+            startIcon={<AddIcon />}
+            disabled={loading || saving}
+            onClick={() =>
+              setRows((current) => [
+                ...current,
+                { name: "", type: "percentage", value: "", groups: "" },
+              ])
+            }
+          >
+            Zuschlag hinzufügen
+          </Button>
+          <Button
+            color="inherit"
+            disabled={loading || saving || rows.length > 0}
+            onClick={() => setRows(SURCHARGE_TEMPLATE.map(toRow))}
+          >
+            Vorlage übernehmen
+          </Button>
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} color="inherit">
+          Schliessen
+        </Button>
+        <Button
+          variant="contained"
+          disabled={loading || saving || invalid}
+          onClick={handleSave}
+        >
+          Speichern
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CostSurchargesDialog;
@@ -0,0 +1,23 @@
+// Surcharge rule of a project, e.g. contingency, fees or VAT. A percentage is
+// applied to the running total, a fixed amount in CHF is added once. Without
+// groups the rule applies to all eBKP main groups.
+export interface CostSurcharge {
+  name: string;
+  type: "percentage" | "fixed";
+  value: number;
+  groups: string[];
+}
+
+// Surcharge rule with the total it was applied to and the resulting amount
+export interface CostBreakdownSurcharge extends CostSurcharge {
+  base: number;
+  amount: number;
+}
+
+// Project total from net (escalated Kennwerte) to gross, rules in order
+export interface CostBreakdown {
+  net: number;
+  net_by_group: Record<string, number>;
+  surcharges: CostBreakdownSurcharge[];
+  gross: number;
+}
@@ -0,0 +1,51 @@
+import { Box, Tooltip } from "@mui/material";
+import { BudgetStatus } from "../BudgetTargets/types";
+
+interface BudgetInfoProps {
+  status: BudgetStatus | null;
+}
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("de-CH", { maximumFractionDigits: 0 });
+
+// Share of the budget a group uses, red once it reaches the threshold
+const BudgetInfo = ({ status }: BudgetInfoProps) => {
+  if (!status) return null;
+
+  return (
+    <Tooltip
+      title={
+        <>
+          <div>
+            <strong>Budget:</strong> {formatCurrency(status.amount)} CHF
+          </div>
+          <div>
+            <strong>Kosten netto:</strong> {formatCurrency(status.actual)} CHF
+          </div>
+          <div>
+            <strong>Schwelle:</strong> {status.threshold}%
+          </div>
+        </>
+      }
+      arrow
+    >
+      <Box
+        component="span"
+        sx={{
+          ml: 1,
+          px: 0.75,
+          borderRadius: 1,
+          fontSize: "0.75rem",
+          fontWeight: "bold",
+          cursor: "help",
+          color: status.exceeded ? "error.contrastText" : "text.secondary",
+          backgroundColor: status.exceeded ? "error.main" : "grey.200",
+        }}
+      >
+        {(status.ratio * 100).toFixed(0)}% Budget
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default BudgetInfo;
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+} from "@mui/material";
+import {
+  COLUMN_FIELDS,
+  ColumnMapping,
+  ColumnMappingProfile,
+  CostItemField,
+} from "./types";
+import { resolveColumnMapping } from "./utils";
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  fileName: string;
+  headers: string[];
+  profiles: ColumnMappingProfile[];
+  onCancel: () => void;
+  onConfirm: (mapping: ColumnMapping, profileName: string | null) => void;
+}
+
+const ColumnMappingDialog = ({
+  open,
+  fileName,
+  headers,
+  profiles,
+  onCancel,
+  onConfirm,
+}: ColumnMappingDialogProps) => {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [selectedProfile, setSelectedProfile] = useState("");
+  const [saveProfile, setSaveProfile] = useState(false);
+  const [profileName, setProfileName] = useState("");
+
+  // Pre-fill the mapping with all columns that match the template headers
+  useEffect(() => {
+    if (open) {
+      setMapping(resolveColumnMapping(headers));
+      setSelectedProfile("");
+      setSaveProfile(false);
+      setProfileName("");
+    }
+  }, [open, headers]);
+
+  const handleFieldChange = (field: CostItemField, column: string) => {
+    setMapping((prev) => ({
+      ...prev,
+      [field]: column || undefined,
+    }));
+  };
+
+  // Apply a saved profile, keeping only columns that exist in this file
+  const handleProfileChange = (profileId: string) => {
+    setSelectedProfile(profileId);
+    const profile = profiles.find((p) => p.id === profileId);
+    if (profile) {
+      setMapping(resolveColumnMapping(headers, profile.mapping));
+      setProfileName(profile.name);
+    }
+  };
+
+  const missingRequired = COLUMN_FIELDS.filter(
+    ({ field, required }) => required && !mapping[field]
+  );
+
+  const handleConfirm = () => {
+    const name = saveProfile && profileName.trim() ? profileName.trim() : null;
+    onConfirm(mapping, name);
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Typography variant="h5">Spalten zuordnen</Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          {fileName}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          Die Spalten der Excel-Datei entsprechen nicht der Vorlage. Ordnen Sie
+          die Spalten den Kostenfeldern zu.
+        </Typography>
+
+        {profiles.length > 0 && (
+          <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+            <Select
+              value={selectedProfile}
+              displayEmpty
+              onChange={(e) => handleProfileChange(e.target.value)}
+            >
+              <MenuItem value="">
+                <em>Gespeichertes Profil laden...</em>
+              </MenuItem>
+              {profiles.map((profile) => (
+                <MenuItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Feld</TableCell>
+              <TableCell>Spalte in der Datei</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {COLUMN_FIELDS.map(({ field, header, required }) => (
+              <TableRow key={field}>
+                <TableCell>
+                  {header}
+                  {required && " *"}
+                </TableCell>
+                <TableCell>
+                  <FormControl fullWidth size="small">
+                    <Select
+                      value={mapping[field] || ""}
+                      displayEmpty
+                      error={required && !mapping[field]}
+                      onChange={(e) => handleFieldChange(field, e.target.value)}
+                    >
+                      <MenuItem value="">
+                        <em>Nicht zugeordnet</em>
+                      </MenuItem>
+                      {headers
+                        .filter((h) => h.trim() !== "")
+                        .map((h) => (
+                          <MenuItem key={h} value={h}>
+                            {h}
+                          </MenuItem>
+                        ))}
+                    </Select>
+                  </FormControl>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {missingRequired.length > 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            Pflichtfelder ohne Zuordnung:{" "}
+            {missingRequired.map(({ header }) => header).join(", ")}
+          </Alert>
+        )}
+
+        <FormControlLabel
+          sx={{ mt: 2 }}
+          control={
+            <Checkbox
+              checked={saveProfile}
+              onChange={(e) => setSaveProfile(e.target.checked)}
+            />
+          }
+          label="Zuordnung als Profil für dieses Projekt speichern"
+        />
+        {saveProfile && (
+          <TextField
+            fullWidth
+            size="small"
+            label="Profilname"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+          />
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onCancel} color="inherit">
+          Abbrechen
+        </Button>
+        <Button
+          onClick={handleConfirm}
+          variant="contained"
+          color="primary"
+          disabled={
+            missingRequired.length > 0 || (saveProfile && !profileName.trim())
+          }
+        >
+          Übernehmen
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  Typography,
+} from "@mui/material";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import { CostItem, CostItemElement, CostItemElementSource } from "./types";
+import { formatNumber } from "./utils";
+import { exportRowsToCsv } from "./excelExport";
+
+interface CostItemElementsProps {
+  item: CostItem;
+  projectName: string;
+}
+
+// Element with the quantity, unit cost and total shown for the row
+interface ElementRow {
+  id: string;
+  globalId: string;
+  category: string;
+  level: string;
+  quantity: number;
+  unitCost: number;
+  total: number;
+}
+
+type SortKey = Exclude<keyof ElementRow, "id">;
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+  { key: "globalId", label: "GUID", numeric: false },
+  { key: "category", label: "Kategorie", numeric: false },
+  { key: "level", label: "Geschoss", numeric: false },
+  { key: "quantity", label: "Menge", numeric: true },
+  { key: "unitCost", label: "Kennwert", numeric: true },
+  { key: "total", label: "Total CHF", numeric: true },
+];
+
+// Quantity of an element in the unit of the row, counted rows count each
+// element once
+const getElementQuantity = (item: CostItem, element: CostItemElement) => {
+  const quantityType = item.quantityType || "area";
+  return quantityType === "count" ? 1 : element[quantityType] || 0;
+};
+
+const toElementRow = (item: CostItem, element: CostItemElement): ElementRow => {
+  const quantity = getElementQuantity(item, element);
+  const unitCost = element.unit_cost ?? item.kennwert ?? 0;
+  return {
+    id: element.id,
+    globalId: element.global_id || element.id,
+    category: element.category,
+    level: element.level,
+    quantity,
+    unitCost,
+    total: element.total_cost ?? quantity * unitCost,
+  };
+};
+
+// Elements behind a leaf row of the cost table, sortable, filterable and
+// exportable as CSV
+const CostItemElements = ({ item, projectName }: CostItemElementsProps) => {
+  const { sendRequest } = useWebSocket();
+  const [elements, setElements] = useState<CostItemElement[]>([]);
+  const [source, setSource] = useState<CostItemElementSource>("qto");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("total");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+
+  useEffect(() => {
+    if (!item.ebkp) return;
+
+    setLoading(true);
+    setError(null);
+    sendRequest({
+      type: "get_cost_item_elements",
+      payload: { projectName, ebkpCode: item.ebkp },
+    })
+      .then((response) => {
+        setElements(response.elements || []);
+        setSource(response.source || "qto");
+      })
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [projectName, item.ebkp, sendRequest]);
+
+  const rows = useMemo(() => {
+    const search = filter.trim().toLowerCase();
+    const direction = sortDirection === "asc" ? 1 : -1;
+
+    return elements
+      .map((element) => toElementRow(item, element))
+      .filter(
+        (row) =>
+          !search ||
+          [row.globalId, row.category, row.level].some((value) =>
+            value.toLowerCase().includes(search)
+          )
+      )
+      .sort((a, b) => {
+        const valueA = a[sortKey];
+        const valueB = b[sortKey];
+        if (typeof valueA === "number" && typeof valueB === "number") {
+          return (valueA - valueB) * direction;
+        }
+        return (
+          String(valueA).localeCompare(String(valueB), "de-CH", {
+            numeric: true,
+          }) * direction
+        );
+      });
+  }, [elements, item, filter, sortKey, sortDirection]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setSortDirection(
+        COLUMNS.find((column) => column.key === key)?.numeric ? "desc" : "asc"
+      );
+    }
+  };
+
+  // Export the filtered and sorted elements
+  const handleExport = () => {
+    exportRowsToCsv(
+      [
+        "GUID",
+        "eBKP",
+        "Kategorie",
+        "Geschoss",
+        "Menge",
+        "Einheit",
+        "Kennwert",
+        "Total CHF",
+      ],
+      rows.map((row) => [
+        row.globalId,
+        item.ebkp || "",
+        row.category,
+        row.level,
+        row.quantity,
+        item.einheit || "",
+        row.unitCost,
+        row.total,
+      ]),
+      `Elemente_${(item.ebkp || "").replace(/[^\w.-]/g, "_")}.csv`
+    );
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={2}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error" sx={{ m: 1 }}>
+        {error}
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 1 }}>
+      <Box display="flex" alignItems="center" gap={2} mb={1}>
+        <TextField
+          size="small"
+          placeholder="GUID, Kategorie oder Geschoss filtern"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          sx={{ minWidth: 280 }}
+        />
+        <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
+          {rows.length} von {elements.length} Elementen ·{" "}
+          {source === "cost"
+            ? "Kosten der letzten gespeicherten Übermittlung"
+            : "Mengen aus dem Modell, mit dem Kennwert der Zeile"}
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<FileDownloadIcon />}
+          disabled={rows.length === 0}
+          onClick={handleExport}
+        >
+          CSV
+        </Button>
+      </Box>
+
+      <Box sx={{ maxHeight: 320, overflow: "auto" }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              {COLUMNS.map((column) => (
+                <TableCell
+                  key={column.key}
+                  align={column.numeric ? "right" : "left"}
+                  sortDirection={sortKey === column.key ? sortDirection : false}
+                >
+                  <TableSortLabel
+                    active={sortKey === column.key}
+                    direction={sortKey === column.key ? sortDirection : "asc"}
+                    onClick={() => handleSort(column.key)}
+                  >
+                    {column.label}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.id} hover>
+                <TableCell sx={{ fontFamily: "monospace" }}>
+                  {row.globalId}
+                </TableCell>
+                <TableCell>{row.category || "—"}</TableCell>
+                <TableCell>{row.level || "—"}</TableCell>
+                <TableCell align="right">
+                  {formatNumber(row.quantity)} {item.einheit}
+                </TableCell>
+                <TableCell align="right">
+                  {formatNumber(row.unitCost)}
+                </TableCell>
+                <TableCell align="right">{formatNumber(row.total)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+    </Box>
+  );
+};
+
+export default CostItemElements;
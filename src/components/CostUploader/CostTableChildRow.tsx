@@ -14,7 +14,17 @@ import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
 import KeyboardArrowUpIcon from "@mui/icons-material/KeyboardArrowUp";
 import InfoOutlinedIcon from "@mui/icons-material/InfoOutlined";
 import { CostItem } from "./types";
-import { getColumnStyle, columnWidths } from "./styles";
+import { BudgetStatus } from "../BudgetTargets/types";
+import { findBudgetStatus } from "./utils";
+import QuantityIssueInfo from "./QuantityIssueInfo";
+import ReferenceKennwertInfo from "./ReferenceKennwertInfo";
+import BudgetInfo from "./BudgetInfo";
+import {
+  getColumnStyle,
+  columnWidths,
+  highlightedRowStyle,
+  budgetExceededRowStyle,
+} from "./styles";
 import { tableStyle } from "./styles";
 import CostTableGrandchildRow from "./CostTableGrandchildRow.tsx";
 import { useKafka } from "../../contexts/KafkaContext";
@@ -51,6 +61,9 @@ interface CostTableChildRowProps {
     decimals?: number
   ) => React.ReactElement | string;
   totalElements: number;
+  highlightedCode?: string | null;
+  projectName?: string;
+  budgetStatus?: BudgetStatus[];
 }
 
 const CostTableChildRow = ({
@@ -61,6 +74,9 @@ const CostTableChildRow = ({
   cellStyles,
   renderNumber,
   totalElements,
+  highlightedCode,
+  projectName,
+  budgetStatus = [],
 }: Omit<CostTableChildRowProps, "expandedRows">) => {
   // Add state to track if QTO data is available
   const [hasQtoState, setHasQtoState] = useState<boolean>(false);
@@ -247,6 +263,8 @@ const CostTableChildRow = ({
     );
   };
 
+  const budget = findBudgetStatus(budgetStatus, item);
+
   return (
     <React.Fragment>
       <TableRow
@@ -263,7 +281,12 @@ const CostTableChildRow = ({
             : hasQtoInTree
             ? "2px solid rgba(25, 118, 210, 0.2)"
             : "none",
+          ...(highlightedCode && item.ebkp === highlightedCode
+            ? highlightedRowStyle
+            : {}),
+          ...(budget?.exceeded ? budgetExceededRowStyle : {}),
         }}
+        data-ebkp={item.ebkp}
       >
         <TableCell sx={{ padding: isMobile ? "8px 4px" : undefined }}>
           {item.children && item.children.length > 0 && (
@@ -314,6 +337,7 @@ const CostTableChildRow = ({
           }}
         >
           {processField(item.bezeichnung)}
+          <BudgetInfo status={budget} />
         </TableCell>
         <TableCell
           sx={{
@@ -360,6 +384,7 @@ const CostTableChildRow = ({
             )}
 
             {hasQtoData(item) && <DataSourceInfo />}
+            <QuantityIssueInfo item={item} />
           </Box>
         </TableCell>
         <TableCell
@@ -368,7 +393,7 @@ const CostTableChildRow = ({
             ...cellStyles.standardBorder,
           }}
         >
-          {hasQtoData(item) ? "m²" : processField(item.einheit)}
+          {hasQtoData(item) ? item.einheit || "m²" : processField(item.einheit)}
         </TableCell>
         <TableCell
           sx={{
@@ -377,6 +402,7 @@ const CostTableChildRow = ({
             ...cellStyles.standardBorder,
           }}
         >
+          <ReferenceKennwertInfo item={item} />
           {item.kennwert !== null && item.kennwert !== undefined
             ? renderNumber(item.kennwert)
             : ""}
@@ -482,6 +508,9 @@ const CostTableChildRow = ({
                         cellStyles={cellStyles}
                         renderNumber={renderNumber}
                         totalElements={totalElements}
+                        highlightedCode={highlightedCode}
+                        projectName={projectName}
+                        budgetStatus={budgetStatus}
                       />
                     ))}
                   </TableBody>
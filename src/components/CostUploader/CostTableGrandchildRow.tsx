@@ -1,9 +1,28 @@
-import React from "react";
-import { TableRow, TableCell, Box, Tooltip, Chip } from "@mui/material";
+import React, { useState } from "react";
+import {
+  TableRow,
+  TableCell,
+  Box,
+  Tooltip,
+  Chip,
+  IconButton,
+} from "@mui/material";
 import SyncIcon from "@mui/icons-material/Sync";
 import InfoOutlinedIcon from "@mui/icons-material/InfoOutlined";
+import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
+import KeyboardArrowRightIcon from "@mui/icons-material/KeyboardArrowRight";
 import { CostItem } from "./types";
-import { getColumnStyle } from "./styles";
+import { BudgetStatus } from "../BudgetTargets/types";
+import { findBudgetStatus } from "./utils";
+import QuantityIssueInfo from "./QuantityIssueInfo";
+import ReferenceKennwertInfo from "./ReferenceKennwertInfo";
+import BudgetInfo from "./BudgetInfo";
+import CostItemElements from "./CostItemElements";
+import {
+  getColumnStyle,
+  highlightedRowStyle,
+  budgetExceededRowStyle,
+} from "./styles";
 import { useKafka } from "../../contexts/KafkaContext";
 
 // Define a proper type for cellStyles instead of using any
@@ -26,6 +45,12 @@ interface CostTableGrandchildRowProps {
     decimals?: number
   ) => React.ReactElement | string;
   totalElements: number;
+  // Nesting below the third level, for codes like "C2.1.3"
+  depth?: number;
+  highlightedCode?: string | null;
+  // Leaf rows with model quantities expand into their elements
+  projectName?: string;
+  budgetStatus?: BudgetStatus[];
 }
 
 const CostTableGrandchildRow = ({
@@ -34,16 +59,27 @@ const CostTableGrandchildRow = ({
   cellStyles,
   renderNumber,
   totalElements,
+  depth = 0,
+  highlightedCode,
+  projectName,
+  budgetStatus = [],
 }: CostTableGrandchildRowProps) => {
   // Get the Kafka context
   const { replaceEbkpPlaceholders, calculateUpdatedChf, formatTimestamp } =
     useKafka();
+  const [showElements, setShowElements] = useState(false);
 
   // Check if this item has QTO data from MongoDB
   const hasQtoData = (item: CostItem): boolean => {
     return item.area !== undefined;
   };
 
+  // Leaf rows whose quantity comes from the model list the matched elements
+  const canShowElements =
+    !!projectName &&
+    hasQtoData(item) &&
+    !(item.children && item.children.length > 0);
+
   // Process text fields to replace any eBKP placeholders
   const processField = (text: string | null | undefined): string => {
     if (text === null || text === undefined) return "";
@@ -135,159 +171,211 @@ const CostTableGrandchildRow = ({
     );
   };
 
+  const budget = findBudgetStatus(budgetStatus, item);
+
   return (
-    <TableRow
-      hover
-      sx={{
-        ...cellStyles.grandchildRow,
-        backgroundColor: hasQtoData(item)
-          ? "rgba(25, 118, 210, 0.02)"
-          : undefined,
-        borderLeft: hasQtoData(item)
-          ? "2px solid rgba(25, 118, 210, 0.3)"
-          : "none",
-      }}
-    >
-      <TableCell sx={{ padding: isMobile ? "8px 4px" : undefined }}>
-        {hasQtoData(item) && (
-          <Box
-            sx={{
-              width: 4,
-              height: 4,
-              borderRadius: "50%",
-              bgcolor: "info.main",
-              display: "inline-block",
-              ml: 0.5,
-              verticalAlign: "middle",
-              opacity: 0.7,
-            }}
-          />
-        )}
-      </TableCell>
-      <TableCell
-        component="th"
-        scope="row"
-        sx={{
-          ...getColumnStyle("ebkp"),
-          padding: isMobile ? "8px 4px" : undefined,
-        }}
-      >
-        {processField(item.ebkp)}
-      </TableCell>
-      <TableCell
+    <>
+      <TableRow
+        hover
         sx={{
-          ...getColumnStyle("bezeichnung"),
-          padding: isMobile ? "8px 4px" : undefined,
+          ...cellStyles.grandchildRow,
+          backgroundColor: hasQtoData(item)
+            ? "rgba(25, 118, 210, 0.02)"
+            : undefined,
+          borderLeft: hasQtoData(item)
+            ? "2px solid rgba(25, 118, 210, 0.3)"
+            : "none",
+          ...(highlightedCode && item.ebkp === highlightedCode
+            ? highlightedRowStyle
+            : {}),
+          ...(budget?.exceeded ? budgetExceededRowStyle : {}),
         }}
+        data-ebkp={item.ebkp}
       >
-        {processField(item.bezeichnung)}
-      </TableCell>
-      <TableCell
-        sx={{
-          ...getColumnStyle("menge"),
-          ...cellStyles.menge,
-          position: "relative",
-        }}
-      >
-        <Box
-          sx={{
-            display: "flex",
-            alignItems: "center",
-            "& > *:first-of-type": {
-              mr: 0.5,
-            },
-          }}
-        >
-          {hasQtoData(item) ? (
-            <Tooltip
-              title={`${getElementCount()}/${totalElements} BIM Elemente (100%)`}
-              arrow
+        <TableCell sx={{ padding: isMobile ? "8px 4px" : undefined }}>
+          {canShowElements ? (
+            <IconButton
+              size="small"
+              title="Elemente anzeigen"
+              onClick={() => setShowElements(!showElements)}
+              sx={{ p: 0.25 }}
             >
-              <Chip
-                icon={<SyncIcon />}
-                size="small"
-                label={renderNumber(getMengeValue(item.menge), 2)}
-                variant="outlined"
-                color="info"
-                sx={{
-                  height: 20,
-                  backgroundColor: "rgba(25, 118, 210, 0.05)",
-                  "& .MuiChip-label": {
-                    px: 0.5,
-                    fontSize: "0.75rem",
-                  },
-                  "& .MuiChip-icon": {
-                    fontSize: "0.875rem",
-                    ml: 0.5,
-                  },
-                }}
-              />
-            </Tooltip>
+              {showElements ? (
+                <KeyboardArrowDownIcon fontSize="small" />
+              ) : (
+                <KeyboardArrowRightIcon fontSize="small" />
+              )}
+            </IconButton>
           ) : (
-            renderNumber(getMengeValue(item.menge), 2)
-          )}
-
-          {hasQtoData(item) && <DataSourceInfo />}
-        </Box>
-      </TableCell>
-      <TableCell
-        sx={{
-          ...getColumnStyle("einheit"),
-          ...cellStyles.standardBorder,
-        }}
-      >
-        {hasQtoData(item) ? "m²" : processField(item.einheit)}
-      </TableCell>
-      <TableCell
-        sx={{
-          ...getColumnStyle("kennwert"),
-          ...cellStyles.kennwert,
-          ...cellStyles.standardBorder,
-        }}
-      >
-        {item.kennwert !== null && item.kennwert !== undefined
-          ? renderNumber(item.kennwert)
-          : ""}
-      </TableCell>
-      <TableCell
-        sx={{
-          ...getColumnStyle("totalChf"),
-          ...cellStyles.totalChf,
-          ...cellStyles.standardBorder,
-        }}
-      >
-        <Box sx={{ display: "flex", alignItems: "center" }}>
-          {hasQtoData(item) ? (
-            <Tooltip title="Betrag aus BIM Daten" arrow>
-              <Chip
-                size="small"
-                label={renderNumber(getChfValue())}
-                variant="outlined"
-                color="primary"
+            hasQtoData(item) && (
+              <Box
                 sx={{
-                  height: 20,
-                  backgroundColor: "rgba(25, 118, 210, 0.05)",
-                  "& .MuiChip-label": {
-                    px: 0.5,
-                    fontSize: "0.75rem",
-                  },
+                  width: 4,
+                  height: 4,
+                  borderRadius: "50%",
+                  bgcolor: "info.main",
+                  display: "inline-block",
+                  ml: 0.5,
+                  verticalAlign: "middle",
+                  opacity: 0.7,
                 }}
               />
-            </Tooltip>
-          ) : (
-            renderNumber(item.totalChf)
+            )
           )}
-        </Box>
-      </TableCell>
-      <TableCell
-        sx={{
-          ...getColumnStyle("kommentar"),
-          padding: isMobile ? "8px 4px" : undefined,
-        }}
-      >
-        {processField(item.kommentar)}
-      </TableCell>
-    </TableRow>
+        </TableCell>
+        <TableCell
+          component="th"
+          scope="row"
+          sx={{
+            ...getColumnStyle("ebkp"),
+            padding: isMobile ? "8px 4px" : undefined,
+            paddingLeft: depth > 0 ? `${16 + depth * 12}px` : undefined,
+          }}
+        >
+          {processField(item.ebkp)}
+        </TableCell>
+        <TableCell
+          sx={{
+            ...getColumnStyle("bezeichnung"),
+            padding: isMobile ? "8px 4px" : undefined,
+          }}
+        >
+          {processField(item.bezeichnung)}
+          <BudgetInfo status={budget} />
+        </TableCell>
+        <TableCell
+          sx={{
+            ...getColumnStyle("menge"),
+            ...cellStyles.menge,
+            position: "relative",
+          }}
+        >
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              "& > *:first-of-type": {
+                mr: 0.5,
+              },
+            }}
+          >
+            {hasQtoData(item) ? (
+              <Tooltip
+                title={`${getElementCount()}/${totalElements} BIM Elemente (100%)`}
+                arrow
+              >
+                <Chip
+                  icon={<SyncIcon />}
+                  size="small"
+                  label={renderNumber(getMengeValue(item.menge), 2)}
+                  variant="outlined"
+                  color="info"
+                  sx={{
+                    height: 20,
+                    backgroundColor: "rgba(25, 118, 210, 0.05)",
+                    "& .MuiChip-label": {
+                      px: 0.5,
+                      fontSize: "0.75rem",
+                    },
+                    "& .MuiChip-icon": {
+                      fontSize: "0.875rem",
+                      ml: 0.5,
+                    },
+                  }}
+                />
+              </Tooltip>
+            ) : (
+              renderNumber(getMengeValue(item.menge), 2)
+            )}
+
+            {hasQtoData(item) && <DataSourceInfo />}
+            <QuantityIssueInfo item={item} />
+          </Box>
+        </TableCell>
+        <TableCell
+          sx={{
+            ...getColumnStyle("einheit"),
+            ...cellStyles.standardBorder,
+          }}
+        >
+          {hasQtoData(item) ? item.einheit || "m²" : processField(item.einheit)}
+        </TableCell>
+        <TableCell
+          sx={{
+            ...getColumnStyle("kennwert"),
+            ...cellStyles.kennwert,
+            ...cellStyles.standardBorder,
+          }}
+        >
+          <ReferenceKennwertInfo item={item} />
+          {item.kennwert !== null && item.kennwert !== undefined
+            ? renderNumber(item.kennwert)
+            : ""}
+        </TableCell>
+        <TableCell
+          sx={{
+            ...getColumnStyle("totalChf"),
+            ...cellStyles.totalChf,
+            ...cellStyles.standardBorder,
+          }}
+        >
+          <Box sx={{ display: "flex", alignItems: "center" }}>
+            {hasQtoData(item) ? (
+              <Tooltip title="Betrag aus BIM Daten" arrow>
+                <Chip
+                  size="small"
+                  label={renderNumber(getChfValue())}
+                  variant="outlined"
+                  color="primary"
+                  sx={{
+                    height: 20,
+                    backgroundColor: "rgba(25, 118, 210, 0.05)",
+                    "& .MuiChip-label": {
+                      px: 0.5,
+                      fontSize: "0.75rem",
+                    },
+                  }}
+                />
+              </Tooltip>
+            ) : (
+              renderNumber(item.totalChf)
+            )}
+          </Box>
+        </TableCell>
+        <TableCell
+          sx={{
+            ...getColumnStyle("kommentar"),
+            padding: isMobile ? "8px 4px" : undefined,
+          }}
+        >
+          {processField(item.kommentar)}
+        </TableCell>
+      </TableRow>
+
+      {showElements && canShowElements && (
+        <TableRow>
+          <TableCell colSpan={8} sx={{ backgroundColor: "#fafafa" }}>
+            <CostItemElements item={item} projectName={projectName} />
+          </TableCell>
+        </TableRow>
+      )}
+
+      {/* Deeper levels are rendered as further rows below their parent */}
+      {item.children?.map((childItem: CostItem, index) => (
+        <CostTableGrandchildRow
+          key={`${childItem.ebkp}-${index}`}
+          item={childItem}
+          isMobile={isMobile}
+          cellStyles={cellStyles}
+          renderNumber={renderNumber}
+          totalElements={totalElements}
+          depth={depth + 1}
+          highlightedCode={highlightedCode}
+          projectName={projectName}
+          budgetStatus={budgetStatus}
+        />
+      ))}
+    </>
   );
 };
 
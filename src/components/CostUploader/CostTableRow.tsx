@@ -15,7 +15,17 @@ import KeyboardArrowUpIcon from "@mui/icons-material/KeyboardArrowUp";
 import SyncIcon from "@mui/icons-material/Sync";
 import InfoOutlinedIcon from "@mui/icons-material/InfoOutlined";
 import { CostItem } from "./types";
-import { getColumnStyle, columnWidths } from "./styles";
+import { BudgetStatus } from "../BudgetTargets/types";
+import { findBudgetStatus } from "./utils";
+import QuantityIssueInfo from "./QuantityIssueInfo";
+import ReferenceKennwertInfo from "./ReferenceKennwertInfo";
+import BudgetInfo from "./BudgetInfo";
+import {
+  getColumnStyle,
+  columnWidths,
+  highlightedRowStyle,
+  budgetExceededRowStyle,
+} from "./styles";
 import { tableStyle } from "./styles";
 import CostTableChildRow from "./CostTableChildRow.tsx";
 import { useKafka } from "../../contexts/KafkaContext";
@@ -44,6 +54,9 @@ interface CostTableRowProps {
     decimals?: number
   ) => React.ReactElement | string;
   totalElements: number;
+  highlightedCode?: string | null;
+  projectName?: string;
+  budgetStatus?: BudgetStatus[];
 }
 
 const CostTableRow = ({
@@ -55,6 +68,9 @@ const CostTableRow = ({
   cellStyles,
   renderNumber,
   totalElements,
+  highlightedCode,
+  projectName,
+  budgetStatus = [],
 }: CostTableRowProps) => {
   // Add state to track if QTO data is available
   const [hasQtoState, setHasQtoState] = useState<boolean>(false);
@@ -252,6 +268,8 @@ const CostTableRow = ({
     );
   };
 
+  const budget = findBudgetStatus(budgetStatus, item);
+
   return (
     <React.Fragment>
       <TableRow
@@ -268,7 +286,12 @@ const CostTableRow = ({
             : hasQtoInTree
             ? "2px solid rgba(25, 118, 210, 0.3)"
             : "none",
+          ...(highlightedCode && item.ebkp === highlightedCode
+            ? highlightedRowStyle
+            : {}),
+          ...(budget?.exceeded ? budgetExceededRowStyle : {}),
         }}
+        data-ebkp={item.ebkp}
       >
         <TableCell sx={{ padding: isMobile ? "8px 4px" : undefined }}>
           {item.children && item.children.length > 0 && (
@@ -321,6 +344,7 @@ const CostTableRow = ({
           }}
         >
           {processField(item.bezeichnung)}
+          <BudgetInfo status={budget} />
         </TableCell>
         <TableCell
           sx={{
@@ -385,6 +409,7 @@ const CostTableRow = ({
               renderNumber(getMengeValue(item.menge), 2)}
 
             {hasQtoData(item) && <DataSourceInfo />}
+            <QuantityIssueInfo item={item} />
           </Box>
         </TableCell>
         <TableCell
@@ -393,7 +418,7 @@ const CostTableRow = ({
             ...cellStyles.standardBorder,
           }}
         >
-          {hasQtoData(item) ? "m²" : processField(item.einheit)}
+          {hasQtoData(item) ? item.einheit || "m²" : processField(item.einheit)}
         </TableCell>
         <TableCell
           sx={{
@@ -402,6 +427,7 @@ const CostTableRow = ({
             ...cellStyles.standardBorder,
           }}
         >
+          <ReferenceKennwertInfo item={item} />
           {item.kennwert !== null && item.kennwert !== undefined
             ? renderNumber(item.kennwert)
             : ""}
@@ -508,6 +534,9 @@ const CostTableRow = ({
                       cellStyles={cellStyles}
                       renderNumber={renderNumber}
                       totalElements={totalElements}
+                      highlightedCode={highlightedCode}
+                      projectName={projectName}
+                      budgetStatus={budgetStatus}
                     />
                   ))}
                 </TableBody>
@@ -1,4 +1,18 @@
-import { CostItem } from "./types";
+import {
+  CostItem,
+  LevelQuantity,
+  MatchingOverride,
+  QuantityType,
+} from "./types";
+import { getQuantityTypeForUnit, normalizeUnit } from "./utils";
+
+// Labels of the model quantities, used in messages
+const QUANTITY_LABELS: Record<QuantityType, string> = {
+  area: "Fläche",
+  volume: "Volumen",
+  length: "Länge",
+  count: "Stückzahl",
+};
 
 // Define ProjectElement type locally to avoid the import issue
 interface ProjectElement {
@@ -6,6 +20,8 @@ interface ProjectElement {
   ebkpCode: string;
   quantity: number;
   area: number;
+  volume?: number;
+  length?: number;
   description?: string;
   category?: string;
   level?: string;
@@ -17,6 +33,7 @@ interface ProjectElement {
 export class EbkpMapper {
   private projectElements: ProjectElement[] = [];
   private ebkpMap: Record<string, ProjectElement[]> = {};
+  private matchingOverrides: Record<string, MatchingOverride> = {};
 
   /**
    * Initialize the mapper with project elements
@@ -61,6 +78,17 @@ export class EbkpMapper {
     );
   }
 
+  /**
+   * Set the manual matching overrides, keyed by normalized Excel code
+   */
+  setMatchingOverrides(overrides: MatchingOverride[]) {
+    this.matchingOverrides = {};
+    overrides.forEach((override) => {
+      this.matchingOverrides[this.normalizeEbkpCode(override.excelCode)] =
+        override;
+    });
+  }
+
   /**
    * Add an element to alternative keying strategies for more robust matching
    */
@@ -157,6 +185,19 @@ export class EbkpMapper {
    */
   getElementsForEbkp(ebkpCode: string): ProjectElement[] {
     const normalizedCode = this.normalizeEbkpCode(ebkpCode);
+
+    // Manual overrides replace the automatic matching
+    const override = this.matchingOverrides[normalizedCode];
+    if (override) {
+      if (override.excluded) return [];
+      const assigned = new Map<string, ProjectElement>();
+      override.modelCodes.forEach((modelCode) => {
+        (this.ebkpMap[this.normalizeEbkpCode(modelCode)] || []).forEach(
+          (element) => assigned.set(element.id, element)
+        );
+      });
+      return Array.from(assigned.values());
+    }
     const elements = this.ebkpMap[normalizedCode] || [];
     console.log(
       `Looking up code '${ebkpCode}' (normalized: '${normalizedCode}'): found ${elements.length} elements`
@@ -243,11 +284,99 @@ export class EbkpMapper {
   }
 
   /**
-   * Get total area/quantity for a specific eBKP code
+   * Get total area for a specific eBKP code
    */
   getTotalAreaForEbkp(ebkpCode: string): number {
+    return this.getTotalQuantityForEbkp(ebkpCode, "area");
+  }
+
+  /**
+   * Get the total of one quantity type for a specific eBKP code
+   * Counts are the number of matching elements
+   */
+  getTotalQuantityForEbkp(
+    ebkpCode: string,
+    quantityType: QuantityType
+  ): number {
     const elements = this.getElementsForEbkp(ebkpCode);
-    return elements.reduce((sum, element) => sum + element.area, 0);
+    if (quantityType === "count") {
+      return elements.length;
+    }
+    return elements.reduce(
+      (sum, element) => sum + (element[quantityType] || 0),
+      0
+    );
+  }
+
+  /**
+   * Split the quantity of matched elements by their storey, in the same way
+   * as getTotalQuantityForEbkp adds it up
+   */
+  getQuantitiesByLevel(
+    elements: ProjectElement[],
+    quantityType: QuantityType
+  ): LevelQuantity[] {
+    const byLevel = new Map<string, LevelQuantity>();
+
+    elements.forEach((element) => {
+      const level = (element.level || "").trim();
+      const entry = byLevel.get(level) || {
+        level,
+        quantity: 0,
+        elementCount: 0,
+      };
+      entry.quantity +=
+        quantityType === "count" ? 1 : element[quantityType] || 0;
+      entry.elementCount++;
+      byLevel.set(level, entry);
+    });
+
+    return Array.from(byLevel.values());
+  }
+
+  /**
+   * Resolve the model quantity for a cost row from its eBKP code and unit
+   * Rows without a unit use the area, as before units were considered
+   */
+  resolveQuantity(
+    ebkpCode: string,
+    einheit?: string
+  ): {
+    elements: ProjectElement[];
+    quantityType: QuantityType | null;
+    unit: string;
+    total: number;
+    issue?: string;
+  } {
+    const elements = this.getElementsForEbkp(ebkpCode);
+    const unit = einheit ? normalizeUnit(einheit) : "m²";
+    const quantityType = getQuantityTypeForUnit(unit);
+
+    if (elements.length === 0) {
+      return { elements, quantityType, unit, total: 0 };
+    }
+
+    if (!quantityType) {
+      return {
+        elements,
+        quantityType,
+        unit,
+        total: 0,
+        issue: `Keine Modellmenge für Einheit "${unit}"`,
+      };
+    }
+
+    const total = this.getTotalQuantityForEbkp(ebkpCode, quantityType);
+    return {
+      elements,
+      quantityType,
+      unit,
+      total,
+      issue:
+        total > 0
+          ? undefined
+          : `Elemente ohne ${QUANTITY_LABELS[quantityType]} (${unit}) im Modell`,
+    };
   }
 
   /**
@@ -289,58 +418,71 @@ export class EbkpMapper {
         console.log(
           `Processing item with eBKP: '${item.ebkp}', menge: ${item.menge || 0}`
         );
-        const totalArea = this.getTotalAreaForEbkp(item.ebkp);
-        const elements = this.getElementsForEbkp(item.ebkp);
+        const { elements, quantityType, unit, total, issue } =
+          this.resolveQuantity(item.ebkp, item.einheit);
 
-        // Store original Excel value if we're going to replace it
-        if (item.menge && options.alwaysUseDbQuantities) {
-          if (!item.originalValues) {
-            item.originalValues = {};
-          }
-          item.originalValues.menge = item.menge;
+        // Keep the unit spelling consistent with the mapped quantity
+        if (item.einheit) {
+          item.einheit = unit;
         }
 
-        // Update quantity based on options
-        // If alwaysUseDbQuantities is true, always use database quantity
-        // Otherwise, only use it if Excel doesn't have a value
-        if (options.alwaysUseDbQuantities || !item.menge || item.menge === 0) {
-          // Only update if we found elements with area
-          if (elements.length > 0 && totalArea > 0) {
-            const oldMenge = item.menge || 0;
-            item.menge = totalArea;
-
-            // Set the area property that CostTableGrandchildRow expects
-            item.area = totalArea;
-            item.areaSource = "IFC";
-            item.kafkaTimestamp = new Date().toISOString();
-
-            // Log the change
-            console.log(
-              `Updated quantity for eBKP ${item.ebkp}: ${oldMenge} → ${totalArea} m² (${elements.length} elements)`
-            );
+        item.quantityIssue = issue;
+        if (issue) {
+          console.warn(`${issue} (eBKP ${item.ebkp})`);
+        }
 
-            // If we have kennwert (unit cost), recalculate the total cost
-            if (item.kennwert) {
-              const oldChf = item.chf || 0;
-              item.chf = item.kennwert * totalArea;
-              console.log(
-                `Updated cost for eBKP ${item.ebkp}: ${oldChf} → ${item.chf} CHF`
-              );
+        // Without a matching model quantity the Excel value is kept
+        if (!quantityType || total <= 0) {
+          if (elements.length === 0) {
+            console.warn(`No matching elements found for eBKP ${item.ebkp}`);
+          }
+        } else if (
+          options.alwaysUseDbQuantities ||
+          !item.menge ||
+          item.menge === 0
+        ) {
+          // Store original Excel value as we're going to replace it
+          if (item.menge) {
+            if (!item.originalValues) {
+              item.originalValues = {};
             }
+            item.originalValues.menge = item.menge;
+          }
+
+          const oldMenge = item.menge || 0;
+          item.menge = total;
+          item.einheit = unit;
+          item.quantityType = quantityType;
+          item.levelQuantities = this.getQuantitiesByLevel(
+            elements,
+            quantityType
+          );
+
+          // Set the area property that CostTableGrandchildRow expects
+          item.area = total;
+          item.areaSource = "IFC";
+          item.kafkaTimestamp = new Date().toISOString();
 
-            // Add information about the source of the data
-            item.dbElements = elements.length;
-            item.dbArea = totalArea;
-          } else if (elements.length > 0) {
-            console.warn(
-              `Found ${elements.length} elements for eBKP ${item.ebkp} but total area is ${totalArea}`
+          // Log the change
+          console.log(
+            `Updated quantity for eBKP ${item.ebkp}: ${oldMenge} → ${total} ${unit} (${elements.length} elements)`
+          );
+
+          // If we have kennwert (unit cost), recalculate the total cost
+          if (item.kennwert) {
+            const oldChf = item.chf || 0;
+            item.chf = item.kennwert * total;
+            console.log(
+              `Updated cost for eBKP ${item.ebkp}: ${oldChf} → ${item.chf} CHF`
             );
-          } else {
-            console.warn(`No matching elements found for eBKP ${item.ebkp}`);
           }
+
+          // Add information about the source of the data
+          item.dbElements = elements.length;
+          item.dbArea = total;
         } else {
           console.log(
-            `Keeping original quantity for eBKP ${item.ebkp}: ${item.menge} m² (DB value would be ${totalArea} m²)`
+            `Keeping original quantity for eBKP ${item.ebkp}: ${item.menge} ${unit} (DB value would be ${total} ${unit})`
           );
         }
       }
@@ -353,9 +495,10 @@ export class EbkpMapper {
   }
 
   /**
-   * Calculate total cost for all items
+   * Calculate total cost for all items, escalated with the factor of the
+   * project's price index (1 for nominal costs)
    */
-  calculateTotalCost(items: CostItem[]): number {
+  calculateTotalCost(items: CostItem[], escalationFactor = 1): number {
     let total = 0;
 
     items.forEach((item) => {
@@ -370,7 +513,7 @@ export class EbkpMapper {
       }
     });
 
-    return total;
+    return total * escalationFactor;
   }
 
   /**
@@ -1,18 +1,139 @@
 import { Paper, Typography, Box } from "@mui/material";
 import UploadFileIcon from "@mui/icons-material/UploadFile";
 import { useCallback, useRef, useState } from "react";
+import * as XLSX from "xlsx";
 import { getDropzoneStyle } from "./styles";
-import { parseExcelFile } from "./utils";
-import { MetaFile } from "./types";
+import {
+  findMatchingProfile,
+  getMissingHeaders,
+  getWorkbookHeaders,
+  parseWorkbook,
+  readExcelFile,
+  resolveColumnMapping,
+} from "./utils";
+import { ColumnMapping, ColumnMappingProfile, MetaFile } from "./types";
+import ColumnMappingDialog from "./ColumnMappingDialog";
+import SheetSelectionDialog from "./SheetSelectionDialog";
+import { useWebSocket } from "../../hooks/useWebSocket";
 
 interface FileDropzoneProps {
   onFileUploaded: (metaFile: MetaFile) => void;
   setIsLoading: (loading: boolean) => void;
+  projectName: string;
 }
 
-const FileDropzone = ({ onFileUploaded, setIsLoading }: FileDropzoneProps) => {
+// Workbook waiting for the user to select its sheets
+interface PendingWorkbook {
+  file: File;
+  workbook: XLSX.WorkBook;
+}
+
+// File waiting for the user to map its columns
+interface PendingFile extends PendingWorkbook {
+  sheetNames: string[];
+  headers: string[];
+  profiles: ColumnMappingProfile[];
+}
+
+const FileDropzone = ({
+  onFileUploaded,
+  setIsLoading,
+  projectName,
+}: FileDropzoneProps) => {
   const [isDragActive, setIsDragActive] = useState(false);
+  const [pendingWorkbook, setPendingWorkbook] =
+    useState<PendingWorkbook | null>(null);
+  const [pendingFile, setPendingFile] = useState<PendingFile | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const { sendRequest } = useWebSocket();
+
+  // Load the saved column mapping profiles for the current project
+  const fetchColumnProfiles = useCallback(
+    (): Promise<ColumnMappingProfile[]> =>
+      sendRequest(
+        { type: "get_column_profiles", payload: { projectName } },
+        5000
+      )
+        .then((response) => response.profiles || [])
+        .catch(() => {
+          // Continue without profiles if the server doesn't answer
+          return [];
+        }),
+    [sendRequest, projectName]
+  );
+
+  // Save a named column mapping profile for the current project
+  const saveColumnProfile = useCallback(
+    (name: string, mapping: ColumnMapping) => {
+      sendRequest({
+        type: "save_column_profile",
+        payload: { projectName, profile: { name, mapping } },
+      }).catch((error) => {
+        console.error("Error saving column profile:", error);
+      });
+    },
+    [sendRequest, projectName]
+  );
+
+  const uploadWorkbook = useCallback(
+    (
+      file: File,
+      workbook: XLSX.WorkBook,
+      sheetNames: string[],
+      mapping?: ColumnMapping
+    ) => {
+      const result = parseWorkbook(workbook, mapping, sheetNames);
+
+      onFileUploaded({
+        file,
+        data: result.data,
+        headers: result.headers,
+        missingHeaders: result.missingHeaders,
+        valid: result.valid,
+        columnMapping: result.columnMapping,
+        sheetNames: result.sheetNames,
+        sheetConflicts: result.sheetConflicts,
+        parseReport: result.parseReport,
+      });
+    },
+    [onFileUploaded]
+  );
+
+  // Parse the selected sheets, asking for a column mapping if needed
+  const processWorkbook = useCallback(
+    async (file: File, workbook: XLSX.WorkBook, sheetNames: string[]) => {
+      setIsLoading(true);
+
+      try {
+        const headers = getWorkbookHeaders(workbook, sheetNames);
+
+        // Files in the template format don't need a mapping step
+        if (getMissingHeaders(resolveColumnMapping(headers)).length === 0) {
+          uploadWorkbook(file, workbook, sheetNames);
+          return;
+        }
+
+        // Use a saved profile if the file's headers match one
+        const profiles = await fetchColumnProfiles();
+        const profile = findMatchingProfile(headers, profiles);
+        if (profile) {
+          const resolved = resolveColumnMapping(headers, profile.mapping);
+          if (getMissingHeaders(resolved, profile.mapping).length === 0) {
+            uploadWorkbook(file, workbook, sheetNames, profile.mapping);
+            return;
+          }
+        }
+
+        // Otherwise let the user map the columns
+        setPendingFile({ file, workbook, sheetNames, headers, profiles });
+      } catch (error) {
+        console.error("Error processing file:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [setIsLoading, uploadWorkbook, fetchColumnProfiles]
+  );
 
   const handleFile = useCallback(
     async (file: File) => {
@@ -21,25 +142,59 @@ const FileDropzone = ({ onFileUploaded, setIsLoading }: FileDropzoneProps) => {
       console.log(`Processing new file: ${file.name}`);
       setIsLoading(true);
 
+      let workbook: XLSX.WorkBook;
       try {
-        const result = await parseExcelFile(file);
-
-        onFileUploaded({
-          file,
-          data: result.data,
-          headers: result.headers,
-          missingHeaders: result.missingHeaders,
-          valid: result.valid,
-        });
+        workbook = await readExcelFile(file);
       } catch (error) {
         console.error("Error processing file:", error);
-      } finally {
         setIsLoading(false);
+        return;
+      }
+
+      // Let the user pick the sheets if the workbook has more than one
+      if (workbook.SheetNames.length > 1) {
+        setIsLoading(false);
+        setPendingWorkbook({ file, workbook });
+        return;
       }
+
+      await processWorkbook(file, workbook, workbook.SheetNames);
     },
-    [onFileUploaded, setIsLoading]
+    [setIsLoading, processWorkbook]
   );
 
+  const handleSheetsConfirm = (sheetNames: string[]) => {
+    if (!pendingWorkbook) return;
+
+    const { file, workbook } = pendingWorkbook;
+    setPendingWorkbook(null);
+    processWorkbook(file, workbook, sheetNames);
+  };
+
+  const handleMappingConfirm = (
+    mapping: ColumnMapping,
+    profileName: string | null
+  ) => {
+    if (!pendingFile) return;
+
+    if (profileName) {
+      saveColumnProfile(profileName, mapping);
+    }
+
+    try {
+      uploadWorkbook(
+        pendingFile.file,
+        pendingFile.workbook,
+        pendingFile.sheetNames,
+        mapping
+      );
+    } catch (error) {
+      console.error("Error processing file:", error);
+    } finally {
+      setPendingFile(null);
+    }
+  };
+
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -94,42 +249,61 @@ const FileDropzone = ({ onFileUploaded, setIsLoading }: FileDropzoneProps) => {
   };
 
   return (
-    <Paper
-      sx={getDropzoneStyle(isDragActive)}
-      onDrop={handleDrop}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onClick={handleClick}
-    >
-      <input
-        ref={inputRef}
-        type="file"
-        accept=".xlsx,.xls"
-        style={{ display: "none" }}
-        onChange={handleFileInputChange}
+    <>
+      <Paper
+        sx={getDropzoneStyle(isDragActive)}
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onClick={handleClick}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".xlsx,.xls"
+          style={{ display: "none" }}
+          onChange={handleFileInputChange}
+        />
+
+        <Box sx={{ textAlign: "center", padding: 2 }}>
+          {isDragActive ? (
+            <div>
+              <UploadFileIcon color="primary" sx={{ fontSize: 32, mb: 1 }} />
+              <Typography variant="body1" color="primary">
+                Lassen Sie die Excel-Datei hier fallen...
+              </Typography>
+            </div>
+          ) : (
+            <div>
+              <UploadFileIcon color="primary" sx={{ fontSize: 32, mb: 1 }} />
+              <Typography variant="body1" color="textPrimary">
+                Drag and Drop
+              </Typography>
+              <Typography variant="body2" color="textSecondary">
+                Format: Excel (.xlsx, .xls)
+              </Typography>
+            </div>
+          )}
+        </Box>
+      </Paper>
+
+      <SheetSelectionDialog
+        open={pendingWorkbook !== null}
+        fileName={pendingWorkbook?.file.name || ""}
+        sheetNames={pendingWorkbook?.workbook.SheetNames || []}
+        onCancel={() => setPendingWorkbook(null)}
+        onConfirm={handleSheetsConfirm}
       />
 
-      <Box sx={{ textAlign: "center", padding: 2 }}>
-        {isDragActive ? (
-          <div>
-            <UploadFileIcon color="primary" sx={{ fontSize: 32, mb: 1 }} />
-            <Typography variant="body1" color="primary">
-              Lassen Sie die Excel-Datei hier fallen...
-            </Typography>
-          </div>
-        ) : (
-          <div>
-            <UploadFileIcon color="primary" sx={{ fontSize: 32, mb: 1 }} />
-            <Typography variant="body1" color="textPrimary">
-              Drag and Drop
-            </Typography>
-            <Typography variant="body2" color="textSecondary">
-              Format: Excel (.xlsx, .xls)
-            </Typography>
-          </div>
-        )}
-      </Box>
-    </Paper>
+      <ColumnMappingDialog
+        open={pendingFile !== null}
+        fileName={pendingFile?.file.name || ""}
+        headers={pendingFile?.headers || []}
+        profiles={pendingFile?.profiles || []}
+        onCancel={() => setPendingFile(null)}
+        onConfirm={handleMappingConfirm}
+      />
+    </>
   );
 };
 
@@ -15,15 +15,22 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  Tooltip,
 } from "@mui/material";
 import { useState, useEffect, useCallback } from "react";
 import { Delete as DeleteIcon } from "@mui/icons-material";
 import InsertDriveFileIcon from "@mui/icons-material/InsertDriveFile";
 import { fileSize } from "./utils";
-import { MetaFile, CostItem } from "./types";
+import { MetaFile, CostItem, ParseIssue } from "./types";
 import SendIcon from "@mui/icons-material/Send";
+import DownloadIcon from "@mui/icons-material/Download";
+import AutoFixHighIcon from "@mui/icons-material/AutoFixHigh";
 import { useKafka } from "../../contexts/KafkaContext";
 import EbkpMapper from "./EbkpMapper";
+import ParseReport from "./ParseReport";
+import { exportCostItemsToExcel } from "./excelExport";
+import { PriceEscalation } from "../PriceIndex/types";
+import { CostBenchmarks } from "../ReferenceQuantities/types";
 
 // Helper function to get all items from a hierarchical structure
 const getAllItems = (items: CostItem[]): CostItem[] => {
@@ -41,6 +48,12 @@ interface FileInfoProps {
   metaFile: MetaFile;
   onRemoveFile: () => void;
   onSendData: () => void;
+  onIssueSelect?: (issue: ParseIssue) => void;
+  // Empty Kennwert cells the reference library can fill
+  prefillableCount?: number;
+  onPrefillKennwerte?: () => void;
+  priceEscalation?: PriceEscalation | null;
+  costBenchmarks?: CostBenchmarks | null;
 }
 
 // Define a type to track code mapping results for diagnostics
@@ -48,18 +61,24 @@ interface MappingResult {
   excelCode: string;
   normalizedCode: string;
   foundElements: number;
-  totalArea: number;
+  totalQuantity: number;
+  unit: string;
   status: "success" | "warning" | "error";
   message?: string;
 }
 
-const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
-  const {
-    connectionStatus,
-    sendMessage,
-    registerMessageHandler,
-    getProjectElements,
-  } = useKafka();
+const FileInfo = ({
+  metaFile,
+  onRemoveFile,
+  onSendData,
+  onIssueSelect,
+  prefillableCount = 0,
+  onPrefillKennwerte,
+  priceEscalation = null,
+  costBenchmarks = null,
+}: FileInfoProps) => {
+  const { connectionStatus, getProjectElements, getMatchingOverrides } =
+    useKafka();
 
   const [notification, setNotification] = useState<{
     open: boolean;
@@ -91,65 +110,6 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
   // Fixed project name - could be made configurable in the future
   const currentProject = "Recyclingzentrum Juch-Areal";
 
-  // Function to request re-application of cost data on the server
-  const requestReapplyCostData = useCallback(async () => {
-    if (connectionStatus !== "CONNECTED") {
-      setNotification({
-        open: true,
-        message: "Cannot request reapply: Not connected.",
-        severity: "warning",
-      });
-      return;
-    }
-
-    await new Promise<void>((resolve, reject) => {
-      const reapplyMessageId =
-        "reapply_" +
-        Date.now().toString() +
-        Math.random().toString(36).substring(2, 10);
-
-      const reapplyMessage = {
-        type: "reapply_costs",
-        timestamp: new Date().toISOString(),
-        messageId: reapplyMessageId,
-      };
-
-      // Register handler with KafkaContext
-      registerMessageHandler(reapplyMessageId, (response) => {
-        if (response.status === "success") {
-          setNotification({
-            open: true,
-            message: "Server re-applied cost data.",
-            severity: "success",
-          });
-          resolve();
-        } else {
-          setNotification({
-            open: true,
-            message: "Error requesting re-apply.",
-            severity: "error",
-          });
-          reject(new Error("Re-apply request failed"));
-        }
-      });
-
-      try {
-        sendMessage(JSON.stringify(reapplyMessage));
-      } catch (error) {
-        reject(error instanceof Error ? error : new Error(String(error)));
-      }
-    }).catch((error) => {
-      setNotification({
-        open: true,
-        message:
-          error instanceof Error
-            ? error.message
-            : "Unknown error sending re-apply request",
-        severity: "error",
-      });
-    });
-  }, [connectionStatus, sendMessage, registerMessageHandler]);
-
   // Define initializeMapper first
   const initializeMapper = useCallback(async () => {
     console.log("Initializing EbkpMapper with project:", currentProject);
@@ -167,8 +127,11 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
         return;
       }
 
-      // Create new mapper
+      // Create new mapper, applying the manual matches of the project
       const newMapper = new EbkpMapper(elements);
+      newMapper.setMatchingOverrides(
+        await getMatchingOverrides(currentProject)
+      );
       setMapper(newMapper);
 
       // Get statistics
@@ -190,7 +153,12 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
         severity: "error",
       });
     }
-  }, [currentProject, getProjectElements, setNotification]);
+  }, [
+    currentProject,
+    getProjectElements,
+    getMatchingOverrides,
+    setNotification,
+  ]);
 
   // Function to completely reset the mapper state, with initializeMapper as dependency
   const resetMapperState = useCallback(() => {
@@ -282,18 +250,20 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
         allItems.forEach((item) => {
           if (item.ebkp && item.ebkp !== "") {
             const normalizedCode = mapper.normalizeEbkpCode(item.ebkp);
-            const elements = mapper.getElementsForEbkp(item.ebkp);
-            const totalArea = mapper.getTotalAreaForEbkp(item.ebkp);
+            const { elements, unit, total, issue } = mapper.resolveQuantity(
+              item.ebkp,
+              item.einheit
+            );
 
             let status: "success" | "warning" | "error";
             let message = "";
 
-            if (elements.length > 0 && totalArea > 0) {
+            if (elements.length > 0 && !issue) {
               status = "success";
               message = `Mapped to ${elements.length} elements`;
             } else if (elements.length > 0) {
               status = "warning";
-              message = "Elements found but no area/quantity data";
+              message = issue || "Elements found but no quantity data";
             } else {
               status = "error";
               message = "No matching elements found";
@@ -303,7 +273,8 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
               excelCode: item.ebkp,
               normalizedCode,
               foundElements: elements.length,
-              totalArea,
+              totalQuantity: total,
+              unit,
               status,
               message,
             });
@@ -342,13 +313,6 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
           message: `Successfully mapped ${updatedItemsCount} quantities from BIM model`,
           severity: "success",
         });
-
-        // Request reapply to update the server
-        if (updatedItemsCount > 0) {
-          setTimeout(() => {
-            requestReapplyCostData().catch(() => {});
-          }, 500);
-        }
       } catch (error) {
         console.error("Error mapping quantities:", error);
         setNotification({
@@ -360,7 +324,33 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
         });
       }
     }
-  }, [mapper, metaFile, requestReapplyCostData]);
+  }, [mapper, metaFile]);
+
+  // Export the current cost tree, including the mapped BIM quantities
+  const handleExport = async () => {
+    const costItems = Array.isArray(metaFile.data)
+      ? metaFile.data
+      : metaFile.data.data;
+    const baseName = metaFile.file.name.replace(/\.[^.]+$/, "");
+
+    try {
+      await exportCostItemsToExcel(
+        costItems,
+        `${baseName}_export.xlsx`,
+        priceEscalation,
+        costBenchmarks
+      );
+    } catch (error) {
+      console.error("Error exporting cost data:", error);
+      setNotification({
+        open: true,
+        message: `Error exporting cost data: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        severity: "error",
+      });
+    }
+  };
 
   const handleCloseNotification = (
     _event?: React.SyntheticEvent | Event,
@@ -372,6 +362,24 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
     setNotification({ ...notification, open: false });
   };
 
+  // Nominal and escalated cost of the mapped quantities
+  const renderCostTotals = (
+    mapper: EbkpMapper,
+    escalation: PriceEscalation
+  ) => {
+    const costItems = Array.isArray(metaFile.data)
+      ? metaFile.data
+      : metaFile.data.data;
+    const format = (value: number) =>
+      value.toLocaleString("de-CH", { maximumFractionDigits: 0 });
+
+    return `${format(
+      mapper.calculateTotalCost(costItems)
+    )} CHF nominal, ${format(
+      mapper.calculateTotalCost(costItems, escalation.factor)
+    )} CHF escalated to ${escalation.targetDate}`;
+  };
+
   // Display statistics about the mapping
   const renderMappingStatus = () => {
     if (mappingStats.totalElements > 0) {
@@ -385,6 +393,11 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
               {mappingStats.mappedItems} items updated with BIM quantities
             </Typography>
           )}
+          {mapper && mappingStats.mappedItems > 0 && priceEscalation && (
+            <Typography variant="body2" sx={{ color: "#666" }}>
+              {renderCostTotals(mapper, priceEscalation)}
+            </Typography>
+          )}
           <Button
             size="small"
             variant="text"
@@ -413,7 +426,7 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
                 <TableCell>Excel Code</TableCell>
                 <TableCell>Normalized</TableCell>
                 <TableCell align="right">Elements</TableCell>
-                <TableCell align="right">Area (m²)</TableCell>
+                <TableCell align="right">Quantity</TableCell>
                 <TableCell>Status</TableCell>
               </TableRow>
             </TableHead>
@@ -434,7 +447,7 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
                   <TableCell>{result.normalizedCode}</TableCell>
                   <TableCell align="right">{result.foundElements}</TableCell>
                   <TableCell align="right">
-                    {result.totalArea.toFixed(2)}
+                    {result.totalQuantity.toFixed(2)} {result.unit}
                   </TableCell>
                   <TableCell>
                     <Typography
@@ -468,6 +481,9 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
           <Typography sx={{ color: "#666" }}>{metaFile.file.name}</Typography>
           <Typography variant="body2" sx={{ color: "#888" }} className="pb-2">
             {fileSize(metaFile.file.size || 0)}
+            {metaFile.sheetNames &&
+              metaFile.sheetNames.length > 1 &&
+              ` · Blätter: ${metaFile.sheetNames.join(", ")}`}
           </Typography>
           {renderMappingStatus()}
         </div>
@@ -475,6 +491,26 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
           <IconButton edge="end" onClick={onRemoveFile}>
             <DeleteIcon />
           </IconButton>
+          <Button
+            variant="outlined"
+            color="primary"
+            onClick={handleExport}
+            startIcon={<DownloadIcon />}
+          >
+            Export
+          </Button>
+          {onPrefillKennwerte && prefillableCount > 0 && (
+            <Tooltip title="Leere Kennwerte mit dem Median der Referenzprojekte füllen">
+              <Button
+                variant="outlined"
+                color="primary"
+                onClick={onPrefillKennwerte}
+                startIcon={<AutoFixHighIcon />}
+              >
+                {prefillableCount} Kennwerte ergänzen
+              </Button>
+            </Tooltip>
+          )}
           <Button
             variant="contained"
             color="primary"
@@ -487,6 +523,11 @@ const FileInfo = ({ metaFile, onRemoveFile, onSendData }: FileInfoProps) => {
         </ListItemIcon>
       </ListItem>
 
+      <ParseReport
+        issues={metaFile.parseReport || []}
+        onSelect={onIssueSelect}
+      />
+
       {renderDiagnostics()}
 
       <Divider sx={{ my: 2 }} />
@@ -6,19 +6,23 @@ import {
   TableBody,
   Box,
   Chip,
+  ToggleButton,
+  ToggleButtonGroup,
 } from "@mui/material";
-import { CostItem, MetaFile } from "./types";
+import { CostItem, CostPivot, MetaFile } from "./types";
+import { BudgetStatus } from "../BudgetTargets/types";
 import { columnWidths } from "./styles";
-import { formatNumber } from "./utils";
+import { formatNumber, getLevelCostRecords } from "./utils";
 import TableHeader from "./TableHeader";
 import CostTableRow from "./CostTableRow";
+import LevelPivotTable from "./LevelPivotTable";
 import SyncIcon from "@mui/icons-material/Sync";
 import {
   createTableContainerStyle,
   tableStyle,
   createCellStyles,
 } from "./styles";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 
 // Define CellStyles interface to match the one used in CostTableRow
 interface CellStyles {
@@ -42,6 +46,9 @@ interface HierarchicalTableProps {
   totalElements: number;
   isLoading: boolean;
   mappingMessage: string;
+  highlightedCode?: string | null;
+  projectName?: string;
+  budgetStatus?: BudgetStatus[];
 }
 
 const HierarchicalTable = ({
@@ -50,10 +57,16 @@ const HierarchicalTable = ({
   toggleRow,
   isMobile,
   totalElements,
+  highlightedCode,
+  projectName,
+  budgetStatus = [],
 }: HierarchicalTableProps) => {
   // Cell styles for alignment and formatting
   const cellStyles: CellStyles = createCellStyles(isMobile);
 
+  // Axes of the table, the eBKP tree or the cost per storey
+  const [pivot, setPivot] = useState<CostPivot>("ebkp");
+
   // Helper function to get the data array safely
   const getDataArray = (): CostItem[] => {
     if (!metaFile.data) return [];
@@ -123,6 +136,21 @@ const HierarchicalTable = ({
     }
   }, [metaFile.data, toggleRow, expandedRows]);
 
+  // Scroll the row selected in the parse report into view
+  useEffect(() => {
+    if (!highlightedCode) return;
+
+    // Wait for the expand animation of the parent rows
+    const timeoutId = setTimeout(() => {
+      const row = document.querySelector(
+        `tr[data-ebkp="${CSS.escape(highlightedCode)}"]`
+      );
+      row?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [highlightedCode]);
+
   // Get count of items with BIM data
   const bimItemsCount = countItemsWithBimData(getDataArray());
 
@@ -152,17 +180,28 @@ const HierarchicalTable = ({
         </Alert>
       )}
 
-      {/* BIM Data Indicator */}
-      {bimItemsCount > 0 && (
-        <Box
-          sx={{
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "flex-end",
-            mb: 1,
-            mt: 1,
-          }}
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          mb: 1,
+          mt: 1,
+        }}
+      >
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={pivot}
+          onChange={(_, value: CostPivot | null) => value && setPivot(value)}
         >
+          <ToggleButton value="ebkp">eBKP</ToggleButton>
+          <ToggleButton value="ebkp_level">eBKP → Geschoss</ToggleButton>
+          <ToggleButton value="level_ebkp">Geschoss → eBKP</ToggleButton>
+        </ToggleButtonGroup>
+
+        {/* BIM Data Indicator */}
+        {bimItemsCount > 0 && (
           <Chip
             icon={<SyncIcon />}
             size="small"
@@ -174,70 +213,81 @@ const HierarchicalTable = ({
               "& .MuiChip-label": { fontWeight: 500 },
             }}
           />
-        </Box>
-      )}
+        )}
+      </Box>
 
-      <TableContainer
-        component={Paper}
-        elevation={1}
-        sx={{
-          ...createTableContainerStyle(isMobile),
-          maxHeight: "none",
-          overflowY: "visible",
-        }}
-      >
-        <Table
-          stickyHeader
-          size="small"
+      {pivot !== "ebkp" ? (
+        <LevelPivotTable
+          records={getLevelCostRecords(dataArray)}
+          pivot={pivot}
+          isMobile={isMobile}
+        />
+      ) : (
+        <TableContainer
+          component={Paper}
+          elevation={1}
           sx={{
-            flexGrow: 1,
-            ...tableStyle,
-            "& td": {
-              padding: isMobile ? "8px 0 8px 8px" : "16px 0 16px 8px",
-            },
-            "& th": {
-              padding: isMobile ? "8px 0 8px 8px" : "16px 0 16px 8px",
-            },
+            ...createTableContainerStyle(isMobile),
+            maxHeight: "none",
+            overflowY: "visible",
           }}
         >
-          {/* Use HTML colgroup element directly, not as a Material-UI component */}
-          <colgroup>
-            <col style={{ width: columnWidths.expandIcon }} />
-            <col style={{ width: columnWidths.ebkp }} />
-            <col style={{ width: columnWidths.bezeichnung }} />
-            <col style={{ width: columnWidths.menge }} />
-            <col style={{ width: columnWidths.einheit }} />
-            <col style={{ width: columnWidths.kennwert }} />
-            <col style={{ width: columnWidths.totalChf }} />
-            <col style={{ width: columnWidths.kommentar }} />
-          </colgroup>
-
-          <TableHeader isMobile={isMobile} cellStyles={cellStyles} />
-
-          <TableBody>
-            {dataArray.map((parentItem: CostItem) => (
-              <CostTableRow
-                key={
-                  parentItem.ebkp ||
-                  `row-${Math.random().toString(36).substring(2)}`
-                }
-                item={parentItem}
-                expanded={
-                  parentItem.ebkp
-                    ? expandedRows[parentItem.ebkp] || false
-                    : false
-                }
-                onToggle={toggleRow}
-                expandedRows={expandedRows}
-                isMobile={isMobile}
-                cellStyles={cellStyles}
-                renderNumber={renderNumber}
-                totalElements={totalElements}
-              />
-            ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
+          <Table
+            stickyHeader
+            size="small"
+            sx={{
+              flexGrow: 1,
+              ...tableStyle,
+              "& td": {
+                padding: isMobile ? "8px 0 8px 8px" : "16px 0 16px 8px",
+              },
+              "& th": {
+                padding: isMobile ? "8px 0 8px 8px" : "16px 0 16px 8px",
+              },
+            }}
+          >
+            {/* Use HTML colgroup element directly, not as a Material-UI component */}
+            <colgroup>
+              <col style={{ width: columnWidths.expandIcon }} />
+              <col style={{ width: columnWidths.ebkp }} />
+              <col style={{ width: columnWidths.bezeichnung }} />
+              <col style={{ width: columnWidths.menge }} />
+              <col style={{ width: columnWidths.einheit }} />
+              <col style={{ width: columnWidths.kennwert }} />
+              <col style={{ width: columnWidths.totalChf }} />
+              <col style={{ width: columnWidths.kommentar }} />
+            </colgroup>
+
+            <TableHeader isMobile={isMobile} cellStyles={cellStyles} />
+
+            <TableBody>
+              {dataArray.map((parentItem: CostItem) => (
+                <CostTableRow
+                  key={
+                    parentItem.ebkp ||
+                    `row-${Math.random().toString(36).substring(2)}`
+                  }
+                  item={parentItem}
+                  expanded={
+                    parentItem.ebkp
+                      ? expandedRows[parentItem.ebkp] || false
+                      : false
+                  }
+                  onToggle={toggleRow}
+                  expandedRows={expandedRows}
+                  isMobile={isMobile}
+                  cellStyles={cellStyles}
+                  renderNumber={renderNumber}
+                  totalElements={totalElements}
+                  highlightedCode={highlightedCode}
+                  projectName={projectName}
+                  budgetStatus={budgetStatus}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
     </>
   );
 };
@@ -0,0 +1,191 @@
+import { useMemo, useState } from "react";
+import {
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
+import KeyboardArrowRightIcon from "@mui/icons-material/KeyboardArrowRight";
+import { LevelCostRecord } from "./types";
+import { formatNumber } from "./utils";
+
+interface LevelPivotTableProps {
+  records: LevelCostRecord[];
+  pivot: "ebkp_level" | "level_ebkp";
+  isMobile: boolean;
+}
+
+// Records of one row of the outer axis
+interface PivotGroup {
+  key: string;
+  label: string;
+  records: LevelCostRecord[];
+  cost: number;
+  elementCount: number;
+}
+
+const getLevelLabel = (level: string) => level || "Ohne Geschoss";
+
+// Group the records by the outer axis, eBKP codes in file order and
+// storeys by name with the rows without a storey last
+const groupRecords = (
+  records: LevelCostRecord[],
+  pivot: LevelPivotTableProps["pivot"]
+): PivotGroup[] => {
+  const groups = new Map<string, PivotGroup>();
+
+  records.forEach((record) => {
+    const key = pivot === "ebkp_level" ? record.ebkp : record.level;
+    const group = groups.get(key) || {
+      key,
+      label:
+        pivot === "ebkp_level"
+          ? `${record.ebkp} ${record.bezeichnung}`.trim()
+          : getLevelLabel(record.level),
+      records: [],
+      cost: 0,
+      elementCount: 0,
+    };
+    group.records.push(record);
+    group.cost += record.cost;
+    group.elementCount += record.elementCount;
+    groups.set(key, group);
+  });
+
+  const result = Array.from(groups.values());
+  if (pivot === "level_ebkp") {
+    result.sort((a, b) => {
+      if (!a.key || !b.key) return a.key ? -1 : b.key ? 1 : 0;
+      return a.key.localeCompare(b.key, "de-CH", { numeric: true });
+    });
+  }
+  return result;
+};
+
+const LevelPivotTable = ({
+  records,
+  pivot,
+  isMobile,
+}: LevelPivotTableProps) => {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const groups = useMemo(() => groupRecords(records, pivot), [records, pivot]);
+  const total = groups.reduce((sum, group) => sum + group.cost, 0);
+  const cellPadding = isMobile ? "8px" : "12px 8px";
+
+  return (
+    <TableContainer component={Paper} elevation={1}>
+      <Table size="small" sx={{ "& td, & th": { padding: cellPadding } }}>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ width: 40 }} />
+            <TableCell>
+              {pivot === "ebkp_level" ? "eBKP / Geschoss" : "Geschoss / eBKP"}
+            </TableCell>
+            <TableCell align="right">Menge</TableCell>
+            <TableCell>Einheit</TableCell>
+            <TableCell align="right">Kennwert</TableCell>
+            <TableCell align="right">Elemente</TableCell>
+            <TableCell align="right">Total CHF</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {groups.map((group) => {
+            const open = expanded[group.key] || false;
+            // Quantities only add up within one eBKP code and unit
+            const groupQuantity =
+              pivot === "ebkp_level"
+                ? group.records.reduce(
+                    (sum, record) => sum + record.quantity,
+                    0
+                  )
+                : null;
+
+            return [
+              <TableRow
+                key={group.key}
+                hover
+                sx={{ cursor: "pointer", "& td": { fontWeight: 500 } }}
+                onClick={() =>
+                  setExpanded((prev) => ({ ...prev, [group.key]: !open }))
+                }
+              >
+                <TableCell>
+                  <IconButton size="small">
+                    {open ? (
+                      <KeyboardArrowDownIcon fontSize="small" />
+                    ) : (
+                      <KeyboardArrowRightIcon fontSize="small" />
+                    )}
+                  </IconButton>
+                </TableCell>
+                <TableCell>{group.label}</TableCell>
+                <TableCell align="right">
+                  {formatNumber(groupQuantity)}
+                </TableCell>
+                <TableCell>
+                  {pivot === "ebkp_level" ? group.records[0].einheit : ""}
+                </TableCell>
+                <TableCell align="right">
+                  {pivot === "ebkp_level"
+                    ? formatNumber(group.records[0].kennwert)
+                    : ""}
+                </TableCell>
+                <TableCell align="right">{group.elementCount || ""}</TableCell>
+                <TableCell align="right">
+                  {formatNumber(group.cost, 0)}
+                </TableCell>
+              </TableRow>,
+              ...(open
+                ? group.records.map((record, index) => (
+                    <TableRow key={`${group.key}-${index}`}>
+                      <TableCell />
+                      <TableCell sx={{ pl: 4 }}>
+                        {pivot === "ebkp_level"
+                          ? getLevelLabel(record.level)
+                          : `${record.ebkp} ${record.bezeichnung}`.trim()}
+                      </TableCell>
+                      <TableCell align="right">
+                        {formatNumber(record.quantity)}
+                      </TableCell>
+                      <TableCell>{record.einheit}</TableCell>
+                      <TableCell align="right">
+                        {formatNumber(record.kennwert)}
+                      </TableCell>
+                      <TableCell align="right">
+                        {record.elementCount || ""}
+                      </TableCell>
+                      <TableCell align="right">
+                        {formatNumber(record.cost, 0)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                : []),
+            ];
+          })}
+          <TableRow>
+            <TableCell />
+            <TableCell colSpan={5}>
+              <Typography variant="body2" fontWeight="bold">
+                Total
+              </Typography>
+            </TableCell>
+            <TableCell align="right">
+              <Typography variant="body2" fontWeight="bold">
+                {formatNumber(total, 0)}
+              </Typography>
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default LevelPivotTable;
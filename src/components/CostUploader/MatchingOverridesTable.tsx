@@ -0,0 +1,152 @@
+import {
+  Autocomplete,
+  Checkbox,
+  Chip,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import RestoreIcon from "@mui/icons-material/Restore";
+import { CostItem, MatchingOverride } from "./types";
+
+interface MatchingOverridesTableProps {
+  items: CostItem[];
+  modelCodes: string[];
+  // Automatically matched model codes by Excel code
+  autoMatches: Record<string, string[]>;
+  // Manual overrides by Excel code
+  overrides: Record<string, MatchingOverride>;
+  getKey: (ebkp: string) => string;
+  onChange: (excelCode: string, override: MatchingOverride | null) => void;
+}
+
+const MatchingOverridesTable = ({
+  items,
+  modelCodes,
+  autoMatches,
+  overrides,
+  getKey,
+  onChange,
+}: MatchingOverridesTableProps) => {
+  const renderStatus = (
+    override: MatchingOverride | undefined,
+    codes: string[]
+  ) => {
+    if (override?.excluded) {
+      return <Chip size="small" label="Ausgeschlossen" variant="outlined" />;
+    }
+    if (override) {
+      return (
+        <Chip size="small" label="Manuell" color="primary" variant="outlined" />
+      );
+    }
+    if (codes.length > 0) {
+      return (
+        <Chip
+          size="small"
+          label="Automatisch"
+          color="success"
+          variant="outlined"
+        />
+      );
+    }
+    return (
+      <Chip
+        size="small"
+        label="Keine Zuordnung"
+        color="warning"
+        variant="outlined"
+      />
+    );
+  };
+
+  return (
+    <TableContainer sx={{ maxHeight: 500 }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell>eBKP-Code</TableCell>
+            <TableCell>Bezeichnung</TableCell>
+            <TableCell sx={{ minWidth: 280 }}>Modell-Codes</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell align="center">Ausschliessen</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {items.map((item, index) => {
+            const excelCode = item.ebkp as string;
+            const key = getKey(excelCode);
+            const override = overrides[key];
+            const codes = override
+              ? override.modelCodes
+              : autoMatches[key] || [];
+
+            return (
+              <TableRow key={`${key}-${index}`} hover>
+                <TableCell>{excelCode}</TableCell>
+                <TableCell>{item.bezeichnung || "Unbekannt"}</TableCell>
+                <TableCell>
+                  <Autocomplete
+                    multiple
+                    size="small"
+                    options={modelCodes}
+                    value={codes}
+                    disabled={override?.excluded}
+                    onChange={(_, value) =>
+                      onChange(excelCode, {
+                        excelCode,
+                        modelCodes: value,
+                        excluded: false,
+                      })
+                    }
+                    renderInput={(params) => (
+                      <TextField
+                        {...params}
+                        placeholder={codes.length === 0 ? "Code wählen" : ""}
+                      />
+                    )}
+                  />
+                </TableCell>
+                <TableCell>{renderStatus(override, codes)}</TableCell>
+                <TableCell align="center">
+                  <Checkbox
+                    size="small"
+                    checked={!!override?.excluded}
+                    onChange={(e) =>
+                      onChange(excelCode, {
+                        excelCode,
+                        modelCodes: codes,
+                        excluded: e.target.checked,
+                      })
+                    }
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  {override && (
+                    <Tooltip title="Automatische Zuordnung verwenden">
+                      <IconButton
+                        size="small"
+                        onClick={() => onChange(excelCode, null)}
+                      >
+                        <RestoreIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default MatchingOverridesTable;
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Chip,
+  Collapse,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import { ParseIssue, ParseIssueSeverity } from "./types";
+
+interface ParseReportProps {
+  issues: ParseIssue[];
+  onSelect?: (issue: ParseIssue) => void;
+}
+
+const severityLabels: Record<ParseIssueSeverity, string> = {
+  error: "Fehler",
+  warning: "Warnung",
+  info: "Hinweis",
+};
+
+const ParseReport = ({ issues, onSelect }: ParseReportProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (issues.length === 0) return null;
+
+  const countBySeverity = (severity: ParseIssueSeverity) =>
+    issues.filter((issue) => issue.severity === severity).length;
+
+  const errorCount = countBySeverity("error");
+  const warningCount = countBySeverity("warning");
+  const showSheet = issues.some((issue) => issue.sheet);
+
+  return (
+    <Box sx={{ mt: 1, mb: 1 }}>
+      <Alert
+        severity={
+          errorCount > 0 ? "error" : warningCount > 0 ? "warning" : "info"
+        }
+        action={
+          <Button
+            color="inherit"
+            size="small"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? "Ausblenden" : "Anzeigen"}
+          </Button>
+        }
+      >
+        <AlertTitle>Einlesebericht</AlertTitle>
+        {issues.length} Meldungen beim Einlesen der Datei ({errorCount} Fehler,{" "}
+        {warningCount} Warnungen)
+      </Alert>
+
+      <Collapse in={expanded} timeout="auto" unmountOnExit>
+        <TableContainer component={Paper} sx={{ maxHeight: 300, mt: 1 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Status</TableCell>
+                {showSheet && <TableCell>Blatt</TableCell>}
+                <TableCell align="right">Zeile</TableCell>
+                <TableCell>Spalte</TableCell>
+                <TableCell>eBKP</TableCell>
+                <TableCell>Meldung</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {issues.map((issue, index) => (
+                <TableRow
+                  key={index}
+                  hover={!!issue.ebkp}
+                  onClick={() => issue.ebkp && onSelect?.(issue)}
+                  sx={{
+                    cursor: issue.ebkp && onSelect ? "pointer" : undefined,
+                  }}
+                >
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={severityLabels[issue.severity]}
+                      color={issue.severity}
+                      variant="outlined"
+                    />
+                  </TableCell>
+                  {showSheet && <TableCell>{issue.sheet}</TableCell>}
+                  <TableCell align="right">{issue.row}</TableCell>
+                  <TableCell>{issue.column}</TableCell>
+                  <TableCell>{issue.ebkp}</TableCell>
+                  <TableCell>{issue.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default ParseReport;
@@ -30,8 +30,20 @@ import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
 import CheckCircleIcon from "@mui/icons-material/CheckCircle";
 import WarningIcon from "@mui/icons-material/Warning";
 import InfoIcon from "@mui/icons-material/Info";
-import { MetaFile, CostItem } from "./types";
+import {
+  MetaFile,
+  CostItem,
+  MatchingOverride,
+  UnitCostReference,
+} from "./types";
+import {
+  findUnitCostReference,
+  getReferenceOutlier,
+  ReferenceOutlier,
+} from "./utils";
 import { useKafka } from "../../contexts/KafkaContext";
+import MatchingOverridesTable from "./MatchingOverridesTable";
+import { PriceEscalation } from "../PriceIndex/types";
 
 // Define a more specific type for the enhanced data passed to onConfirm
 // Based on the structure created in handleConfirm
@@ -70,6 +82,11 @@ interface PreviewModalProps {
   onConfirm: (matches: EnhancedCostItem[]) => void; // Use the specific type here
   metaFile: MetaFile | null;
   totalCost: number;
+  projectName: string;
+  // Kennwerte of the reference projects by eBKP key
+  unitCostReferences?: Record<string, UnitCostReference>;
+  // Escalation of the Kennwerte to the project's target date, if any
+  priceEscalation?: PriceEscalation | null;
 }
 
 interface MatchInfo {
@@ -77,6 +94,8 @@ interface MatchInfo {
   costUnit: number;
   elementCount: number;
   excelItem?: CostItem;
+  // Assigned by hand on the matching tab
+  manual?: boolean;
 }
 
 interface ElementInfo {
@@ -86,6 +105,13 @@ interface ElementInfo {
   costCodes: string[];
 }
 
+// Uploaded Kennwert far outside the range of the reference projects
+interface ReferenceOutlierInfo {
+  item: CostItem;
+  reference: UnitCostReference;
+  outlier: ReferenceOutlier;
+}
+
 // Define the structure for the WebSocket response
 interface WebSocketResponse {
   matchingCodes: { code: string; unitCost: number; elementCount: number }[];
@@ -151,13 +177,28 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
   onConfirm,
   metaFile,
   totalCost,
+  projectName,
+  unitCostReferences = {},
+  priceEscalation = null,
 }) => {
   const [loading, setLoading] = useState(false);
   const [elementInfo, setElementInfo] = useState<ElementInfo | null>(null);
   const [potentialMatches, setPotentialMatches] = useState<MatchInfo[]>([]);
   const [expandedItems, setExpandedItems] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState(0);
-  const { getAreaData } = useKafka();
+  const { getAreaData, getMatchingOverrides, saveMatchingOverrides } =
+    useKafka();
+
+  // Manual matching overrides by normalized Excel code
+  const [overrides, setOverrides] = useState<Record<string, MatchingOverride>>(
+    {}
+  );
+  const [overridesChanged, setOverridesChanged] = useState(false);
+  const [savingOverrides, setSavingOverrides] = useState(false);
+  const [overridesError, setOverridesError] = useState<string | null>(null);
+
+  // eBKP codes that were found on more than one of the merged sheets
+  const sheetConflicts = metaFile?.sheetConflicts || [];
 
   // Extract cost data items from metaFile
   const costItems = metaFile?.data
@@ -181,6 +222,22 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
   // Get all cost items (flattened)
   const allCostItems = getAllCostItems(costItems);
 
+  // Uploaded Kennwerte far outside the range of the reference projects
+  const referenceOutliers = allCostItems.reduce(
+    (acc: ReferenceOutlierInfo[], item) => {
+      if (!item.kennwert || item.kennwertFromReference) return acc;
+
+      const reference = findUnitCostReference(unitCostReferences, item);
+      const outlier =
+        reference && getReferenceOutlier(item.kennwert, reference);
+      if (reference && outlier) {
+        acc.push({ item, reference, outlier });
+      }
+      return acc;
+    },
+    []
+  );
+
   // Create more structured cost data for better lookup
   const costItemsByEbkp = allCostItems.reduce(
     (acc: { [key: string]: CostItem }, item) => {
@@ -201,6 +258,56 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
     );
   };
 
+  // Load the saved manual matches of the project when the modal opens
+  useEffect(() => {
+    if (!open) return;
+
+    setOverridesChanged(false);
+    setOverridesError(null);
+    getMatchingOverrides(projectName).then((loaded) =>
+      setOverrides(
+        Object.fromEntries(
+          loaded.map((override) => [
+            normalizeEbkpCode(override.excelCode),
+            override,
+          ])
+        )
+      )
+    );
+  }, [open, projectName, getMatchingOverrides]);
+
+  // Update or remove the manual match of an Excel code
+  const handleOverrideChange = (
+    excelCode: string,
+    override: MatchingOverride | null
+  ) => {
+    const key = normalizeEbkpCode(excelCode);
+    setOverrides((prev) => {
+      const next = { ...prev };
+      if (override) {
+        next[key] = override;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+    setOverridesChanged(true);
+  };
+
+  // Persist the manual matches so later QTO updates reuse them
+  const persistOverrides = async () => {
+    setSavingOverrides(true);
+    setOverridesError(null);
+    try {
+      await saveMatchingOverrides(projectName, Object.values(overrides));
+      setOverridesChanged(false);
+    } catch (error) {
+      setOverridesError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSavingOverrides(false);
+    }
+  };
+
   // Immediately analyze the data when the modal opens
   useEffect(() => {
     if (open && metaFile) {
@@ -446,10 +553,47 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
     }
   };
 
+  // Automatically matched model codes by Excel code
+  const autoMatches = potentialMatches.reduce(
+    (acc: Record<string, string[]>, match) => {
+      if (match.excelItem?.ebkp) {
+        const key = normalizeEbkpCode(match.excelItem.ebkp);
+        acc[key] = [...(acc[key] || []), match.code];
+      }
+      return acc;
+    },
+    {}
+  );
+
+  // Model codes that can be assigned by hand
+  const modelCodes = Array.from(
+    new Set((elementInfo?.ebkphCodes || []).map(normalizeEbkpCode))
+  ).sort();
+
+  // Replace the automatic matches of overridden Excel codes by the manual ones
+  const effectiveMatches: MatchInfo[] = [
+    ...potentialMatches.filter(
+      (match) =>
+        !match.excelItem?.ebkp ||
+        !overrides[normalizeEbkpCode(match.excelItem.ebkp)]
+    ),
+    ...Object.entries(overrides).flatMap(([key, override]) => {
+      const excelItem = costItemsByEbkp[key];
+      if (override.excluded || !excelItem) return [];
+      return override.modelCodes.map((code) => ({
+        code,
+        costUnit: excelItem.kennwert || 0,
+        elementCount: getAreaData(code)?.count || 1,
+        excelItem,
+        manual: true,
+      }));
+    }),
+  ];
+
   // Group potential matches by primary code
   const groupedMatches: { [key: string]: MatchInfo[] } = {};
 
-  potentialMatches.forEach((match) => {
+  effectiveMatches.forEach((match) => {
     // Group by first part of the code (e.g., C2 from C2.1)
     const group = match.code.match(/^([A-Z]\d+)/)?.[1] || match.code;
 
@@ -463,7 +607,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
   // Calculate stats for the preview
   const totalElementsToUpdate = elementInfo ? elementInfo.elementCount : 0;
   const matchedCodes = new Set(
-    potentialMatches.map((m) => normalizeEbkpCode(m.code))
+    effectiveMatches.map((m) => normalizeEbkpCode(m.code))
   );
 
   // Get unique Excel codes (normalized)
@@ -480,14 +624,20 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
       ? Math.round((totalCodesWithMatches / totalCodesInExcel) * 100)
       : 0;
 
+  // Kennwerte are sent as uploaded, totals are shown escalated to the
+  // target date of the project
+  const escalationFactor = priceEscalation ? priceEscalation.factor : 1;
+  const escalatedTotalCost = totalCost * escalationFactor;
+
   // Calculate cost by main code group
   const costByGroup = Object.entries(groupedMatches).reduce(
     (acc: { [key: string]: number }, [group, matches]) => {
       // Sum up all Total CHF values for this group
-      acc[group] = matches.reduce(
-        (sum, match) => sum + match.costUnit * match.elementCount,
-        0
-      );
+      acc[group] =
+        matches.reduce(
+          (sum, match) => sum + match.costUnit * match.elementCount,
+          0
+        ) * escalationFactor;
       return acc;
     },
     {}
@@ -499,7 +649,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
     setLoading(true);
 
     // Log the number of matches with zero unit cost that will be ignored
-    const zeroUnitCostCount = potentialMatches.filter(
+    const zeroUnitCostCount = effectiveMatches.filter(
       (m) => !m.costUnit || m.costUnit <= 0
     ).length;
     if (zeroUnitCostCount > 0) {
@@ -510,7 +660,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
     // We only need to send QTO elements that matched with costs
     // IMPORTANT: The Excel data has already been saved to costData on file upload
     // We're only updating costElements here, NOT deleting/replacing costData
-    const enhancedData: EnhancedCostItem[] = potentialMatches
+    const enhancedData: EnhancedCostItem[] = effectiveMatches
       .filter((match) => match.costUnit > 0) // Skip items with zero cost
       .map((match) => {
         const costItem = match.excelItem || {};
@@ -557,6 +707,13 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
       `Sending ${enhancedData.length} matched QTO elements to update costElements collection (Excel data already saved to costData during upload - NOT deleting costData here)`
     );
 
+    // Keep manual matches that were not saved explicitly
+    if (overridesChanged) {
+      saveMatchingOverrides(projectName, Object.values(overrides)).catch(
+        (error) => console.error("Error saving matching overrides:", error)
+      );
+    }
+
     // First close the modal to avoid blocking UI
     onClose();
 
@@ -582,6 +739,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
           <Tab label="Übersicht" />
           <Tab label="Details" />
           <Tab label="Nicht gefundene Codes" />
+          <Tab label="Zuordnung" />
         </Tabs>
       </DialogTitle>
 
@@ -712,8 +870,18 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                         color="primary.main"
                         fontWeight="bold"
                       >
-                        CHF {totalCost.toLocaleString("de-CH")}
+                        CHF {escalatedTotalCost.toLocaleString("de-CH")}
                       </Typography>
+                      {priceEscalation && (
+                        <Typography variant="body2" color="text.secondary">
+                          Teuerung {priceEscalation.indexName} auf{" "}
+                          {priceEscalation.targetDate} (Faktor{" "}
+                          {priceEscalation.factor.toLocaleString("de-CH", {
+                            maximumFractionDigits: 4,
+                          })}
+                          ), nominal CHF {totalCost.toLocaleString("de-CH")}
+                        </Typography>
+                      )}
 
                       <Box sx={{ mt: 1 }}>
                         {Object.entries(costByGroup)
@@ -727,7 +895,9 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                               size="small"
                               sx={{ mr: 0.5, mb: 0.5 }}
                               color={
-                                cost > totalCost * 0.25 ? "primary" : "default"
+                                cost > escalatedTotalCost * 0.25
+                                  ? "primary"
+                                  : "default"
                               }
                             />
                           ))}
@@ -736,6 +906,101 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                   </Grid>
                 </Paper>
 
+                {/* Sheet Conflicts */}
+                {sheetConflicts.length > 0 && (
+                  <Alert severity="warning" sx={{ mb: 3 }}>
+                    <AlertTitle>
+                      {sheetConflicts.length} eBKP-Codes auf mehreren
+                      Tabellenblättern
+                    </AlertTitle>
+                    Für diese Codes wurde nur die Zeile aus dem ersten Blatt
+                    übernommen. Prüfen Sie, ob die Blätter überlappende
+                    Kostenpositionen enthalten.
+                    <Table size="small" sx={{ mt: 1 }}>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>eBKP-Code</TableCell>
+                          <TableCell>Tabellenblätter</TableCell>
+                          <TableCell>Übernommen aus</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {sheetConflicts.map((conflict) => (
+                          <TableRow key={conflict.ebkp}>
+                            <TableCell>{conflict.ebkp}</TableCell>
+                            <TableCell>{conflict.sheets.join(", ")}</TableCell>
+                            <TableCell>{conflict.keptSheet}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </Alert>
+                )}
+
+                {/* Kennwerte outside the reference range */}
+                {referenceOutliers.length > 0 && (
+                  <Alert severity="warning" sx={{ mb: 3 }}>
+                    <AlertTitle>
+                      {referenceOutliers.length} Kennwerte weit ausserhalb der
+                      Referenzprojekte
+                    </AlertTitle>
+                    Diese Kennwerte sind weniger als halb so hoch wie das
+                    Minimum oder mehr als doppelt so hoch wie das Maximum der
+                    Referenzprojekte. Prüfen Sie Einheit und Betrag.
+                    <Table size="small" sx={{ mt: 1 }}>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>eBKP-Code</TableCell>
+                          <TableCell>Bezeichnung</TableCell>
+                          <TableCell align="right">Kennwert</TableCell>
+                          <TableCell align="right">
+                            Referenz (Min / Median / Max)
+                          </TableCell>
+                          <TableCell align="right">Projekte</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {referenceOutliers.map(
+                          ({ item, reference, outlier }) => (
+                            <TableRow key={item.ebkp}>
+                              <TableCell>{item.ebkp}</TableCell>
+                              <TableCell>{item.bezeichnung}</TableCell>
+                              <TableCell align="right">
+                                <Chip
+                                  size="small"
+                                  color={
+                                    outlier === "high" ? "error" : "warning"
+                                  }
+                                  label={`${item.kennwert?.toLocaleString(
+                                    "de-CH"
+                                  )} ${outlier === "high" ? "▲" : "▼"}`}
+                                />
+                              </TableCell>
+                              <TableCell align="right">
+                                {[
+                                  reference.min,
+                                  reference.median,
+                                  reference.max,
+                                ]
+                                  .map((value) =>
+                                    value.toLocaleString("de-CH", {
+                                      maximumFractionDigits: 2,
+                                    })
+                                  )
+                                  .join(" / ")}{" "}
+                                {reference.unit && `CHF/${reference.unit}`}
+                              </TableCell>
+                              <TableCell align="right">
+                                {reference.count}
+                              </TableCell>
+                            </TableRow>
+                          )
+                        )}
+                      </TableBody>
+                    </Table>
+                  </Alert>
+                )}
+
                 {/* Match Quality */}
                 <Paper elevation={2} sx={{ p: 2, mb: 3 }}>
                   <Typography variant="h6" gutterBottom>
@@ -802,13 +1067,13 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                   </Box>
 
                   <Box display="flex" flexWrap="wrap" gap={1} mt={2}>
-                    {potentialMatches.length > 0 && (
+                    {effectiveMatches.length > 0 && (
                       <>
                         <Tooltip title="Direkte Übereinstimmungen mit BIM Elementen">
                           <Chip
                             icon={<CheckCircleIcon />}
                             label={`${
-                              potentialMatches.filter(
+                              effectiveMatches.filter(
                                 (m) =>
                                   normalizeEbkpCode(m.excelItem?.ebkp) ===
                                   normalizeEbkpCode(m.code)
@@ -830,7 +1095,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                       </>
                     )}
 
-                    {potentialMatches.length === 0 && (
+                    {effectiveMatches.length === 0 && (
                       <Alert severity="warning" sx={{ width: "100%" }}>
                         <AlertTitle>
                           Keine direkten Übereinstimmungen gefunden
@@ -863,7 +1128,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                   </Box>
                 )}
 
-                {potentialMatches.length > 0 ? (
+                {effectiveMatches.length > 0 ? (
                   <TableContainer>
                     <Table size="small">
                       <TableHead>
@@ -958,7 +1223,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
 
                                               return (
                                                 <TableRow
-                                                  key={match.code}
+                                                  key={`${match.code}-${match.excelItem?.ebkp}`}
                                                   hover
                                                   sx={{
                                                     backgroundColor:
@@ -989,7 +1254,14 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                                                         </Tooltip>
                                                       ) : (
                                                         <Tooltip
-                                                          title={`Auto-Zuordnung (Excel: ${match.excelItem?.ebkp})`}
+                                                          title={`${
+                                                            match.manual
+                                                              ? "Manuelle Zuordnung"
+                                                              : "Auto-Zuordnung"
+                                                          } (Excel: ${
+                                                            match.excelItem
+                                                              ?.ebkp
+                                                          })`}
                                                         >
                                                           <InfoIcon
                                                             fontSize="small"
@@ -1086,9 +1358,10 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                         .filter(
                           (item) =>
                             item.ebkp &&
-                            !potentialMatches.some((match) =>
+                            !effectiveMatches.some((match) =>
                               codesMatch(match.excelItem?.ebkp, item.ebkp)
-                            )
+                            ) &&
+                            !overrides[normalizeEbkpCode(item.ebkp)]?.excluded
                         )
                         .map((item, index) => (
                           <TableRow key={`${item.ebkp}-${index}`} hover>
@@ -1112,6 +1385,57 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                 </TableContainer>
               </Paper>
             )}
+
+            {/* Tab 3: Manual matching */}
+            {activeTab === 3 && (
+              <Paper elevation={2} sx={{ p: 2, mb: 3 }}>
+                <Box
+                  display="flex"
+                  alignItems="center"
+                  justifyContent="space-between"
+                  mb={2}
+                >
+                  <Typography variant="h6">Manuelle Zuordnung</Typography>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    onClick={persistOverrides}
+                    disabled={!overridesChanged || savingOverrides}
+                  >
+                    {savingOverrides ? (
+                      <CircularProgress size={16} />
+                    ) : (
+                      "Zuordnungen speichern"
+                    )}
+                  </Button>
+                </Box>
+
+                <Typography variant="body2" paragraph>
+                  Weisen Sie Kostenpositionen andere Modell-Codes zu, teilen Sie
+                  eine Position durch Auswahl mehrerer Codes auf oder schliessen
+                  Sie sie von der Zuordnung aus. Die Zuordnungen werden pro
+                  Projekt gespeichert und bei späteren Modell-Updates
+                  wiederverwendet.
+                </Typography>
+
+                {overridesError && (
+                  <Alert severity="error" sx={{ mb: 2 }}>
+                    {overridesError}
+                  </Alert>
+                )}
+
+                <MatchingOverridesTable
+                  items={allCostItems.filter(
+                    (item) => item.ebkp && !item.synthesized
+                  )}
+                  modelCodes={modelCodes}
+                  autoMatches={autoMatches}
+                  overrides={overrides}
+                  getKey={normalizeEbkpCode}
+                  onChange={handleOverrideChange}
+                />
+              </Paper>
+            )}
           </Box>
         )}
       </DialogContent>
@@ -0,0 +1,31 @@
+import { Box, Tooltip } from "@mui/material";
+import WarningAmberIcon from "@mui/icons-material/WarningAmber";
+import { CostItem } from "./types";
+
+interface QuantityIssueInfoProps {
+  item: CostItem;
+}
+
+// Warning icon for rows whose unit has no matching quantity in the model
+const QuantityIssueInfo = ({ item }: QuantityIssueInfoProps) => {
+  if (!item.quantityIssue) return null;
+
+  return (
+    <Tooltip title={item.quantityIssue} arrow>
+      <Box
+        component="span"
+        sx={{
+          display: "inline-flex",
+          alignItems: "center",
+          ml: 0.5,
+          cursor: "help",
+          color: "warning.main",
+        }}
+      >
+        <WarningAmberIcon fontSize="small" sx={{ fontSize: "0.875rem" }} />
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default QuantityIssueInfo;
@@ -0,0 +1,31 @@
+import { Box, Tooltip } from "@mui/material";
+import AutoFixHighIcon from "@mui/icons-material/AutoFixHigh";
+import { CostItem } from "./types";
+
+interface ReferenceKennwertInfoProps {
+  item: CostItem;
+}
+
+// Icon for rows whose Kennwert was filled from the reference library
+const ReferenceKennwertInfo = ({ item }: ReferenceKennwertInfoProps) => {
+  if (!item.kennwertFromReference) return null;
+
+  return (
+    <Tooltip title="Median der Referenzprojekte, in der Datei leer" arrow>
+      <Box
+        component="span"
+        sx={{
+          display: "inline-flex",
+          alignItems: "center",
+          mr: 0.5,
+          cursor: "help",
+          color: "info.main",
+        }}
+      >
+        <AutoFixHighIcon fontSize="small" sx={{ fontSize: "0.875rem" }} />
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default ReferenceKennwertInfo;
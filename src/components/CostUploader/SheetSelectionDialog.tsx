@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  Typography,
+} from "@mui/material";
+
+interface SheetSelectionDialogProps {
+  open: boolean;
+  fileName: string;
+  sheetNames: string[];
+  onCancel: () => void;
+  onConfirm: (sheetNames: string[]) => void;
+}
+
+const SheetSelectionDialog = ({
+  open,
+  fileName,
+  sheetNames,
+  onCancel,
+  onConfirm,
+}: SheetSelectionDialogProps) => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  // Select all sheets by default
+  useEffect(() => {
+    if (open) {
+      setSelected(sheetNames);
+    }
+  }, [open, sheetNames]);
+
+  const toggleSheet = (sheetName: string) => {
+    setSelected((prev) =>
+      prev.includes(sheetName)
+        ? prev.filter((name) => name !== sheetName)
+        : [...prev, sheetName]
+    );
+  };
+
+  const toggleAll = () => {
+    setSelected((prev) =>
+      prev.length === sheetNames.length ? [] : sheetNames
+    );
+  };
+
+  // Keep the workbook order, regardless of the order of selection
+  const handleConfirm = () => {
+    onConfirm(sheetNames.filter((name) => selected.includes(name)));
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        <Typography variant="h5">Tabellenblätter auswählen</Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          {fileName}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          Die Datei enthält mehrere Tabellenblätter. Die ausgewählten Blätter
+          werden zu einer Kostenstruktur zusammengeführt.
+        </Typography>
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={selected.length === sheetNames.length}
+              indeterminate={
+                selected.length > 0 && selected.length < sheetNames.length
+              }
+              onChange={toggleAll}
+            />
+          }
+          label="Alle auswählen"
+        />
+        <FormGroup sx={{ pl: 2 }}>
+          {sheetNames.map((sheetName) => (
+            <FormControlLabel
+              key={sheetName}
+              control={
+                <Checkbox
+                  checked={selected.includes(sheetName)}
+                  onChange={() => toggleSheet(sheetName)}
+                />
+              }
+              label={sheetName}
+            />
+          ))}
+        </FormGroup>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onCancel} color="inherit">
+          Abbrechen
+        </Button>
+        <Button
+          onClick={handleConfirm}
+          variant="contained"
+          color="primary"
+          disabled={selected.length === 0}
+        >
+          Übernehmen
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SheetSelectionDialog;
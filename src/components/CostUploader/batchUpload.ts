@@ -0,0 +1,180 @@
+import { CostItem } from "./types";
+import {
+  ConnectionStatus,
+  isConnected,
+  onStatusChange,
+  RequestError,
+  sendRequest,
+} from "../../utils/websocket";
+import { ResponseFor } from "../../utils/protocol";
+
+// Items of each list per chunk, keeps frames well below the socket limits
+const CHUNK_SIZE = 250;
+
+// Consecutive failures of a chunk before the upload is given up
+const MAX_CHUNK_ATTEMPTS = 5;
+
+// Delay before retrying a failed chunk, doubled with each failure
+const RETRY_INTERVAL = 1000;
+const MAX_RETRY_INTERVAL = 30000;
+
+// How long a retry waits for the connection manager to reconnect
+const RECONNECT_TIMEOUT = 120000;
+
+// Commits that may report missing chunks before the upload is given up
+const MAX_COMMIT_ATTEMPTS = 3;
+
+export interface BatchUploadProgress {
+  acknowledgedChunks: number;
+  totalChunks: number;
+}
+
+interface CostBatchUpload {
+  projectName: string;
+  fileName?: string;
+  matchedItems: CostItem[];
+  allExcelItems: CostItem[];
+  onProgress?: (progress: BatchUploadProgress) => void;
+}
+
+// Resolve once the connection manager is connected again, reject if it
+// doesn't reconnect in time
+const waitForConnection = (): Promise<void> =>
+  new Promise((resolve, reject) => {
+    let unsubscribe: (() => void) | null = null;
+    let connected = false;
+
+    const timeoutId = window.setTimeout(() => {
+      unsubscribe?.();
+      reject(new Error("WebSocket did not reconnect in time"));
+    }, RECONNECT_TIMEOUT);
+
+    // Called right away with the current status, before unsubscribe is set
+    unsubscribe = onStatusChange((status) => {
+      if (status !== ConnectionStatus.CONNECTED || connected) return;
+      connected = true;
+      window.clearTimeout(timeoutId);
+      unsubscribe?.();
+      resolve();
+    });
+    if (connected) unsubscribe();
+  });
+
+// Wait before retrying a failed chunk: with backoff, and after a disconnect
+// until the connection manager has reconnected
+const waitBeforeRetry = async (failedAttempts: number): Promise<void> => {
+  const delay = Math.min(
+    RETRY_INTERVAL * 2 ** (failedAttempts - 1),
+    MAX_RETRY_INTERVAL
+  );
+  await new Promise((resolve) => window.setTimeout(resolve, delay));
+
+  if (!isConnected()) {
+    await waitForConnection();
+  }
+};
+
+// Upload a confirmed cost batch in chunks. Every chunk is acknowledged by the
+// backend; after a disconnect the upload continues with the first chunk that
+// was not acknowledged. The backend saves the batch once all chunks arrived,
+// chunks it reports missing on the commit are sent again.
+export const uploadCostBatch = async ({
+  projectName,
+  fileName,
+  matchedItems,
+  allExcelItems,
+  onProgress,
+}: CostBatchUpload): Promise<
+  ResponseFor<"commit_cost_batch_upload">["result"]
+> => {
+  const totalChunks = Math.max(
+    Math.ceil(matchedItems.length / CHUNK_SIZE),
+    Math.ceil(allExcelItems.length / CHUNK_SIZE),
+    1
+  );
+  const uploadId = `${Date.now()}${Math.random().toString(36).substring(2, 9)}`;
+
+  let acknowledged = new Set<number>();
+
+  // Send the chunks until the backend has acknowledged all of them
+  const sendChunks = async () => {
+    let failedAttempts = 0;
+
+    while (acknowledged.size < totalChunks) {
+      let chunkIndex = 0;
+      while (acknowledged.has(chunkIndex)) chunkIndex++;
+
+      const start = chunkIndex * CHUNK_SIZE;
+      const end = start + CHUNK_SIZE;
+
+      try {
+        const response = await sendRequest({
+          type: "save_cost_batch_chunk",
+          payload: {
+            projectName,
+            uploadId,
+            chunkIndex,
+            totalChunks,
+            matchedItems: matchedItems.slice(start, end),
+            allExcelItems: allExcelItems.slice(start, end),
+          },
+        });
+
+        // The backend lists every chunk it holds, so chunks lost with a
+        // backend restart are sent again
+        acknowledged = new Set(response.receivedChunks || [chunkIndex]);
+        failedAttempts = 0;
+        onProgress?.({ acknowledgedChunks: acknowledged.size, totalChunks });
+      } catch (error) {
+        failedAttempts++;
+        console.warn(
+          `Chunk ${
+            chunkIndex + 1
+          }/${totalChunks} failed (attempt ${failedAttempts}):`,
+          error
+        );
+        if (failedAttempts >= MAX_CHUNK_ATTEMPTS) {
+          throw error;
+        }
+        await waitBeforeRetry(failedAttempts);
+      }
+    }
+  };
+
+  onProgress?.({ acknowledgedChunks: 0, totalChunks });
+
+  for (let commitAttempt = 1; ; commitAttempt++) {
+    await sendChunks();
+
+    try {
+      const response = await sendRequest(
+        {
+          type: "commit_cost_batch_upload",
+          payload: { projectName, uploadId, fileName },
+        },
+        60000
+      );
+      return response.result;
+    } catch (error) {
+      const missingChunks =
+        error instanceof RequestError
+          ? error.response?.missingChunks
+          : undefined;
+      if (
+        !Array.isArray(missingChunks) ||
+        commitAttempt >= MAX_COMMIT_ATTEMPTS
+      ) {
+        throw error;
+      }
+
+      // Chunks lost by the backend since they were acknowledged
+      console.warn(
+        `Commit of upload ${uploadId} is missing chunks ${missingChunks.join(
+          ", "
+        )}, sending them again`
+      );
+      missingChunks.forEach((index: number) => acknowledged.delete(index));
+      onProgress?.({ acknowledgedChunks: acknowledged.size, totalChunks });
+    }
+  }
+};
@@ -0,0 +1,259 @@
+import ExcelJS from "exceljs";
+import { CostItem } from "./types";
+import { columnHighlights } from "./styles";
+import { PriceEscalation } from "../PriceIndex/types";
+import { CostBenchmark, CostBenchmarks } from "../ReferenceQuantities/types";
+
+const EXPORT_COLUMNS: { header: string; key: string; width: number }[] = [
+  { header: "eBKP", key: "ebkp", width: 12 },
+  { header: "Bezeichnung", key: "bezeichnung", width: 40 },
+  { header: "Menge (Excel)", key: "mengeExcel", width: 14 },
+  { header: "Menge (IFC)", key: "mengeIfc", width: 14 },
+  { header: "Einheit", key: "einheit", width: 10 },
+  { header: "Kennwert", key: "kennwert", width: 14 },
+  { header: "CHF", key: "chf", width: 16 },
+  { header: "Total CHF", key: "totalChf", width: 16 },
+  { header: "Kommentar", key: "kommentar", width: 30 },
+];
+
+// Added after "Total CHF" when the Kennwerte of the project are escalated
+const ESCALATED_TOTAL_COLUMN = {
+  key: "totalChfEscalated",
+  width: 20,
+};
+
+const NUMBER_FORMAT = "#,##0.00";
+
+// Convert a highlight colour like "#fff9e6 !important" to an ExcelJS fill
+const toFill = (color: string): ExcelJS.Fill => ({
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: `FF${color.split(" ")[0].replace("#", "").toUpperCase()}` },
+});
+
+// Quantity from the uploaded file, before it was replaced by the IFC quantity
+const getExcelMenge = (item: CostItem): number | null => {
+  if (item.originalValues?.menge !== undefined) {
+    return item.originalValues.menge;
+  }
+  // Without a stored original, a mapped item had no quantity in the file
+  return item.dbArea !== undefined ? null : item.menge ?? null;
+};
+
+// Total as shown in the table: recalculated from the IFC quantity if available
+const getTotalChf = (item: CostItem): number | null => {
+  if (item.area !== undefined && item.kennwert) {
+    return item.area * item.kennwert;
+  }
+  return item.totalChf ?? null;
+};
+
+const addItemRows = (
+  worksheet: ExcelJS.Worksheet,
+  items: CostItem[],
+  level: number,
+  escalation: PriceEscalation | null
+) => {
+  items.forEach((item) => {
+    const mengeExcel = getExcelMenge(item);
+    const mengeIfc = item.dbArea ?? null;
+    const totalChf = getTotalChf(item);
+
+    const row = worksheet.addRow({
+      ebkp: item.ebkp || "",
+      bezeichnung: item.bezeichnung || "",
+      mengeExcel,
+      mengeIfc,
+      einheit: item.einheit || "",
+      kennwert: item.kennwert ?? null,
+      chf: item.chf ?? null,
+      totalChf,
+      totalChfEscalated:
+        escalation && totalChf !== null ? totalChf * escalation.factor : null,
+      kommentar: item.kommentar || "",
+    });
+
+    // Excel supports up to 7 outline levels
+    row.outlineLevel = Math.min(level, 7);
+    if (level === 0) {
+      row.font = { bold: true };
+    }
+
+    [
+      "mengeExcel",
+      "mengeIfc",
+      "kennwert",
+      "chf",
+      "totalChf",
+      ...(escalation ? [ESCALATED_TOTAL_COLUMN.key] : []),
+    ].forEach((key) => {
+      row.getCell(key).numFmt = NUMBER_FORMAT;
+    });
+
+    // Highlight the cells that differ from the uploaded file
+    if (mengeIfc !== null && mengeIfc !== mengeExcel) {
+      row.getCell("mengeIfc").fill = toFill(columnHighlights.kennwert);
+    }
+    if (item.area !== undefined && item.kennwert) {
+      row.getCell("chf").fill = toFill(columnHighlights.chf);
+      if (totalChf !== item.totalChf) {
+        row.getCell("totalChf").fill = toFill(columnHighlights.totalChf);
+      }
+    }
+
+    if (item.children && item.children.length > 0) {
+      addItemRows(worksheet, item.children, level + 1, escalation);
+    }
+  });
+};
+
+// Cost per m² GF and m³ GV of the saved summary, on a sheet of its own
+const addBenchmarkSheet = (
+  workbook: ExcelJS.Workbook,
+  benchmarks: CostBenchmarks
+): void => {
+  const worksheet = workbook.addWorksheet("Kennzahlen");
+  worksheet.columns = [
+    { header: "eBKP-Hauptgruppe", key: "group", width: 20 },
+    { header: "Kosten CHF", key: "cost", width: 16 },
+    { header: "CHF/m² GF", key: "perGf", width: 14 },
+    { header: "CHF/m³ GV", key: "perGv", width: 14 },
+  ];
+  worksheet.getRow(1).font = { bold: true };
+
+  const addBenchmarkRow = (label: string, benchmark: CostBenchmark) =>
+    worksheet.addRow({
+      group: label,
+      cost: benchmark.cost,
+      perGf: benchmark.per_gf,
+      perGv: benchmark.per_gv,
+    });
+
+  benchmarks.by_group.forEach((entry) =>
+    addBenchmarkRow(entry.group || "Ohne eBKP", entry)
+  );
+  addBenchmarkRow("Netto", benchmarks.net).font = { bold: true };
+  addBenchmarkRow("Brutto", benchmarks.gross).font = { bold: true };
+
+  ["cost", "perGf", "perGv"].forEach((key) => {
+    worksheet.getColumn(key).numFmt = "#,##0";
+  });
+
+  worksheet.addRow([]);
+  worksheet.addRow([
+    "Geschossfläche GF",
+    benchmarks.gf?.value ?? null,
+    "m²",
+    benchmarks.gf?.source === "qto" ? "aus Modell" : "manuell",
+  ]);
+  worksheet.addRow([
+    "Gebäudevolumen GV",
+    benchmarks.gv?.value ?? null,
+    "m³",
+    benchmarks.gv?.source === "qto" ? "aus Modell" : "manuell",
+  ]);
+};
+
+// Build an .xlsx workbook from the cost tree, keeping the hierarchy as
+// outline groups that can be collapsed in Excel. With a price escalation the
+// escalated totals are listed next to the nominal ones, with reference
+// quantities the benchmarks follow on a second sheet.
+export const createCostWorkbook = (
+  items: CostItem[],
+  escalation: PriceEscalation | null = null,
+  benchmarks: CostBenchmarks | null = null
+): ExcelJS.Workbook => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const worksheet = workbook.addWorksheet("Kosten", {
+    properties: {
+      outlineProperties: { summaryBelow: false, summaryRight: false },
+    },
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  worksheet.columns = escalation
+    ? EXPORT_COLUMNS.flatMap((column) =>
+        column.key === "totalChf"
+          ? [
+              column,
+              {
+                ...ESCALATED_TOTAL_COLUMN,
+                header: `Total CHF (Teuerung ${escalation.targetDate})`,
+              },
+            ]
+          : [column]
+      )
+    : EXPORT_COLUMNS;
+  worksheet.getRow(1).font = { bold: true };
+
+  addItemRows(worksheet, items, 0, escalation);
+
+  if (escalation) {
+    worksheet.addRow([]);
+    worksheet.addRow([
+      "Teuerung",
+      `${escalation.indexName}: ${escalation.baseValue} am ${escalation.baseDate} → ${escalation.targetValue} am ${escalation.targetDate}, Faktor ${escalation.factor}`,
+    ]);
+  }
+
+  if (benchmarks && (benchmarks.gf || benchmarks.gv)) {
+    addBenchmarkSheet(workbook, benchmarks);
+  }
+
+  return workbook;
+};
+
+// Download a blob through a temporary link
+const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Export the cost tree and download it as an .xlsx file
+export const exportCostItemsToExcel = async (
+  items: CostItem[],
+  fileName: string,
+  escalation: PriceEscalation | null = null,
+  benchmarks: CostBenchmarks | null = null
+): Promise<void> => {
+  const workbook = createCostWorkbook(items, escalation, benchmarks);
+  const buffer = await workbook.xlsx.writeBuffer();
+
+  downloadBlob(
+    new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    }),
+    fileName
+  );
+};
+
+// Quote a CSV field if it contains the separator, quotes or line breaks
+const toCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Download rows as a CSV file as Excel opens it in Switzerland: separated by
+// semicolons, UTF-8 with byte order mark
+export const exportRowsToCsv = (
+  headers: string[],
+  rows: (string | number)[][],
+  fileName: string
+): void => {
+  const csv = [headers, ...rows]
+    .map((row) => row.map(toCsvField).join(";"))
+    .join("\r\n");
+
+  downloadBlob(
+    new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" }),
+    fileName
+  );
+};
@@ -1,30 +1,26 @@
-import { useState, useEffect, ReactNode } from "react";
+import { useState, useEffect, useMemo, ReactNode } from "react";
 import {
+  Alert,
   Box,
   CircularProgress,
+  LinearProgress,
+  Snackbar,
   useMediaQuery,
   useTheme,
   Typography,
 } from "@mui/material";
-import { MetaFile, CostItem } from "./types";
+import { MetaFile, CostItem, ParseIssue, UnitCostReference } from "./types";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import { RequestError } from "../../utils/websocket";
+import { BatchUploadProgress, uploadCostBatch } from "./batchUpload";
+import { indexUnitCostLibrary, prefillKennwerte } from "./utils";
 import FileDropzone from "./FileDropzone";
 import FileInfo from "./FileInfo";
 import HierarchicalTable from "./HierarchicalTable";
 import PreviewModal, { EnhancedCostItem } from "./PreviewModal";
-
-// Define the WebSocket response interfaces
-interface BatchResponseData {
-  type: string;
-  messageId: string;
-  status: "success" | "error";
-  message?: string;
-  insertedCount?: number;
-  result?: {
-    excelItemsInserted: number;
-    matchedItemsProcessed: number;
-    qtoElementsUpdated: number;
-  };
-}
+import { PriceEscalation } from "../PriceIndex/types";
+import { BudgetStatus } from "../BudgetTargets/types";
+import { CostBenchmarks } from "../ReferenceQuantities/types";
 
 // Define the custom event type
 interface BimMappingStatusEvent extends CustomEvent {
@@ -46,6 +42,12 @@ interface CostUploaderProps {
   totalCost: number;
   elementsComponent?: ReactNode;
   projectName: string;
+  // Escalation of the Kennwerte to the project's target date, if any
+  priceEscalation?: PriceEscalation | null;
+  // Budget targets of the project compared with its saved cost
+  budgetStatus?: BudgetStatus[];
+  // Cost per m² GF and m³ GV of the saved summary, added to the export
+  costBenchmarks?: CostBenchmarks | null;
 }
 
 const CostUploader = ({
@@ -54,6 +56,9 @@ const CostUploader = ({
   totalCost,
   elementsComponent,
   projectName,
+  priceEscalation = null,
+  budgetStatus = [],
+  costBenchmarks = null,
 }: CostUploaderProps) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down("sm"));
@@ -64,6 +69,45 @@ const CostUploader = ({
   );
   const [expandedRows, setExpandedRows] = useState<Record<string, boolean>>({});
   const [previewOpen, setPreviewOpen] = useState(false);
+  const [highlightedCode, setHighlightedCode] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] =
+    useState<BatchUploadProgress | null>(null);
+  const [unitCostLibrary, setUnitCostLibrary] = useState<UnitCostReference[]>(
+    []
+  );
+  // Outcome of the last save, shown once the upload is done
+  const [saveNotification, setSaveNotification] = useState<{
+    message: string;
+    severity: "success" | "warning" | "error";
+  } | null>(null);
+  const { sendRequest, isConnected } = useWebSocket();
+
+  // Kennwerte of the reference projects by eBKP code
+  const unitCostReferences = useMemo(
+    () => indexUnitCostLibrary(unitCostLibrary),
+    [unitCostLibrary]
+  );
+
+  // Empty Kennwert cells the reference library can fill
+  const prefillableCount = useMemo(() => {
+    if (!metaFile) return 0;
+    const costData = Array.isArray(metaFile.data)
+      ? metaFile.data
+      : metaFile.data.data;
+    return prefillKennwerte(costData, unitCostReferences).filledCount;
+  }, [metaFile, unitCostReferences]);
+
+  // Load the reference library for every uploaded file
+  const uploadedFile = metaFile?.file;
+  useEffect(() => {
+    if (!uploadedFile || !isConnected) return;
+
+    sendRequest({ type: "get_unit_cost_library", payload: { projectName } })
+      .then((response) => setUnitCostLibrary(response.library || []))
+      .catch((error) =>
+        console.warn("Could not load the unit cost library:", error)
+      );
+  }, [uploadedFile, projectName, isConnected, sendRequest]);
 
   const toggleRow = (code: string) => {
     setExpandedRows((prev: Record<string, boolean>) => ({
@@ -87,6 +131,7 @@ const CostUploader = ({
     setMetaFile(null);
     setExpandedRows({});
     setPreviewOpen(false);
+    setHighlightedCode(null);
 
     // Dispatch a custom event to notify other components about file removal
     // This will help ensure proper resetting of state in the FileInfo component
@@ -103,6 +148,58 @@ const CostUploader = ({
     }, 300);
   };
 
+  // Highlight the row of a parse report issue and expand its parent rows
+  const handleIssueSelect = (issue: ParseIssue) => {
+    if (!metaFile || !issue.ebkp) return;
+
+    const costData = Array.isArray(metaFile.data)
+      ? metaFile.data
+      : metaFile.data.data;
+
+    // Find the codes of all parents of the item
+    const findParentCodes = (
+      items: CostItem[],
+      code: string
+    ): string[] | null => {
+      for (const item of items) {
+        if (item.ebkp === code) return [];
+        if (item.children && item.children.length > 0) {
+          const path = findParentCodes(item.children, code);
+          if (path && item.ebkp) return [item.ebkp, ...path];
+        }
+      }
+      return null;
+    };
+
+    const parentCodes = findParentCodes(costData, issue.ebkp) || [];
+    setExpandedRows((prev) => ({
+      ...prev,
+      ...Object.fromEntries(parentCodes.map((code) => [code, true])),
+    }));
+    setHighlightedCode(issue.ebkp);
+  };
+
+  // Fill empty Kennwert cells with the median of the reference projects
+  const handlePrefillKennwerte = () => {
+    if (!metaFile) return;
+
+    const costData = Array.isArray(metaFile.data)
+      ? metaFile.data
+      : metaFile.data.data;
+    const { items, filledCount } = prefillKennwerte(
+      costData,
+      unitCostReferences
+    );
+    console.log(`Filled ${filledCount} Kennwerte from the reference library`);
+
+    setMetaFile({
+      ...metaFile,
+      data: Array.isArray(metaFile.data)
+        ? items
+        : { ...metaFile.data, data: items },
+    });
+  };
+
   const handleShowPreview = () => {
     setPreviewOpen(true);
   };
@@ -116,11 +213,15 @@ const CostUploader = ({
     }
 
     setIsLoading(true);
-    setMappingMessage("Kostendaten werden gespeichert...");
+    setMappingMessage(
+      isConnected
+        ? "Kostendaten werden gespeichert..."
+        : "Keine Verbindung – Kostendaten werden gespeichert, sobald die Verbindung wieder besteht..."
+    );
 
     try {
       console.log(
-        `Sending ${enhancedData.length} matched QTO elements to update costElements (Excel data already saved in costData)`
+        `Sending ${enhancedData.length} matched QTO elements together with the Excel data`
       );
 
       // Extract all Excel items from metaFile
@@ -144,308 +245,74 @@ const CostUploader = ({
 
       const flattenedExcelItems = getAllItems(allExcelItems);
       console.log(
-        `Including ${flattenedExcelItems.length} Excel items for reference (already saved in costData)`
+        `Including ${flattenedExcelItems.length} Excel items, they replace the costData of the project`
       );
 
-      // Use the sendCostBatchToServer alternative:
-      // Create a WebSocket if it doesn't exist
-      let ws = (window as { ws?: WebSocket }).ws;
-      if (!ws || ws.readyState !== WebSocket.OPEN) {
-        console.warn("WebSocket not connected, trying to reconnect");
-        // Try to reconnect
-        try {
-          // Get the WebSocket URL from environment or use default
-          let wsUrl = "ws://localhost:8001";
-          if ((window as { VITE_WEBSOCKET_URL?: string }).VITE_WEBSOCKET_URL) {
-            wsUrl = (window as { VITE_WEBSOCKET_URL?: string })
-              .VITE_WEBSOCKET_URL!;
-          } else if (import.meta.env.VITE_WEBSOCKET_URL) {
-            wsUrl = import.meta.env.VITE_WEBSOCKET_URL;
-          }
-          ws = new WebSocket(wsUrl);
-          (window as { ws?: WebSocket }).ws = ws;
-          // Wait for connection
-          await new Promise((resolve, reject) => {
-            if (ws) {
-              ws.onopen = resolve;
-              ws.onerror = reject;
-              // Set timeout
-              setTimeout(
-                () => reject(new Error("WebSocket connection timeout")),
-                5000
-              );
-            } else {
-              reject(new Error("WebSocket is undefined"));
-            }
-          });
-        } catch (error) {
-          console.error("Failed to connect to WebSocket:", error);
-          throw new Error("WebSocket connection failed");
-        }
-      }
-
-      // Create a unique message ID
-      const messageId = `batch_${Date.now()}${Math.random()
-        .toString(36)
-        .substring(2, 7)}`;
-
-      // Prepare the message with both matched items and all Excel data
-      const message = {
-        type: "save_cost_batch_full", // Use the new message type
-        messageId,
-        payload: {
-          projectName,
-          matchedItems: enhancedData,
-          allExcelItems: flattenedExcelItems,
-        },
-      };
-
-      // Send the message
-      ws.send(JSON.stringify(message));
-      console.log(`Full cost batch sent to server for project ${projectName}`);
-
-      // Wait for response with promise
-      const response: BatchResponseData = await new Promise(
-        (resolve, reject) => {
-          const responseHandler = (event: MessageEvent) => {
-            try {
-              const response: BatchResponseData = JSON.parse(event.data);
-
-              // Check if this is the response for our message
-              if (
-                response.type === "save_cost_batch_full_response" &&
-                response.messageId === messageId
-              ) {
-                ws.removeEventListener("message", responseHandler);
-                clearTimeout(timeoutId);
-                resolve(response);
-              }
-            } catch {
-              // Ignore parse errors from other messages
-            }
-          };
-
-          // Add the event listener
-          ws.addEventListener("message", responseHandler);
-
-          // Set a timeout
-          const timeoutId = setTimeout(() => {
-            ws.removeEventListener("message", responseHandler);
-            reject(
-              new Error("Timeout waiting for save_cost_batch_full_response")
-            );
-          }, 30000);
-
-          // Handle WebSocket close
-          const closeHandler = () => {
-            ws.removeEventListener("message", responseHandler);
-            clearTimeout(timeoutId);
-            reject(new Error("WebSocket connection closed"));
-          };
-          ws.addEventListener("close", closeHandler, { once: true });
-
-          // Clean up the close handler when promise resolves
-          Promise.resolve().then(() => {
-            ws.removeEventListener("close", closeHandler);
-          });
-        }
+      // Send the matched items together with all Excel data in chunks; errors
+      // reported by the backend reject the upload and keep the previous data
+      const result = await uploadCostBatch({
+        projectName,
+        fileName: metaFile.file.name,
+        matchedItems: enhancedData,
+        allExcelItems: flattenedExcelItems,
+        onProgress: setUploadProgress,
+      });
+      console.log(
+        `Saved cost batch ${result?.batchId}: ${result?.costElementsSaved} cost elements, ${result?.costDataSaved} Excel items`
       );
+      setSaveNotification({
+        severity: "success",
+        message: result
+          ? `Gespeichert${
+              result.version ? ` als Version ${result.version.version}` : ""
+            }: ${result.costDataSaved} Kostenpositionen (ersetzt ${
+              result.costDataRemoved
+            }), ${result.costElementsSaved} Kostenelemente (ersetzt ${
+              result.costElementsRemoved
+            }), ${result.qtoElementsUpdated} Modellelemente aktualisiert`
+          : "Kostendaten gespeichert",
+      });
 
-      if (response.status === "success") {
-        // Notify parent component (MainPage) about the successful update
-        if (onFileUploaded) {
-          const fileName = metaFile.file.name;
-          const currentDate = new Date().toLocaleString("de-CH");
-          const status = "Gespeichert"; // Update status to indicate successful save
+      // Notify parent component (MainPage) about the successful update
+      if (onFileUploaded) {
+        const fileName = metaFile.file.name;
+        const currentDate = new Date().toLocaleString("de-CH");
+        const status = "Gespeichert"; // Update status to indicate successful save
 
-          // Get original cost data if needed (or pass enhancedData)
-          const costData = Array.isArray(metaFile.data)
-            ? metaFile.data
-            : metaFile.data.data;
+        // Get original cost data if needed (or pass enhancedData)
+        const costData = Array.isArray(metaFile.data)
+          ? metaFile.data
+          : metaFile.data.data;
 
-          onFileUploaded(fileName, currentDate, status, costData, true);
-        }
-        console.log("Cost data successfully saved to backend.");
-      } else {
-        // Handle error from backend
-        console.error(
-          "Error saving cost data to backend:",
-          response.message || "Unknown error"
-        );
-        // Optionally: show an error message to the user
-        // TODO: Add user-facing error feedback
+        onFileUploaded(fileName, currentDate, status, costData, true);
       }
+      console.log("Cost data successfully saved to backend.");
     } catch (error) {
       console.error("Failed to send cost data batch:", error);
-      // Optionally: show an error message to the user
-      // TODO: Add user-facing error feedback
+      const message = error instanceof Error ? error.message : String(error);
+      setSaveNotification(
+        error instanceof RequestError && error.code === "COST_BATCH_NOT_APPLIED"
+          ? {
+              severity: "warning",
+              message: `Die Kostendaten sind gespeichert, aber noch nicht übernommen. Sie werden beim nächsten Start des Servers übernommen. (${message})`,
+            }
+          : {
+              severity: "error",
+              message: `Speichern fehlgeschlagen, die bisherigen Kostendaten des Projekts sind unverändert. (${message})`,
+            }
+      );
     } finally {
       setIsLoading(false);
+      setUploadProgress(null);
       setPreviewOpen(false); // Close the modal regardless of success/failure
     }
   };
 
-  const handleFileUploaded = async (newMetaFile: MetaFile) => {
+  // The Excel data is only saved together with the matched elements once
+  // the preview is confirmed, until then the project keeps its cost data
+  const handleFileUploaded = (newMetaFile: MetaFile) => {
     setMetaFile(newMetaFile);
-    setIsLoading(true);
-    setMappingMessage("Excel Daten werden gespeichert...");
-
-    try {
-      // Extract data array based on format
-      const costData = Array.isArray(newMetaFile.data)
-        ? newMetaFile.data
-        : newMetaFile.data.data;
-
-      // Flatten the hierarchical data to get all Excel items
-      const getAllItems = (items: CostItem[]): CostItem[] => {
-        let result: CostItem[] = [];
-        items.forEach((item) => {
-          result.push(item);
-          if (item.children && item.children.length > 0) {
-            result = result.concat(getAllItems(item.children));
-          }
-        });
-        return result;
-      };
-
-      const flattenedExcelItems = getAllItems(costData);
-      console.log(
-        `Uploading ${flattenedExcelItems.length} Excel items to server...`
-      );
-
-      // Create or get a WebSocket connection
-      let ws: WebSocket;
-      const customWindow = window as unknown as {
-        ws?: WebSocket;
-        VITE_WEBSOCKET_URL?: string;
-      };
-
-      if (customWindow.ws && customWindow.ws.readyState === WebSocket.OPEN) {
-        ws = customWindow.ws;
-      } else {
-        // Try to create a new connection
-        let wsUrl = "ws://localhost:8001";
-        if (customWindow.VITE_WEBSOCKET_URL) {
-          wsUrl = customWindow.VITE_WEBSOCKET_URL;
-        } else if (import.meta.env.VITE_WEBSOCKET_URL) {
-          wsUrl = import.meta.env.VITE_WEBSOCKET_URL;
-        }
-
-        ws = new WebSocket(wsUrl);
-        customWindow.ws = ws;
-
-        // Wait for connection
-        await new Promise<void>((resolve, reject) => {
-          const onOpen = () => {
-            ws.removeEventListener("open", onOpen);
-            ws.removeEventListener("error", onError);
-            resolve();
-          };
-
-          const onError = () => {
-            ws.removeEventListener("open", onOpen);
-            ws.removeEventListener("error", onError);
-            reject(new Error("WebSocket connection failed"));
-          };
-
-          ws.addEventListener("open", onOpen);
-          ws.addEventListener("error", onError);
-
-          // Set timeout
-          setTimeout(() => {
-            ws.removeEventListener("open", onOpen);
-            ws.removeEventListener("error", onError);
-            reject(new Error("WebSocket connection timeout"));
-          }, 5000);
-        });
-      }
-
-      // First send a delete message to remove existing data for this project
-      const deleteMessageId = `delete_${Date.now()}${Math.random()
-        .toString(36)
-        .substring(2, 7)}`;
-
-      // Send delete message - this will clear existing data
-      const deleteMessage = {
-        type: "delete_project_data",
-        messageId: deleteMessageId,
-        payload: {
-          projectName,
-        },
-      };
-
-      ws.send(JSON.stringify(deleteMessage));
-      console.log(
-        `Sent delete request for existing project data: ${projectName}`
-      );
-
-      // Wait briefly to ensure delete completes
-      await new Promise((resolve) => setTimeout(resolve, 300));
-
-      // Create a unique message ID
-      const messageId = `upload_${Date.now()}${Math.random()
-        .toString(36)
-        .substring(2, 7)}`;
-
-      // Send the Excel data to the server immediately
-      const message = {
-        type: "save_excel_data",
-        messageId,
-        payload: {
-          projectName,
-          excelItems: flattenedExcelItems,
-          replaceExisting: true, // Add this flag to ensure it replaces existing data
-        },
-      };
-
-      ws.send(JSON.stringify(message));
-      console.log(
-        `Excel data sent to server for immediate saving (${flattenedExcelItems.length} items)`
-      );
-
-      // Wait for server response
-      const response = await new Promise<{
-        status: string;
-        message: string;
-        insertedCount: number;
-      }>((resolve, reject) => {
-        const responseHandler = (event: MessageEvent) => {
-          try {
-            const data = JSON.parse(event.data);
-
-            if (
-              data.type === "save_excel_data_response" &&
-              data.messageId === messageId
-            ) {
-              ws.removeEventListener("message", responseHandler);
-              clearTimeout(timeoutId);
-              resolve(data);
-            }
-          } catch {
-            // Ignore parse errors from other messages
-          }
-        };
-
-        ws.addEventListener("message", responseHandler);
-
-        const timeoutId = setTimeout(() => {
-          ws.removeEventListener("message", responseHandler);
-          reject(new Error("Timeout waiting for save_excel_data_response"));
-        }, 10000);
-      });
-
-      if (response.status === "success") {
-        console.log(
-          `Successfully saved ${response.insertedCount} Excel items to database`
-        );
-      } else {
-        console.error("Error saving Excel data:", response.message);
-      }
-    } catch (error) {
-      console.error("Error uploading Excel data:", error);
-    } finally {
-      setIsLoading(false);
-    }
+    setHighlightedCode(null);
 
     // Pass the cost data to the parent component
     if (onFileUploaded && newMetaFile.data) {
@@ -526,6 +393,26 @@ const CostUploader = ({
             <Typography variant="body1" color="primary.main" fontWeight="500">
               {mappingMessage}
             </Typography>
+            {uploadProgress && (
+              <Box sx={{ width: 280, mt: 2 }}>
+                <LinearProgress
+                  variant="determinate"
+                  value={
+                    (uploadProgress.acknowledgedChunks /
+                      uploadProgress.totalChunks) *
+                    100
+                  }
+                />
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  sx={{ display: "block", mt: 0.5, textAlign: "center" }}
+                >
+                  Teil {uploadProgress.acknowledgedChunks} von{" "}
+                  {uploadProgress.totalChunks} übertragen
+                </Typography>
+              </Box>
+            )}
           </Box>
         </Box>
       )}
@@ -542,6 +429,7 @@ const CostUploader = ({
           <FileDropzone
             onFileUploaded={handleFileUploaded}
             setIsLoading={setIsLoading}
+            projectName={projectName}
           />
           {/* Render the elements component below the dropzone with flex: 1 to expand */}
           {elementsComponent}
@@ -553,6 +441,11 @@ const CostUploader = ({
               metaFile={metaFile}
               onRemoveFile={handleRemoveFile}
               onSendData={handleShowPreview}
+              onIssueSelect={handleIssueSelect}
+              prefillableCount={prefillableCount}
+              onPrefillKennwerte={handlePrefillKennwerte}
+              priceEscalation={priceEscalation}
+              costBenchmarks={costBenchmarks}
             />
 
             <HierarchicalTable
@@ -563,6 +456,9 @@ const CostUploader = ({
               isLoading={isLoading}
               mappingMessage={mappingMessage}
               totalElements={totalElements}
+              highlightedCode={highlightedCode}
+              projectName={projectName}
+              budgetStatus={budgetStatus}
             />
 
             {/* Preview Modal */}
@@ -572,10 +468,29 @@ const CostUploader = ({
               onConfirm={handleConfirmPreview}
               metaFile={metaFile}
               totalCost={totalCost}
+              projectName={projectName}
+              unitCostReferences={unitCostReferences}
+              priceEscalation={priceEscalation}
             />
           </div>
         </div>
       )}
+
+      <Snackbar
+        open={saveNotification !== null}
+        autoHideDuration={
+          saveNotification?.severity === "success" ? 8000 : null
+        }
+        onClose={() => setSaveNotification(null)}
+      >
+        <Alert
+          onClose={() => setSaveNotification(null)}
+          severity={saveNotification?.severity}
+          sx={{ width: "100%" }}
+        >
+          {saveNotification?.message}
+        </Alert>
+      </Snackbar>
     </Box>
   );
 };
@@ -20,6 +20,19 @@ export const columnHighlights: ColumnHighlightsType = {
   totalChf: "#e6f5e6 !important", // Solid light green
 };
 
+// Row highlighted from the parse report
+export const highlightedRowStyle = {
+  backgroundColor: "#fff3e0",
+  outline: "2px solid #ff9800",
+  outlineOffset: "-2px",
+};
+
+// Row of an eBKP group at or over the threshold of its budget
+export const budgetExceededRowStyle = {
+  backgroundColor: "#ffebee",
+  borderLeft: "3px solid #d32f2f",
+};
+
 // Create table column styles with consistent widths
 export const getColumnStyle = (
   column: keyof typeof columnWidths,
@@ -1,3 +1,38 @@
+// Manual assignment of an Excel eBKP code to model codes, stored per project
+// Excluded codes are not matched to any model element
+export interface MatchingOverride {
+  excelCode: string;
+  modelCodes: string[];
+  excluded: boolean;
+}
+
+// Quantity of a QTO element that a cost row's unit refers to
+export type QuantityType = "area" | "volume" | "length" | "count";
+
+// Model quantity of a cost row on one storey (IFC level)
+export interface LevelQuantity {
+  level: string;
+  quantity: number;
+  elementCount: number;
+}
+
+// Axes of the cost table: the eBKP tree, eBKP codes split by storey, or
+// storeys split by eBKP code
+export type CostPivot = "ebkp" | "ebkp_level" | "level_ebkp";
+
+// Cost of a leaf row on one storey. Rows without model quantities have the
+// level "", so the records add up to the total of the eBKP tree.
+export interface LevelCostRecord {
+  ebkp: string;
+  bezeichnung: string;
+  einheit: string;
+  kennwert: number;
+  level: string;
+  quantity: number;
+  elementCount: number;
+  cost: number;
+}
+
 export interface CostItem {
   id?: string;
   name?: string;
@@ -33,6 +68,15 @@ export interface CostItem {
   };
   dbElements?: number;
   dbArea?: number;
+  // Model quantity chosen for the unit, and why none could be used
+  quantityType?: QuantityType;
+  // Model quantity split by storey, only for quantities taken from the model
+  levelQuantities?: LevelQuantity[];
+  quantityIssue?: string;
+  // Parent created from the eBKP code structure, without a row in the file
+  synthesized?: boolean;
+  // Kennwert taken from the reference library, the cell was empty in the file
+  kennwertFromReference?: boolean;
   // Store original item for reference (used in PreviewModal)
   originalItem?: {
     ebkp?: string;
@@ -45,6 +89,35 @@ export interface CostItem {
   [key: string]: unknown;
 }
 
+// Kennwerte of an eBKP code across the reference projects, as sent by the
+// backend. "count" is the number of projects that price the code.
+export interface UnitCostReference {
+  ebkp: string;
+  min: number;
+  median: number;
+  max: number;
+  count: number;
+  unit: string;
+}
+
+// Element matched to a cost row, as sent by the backend. Elements of the
+// last saved upload ("cost") carry their unit cost and total, elements read
+// from the model ("qto") are priced with the Kennwert of the row.
+export type CostItemElementSource = "cost" | "qto";
+
+export interface CostItemElement {
+  id: string;
+  global_id: string;
+  ebkp_code: string;
+  category: string;
+  level: string;
+  area: number;
+  volume: number;
+  length: number;
+  unit_cost?: number;
+  total_cost?: number;
+}
+
 // Types for Kafka cost message
 export interface CostDataItem {
   id: string;
@@ -81,8 +154,38 @@ export type MetaFile = {
   headers: string[];
   missingHeaders?: string[];
   valid: boolean | null;
+  columnMapping?: ColumnMapping;
+  sheetNames?: string[];
+  sheetConflicts?: SheetConflict[];
+  parseReport?: ParseIssue[];
 };
 
+// An eBKP code that appears on more than one of the merged sheets.
+// Only the row from the first sheet ("keptSheet") is used.
+export interface SheetConflict {
+  ebkp: string;
+  sheets: string[];
+  keptSheet: string;
+}
+
+// Location of a data row in the uploaded workbook (1-based Excel row number)
+export interface ExcelRowSource {
+  sheet: string;
+  row: number;
+}
+
+export type ParseIssueSeverity = "error" | "warning" | "info";
+
+// A problem found while building the cost tree from the uploaded rows
+export interface ParseIssue {
+  severity: ParseIssueSeverity;
+  message: string;
+  row?: number;
+  sheet?: string;
+  column?: string;
+  ebkp?: string;
+}
+
 export interface CostUploaderProps {
   onFileUploaded?: (
     fileName: string,
@@ -104,6 +207,48 @@ export const REQUIRED_HEADERS = [
   "Kommentar",
 ];
 
+// CostItem fields that can be filled from an Excel column
+export type CostItemField =
+  | "ebkp"
+  | "bezeichnung"
+  | "menge"
+  | "einheit"
+  | "kennwert"
+  | "chf"
+  | "totalChf"
+  | "kommentar";
+
+// Maps each CostItem field to the source column header in the uploaded file
+export type ColumnMapping = Partial<Record<CostItemField, string>>;
+
+// Field definitions for the column mapping step. "header" is the default
+// column name from the template, "aliases" are accepted alternatives.
+export const COLUMN_FIELDS: {
+  field: CostItemField;
+  header: string;
+  aliases?: string[];
+  required: boolean;
+}[] = [
+  { field: "ebkp", header: "eBKP", required: true },
+  { field: "bezeichnung", header: "Bezeichnung", required: true },
+  { field: "menge", header: "Menge", aliases: ["Mengenbezug"], required: true },
+  { field: "einheit", header: "Einheit", required: true },
+  { field: "kennwert", header: "Kennwert", required: true },
+  { field: "chf", header: "CHF", required: false },
+  { field: "totalChf", header: "Total CHF", required: false },
+  { field: "kommentar", header: "Kommentar", required: false },
+];
+
+// Saved column mapping profile, stored per project on the backend
+export interface ColumnMappingProfile {
+  id?: string;
+  name: string;
+  projectName: string;
+  mapping: ColumnMapping;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export type ColumnWidthsType = {
   expandIcon: string;
   ebkp: string;
@@ -1,4 +1,17 @@
-import { CostItem, ExcelRow, REQUIRED_HEADERS } from "./types";
+import {
+  COLUMN_FIELDS,
+  ColumnMapping,
+  ColumnMappingProfile,
+  CostItem,
+  ExcelRow,
+  ExcelRowSource,
+  LevelCostRecord,
+  ParseIssue,
+  QuantityType,
+  SheetConflict,
+  UnitCostReference,
+} from "./types";
+import { BudgetStatus } from "../BudgetTargets/types";
 import * as XLSX from "xlsx";
 
 // Helper to extract numbers and return null if zero
@@ -67,70 +80,359 @@ export const formatNumber = (
   }
 };
 
-export const processExcelData = (
-  data: ExcelRow[],
-  headers: string[]
-): CostItem[] => {
-  if (data.length === 0) {
-    return [];
-  }
+// Resolve the column mapping against the actual headers of a file.
+// Explicitly mapped columns win, all other fields fall back to the
+// template header names (case-insensitive).
+export const resolveColumnMapping = (
+  headers: string[],
+  mapping?: ColumnMapping
+): ColumnMapping => {
+  const resolved: ColumnMapping = {};
+  const findHeader = (name: string) =>
+    headers.find(
+      (h) => String(h).trim().toLowerCase() === name.trim().toLowerCase()
+    );
+
+  COLUMN_FIELDS.forEach(({ field, header, aliases }) => {
+    const mapped = mapping?.[field];
+    if (mapped) {
+      const actual = findHeader(mapped);
+      if (actual) {
+        resolved[field] = actual;
+      }
+      return;
+    }
 
-  const items: CostItem[] = [];
+    // Fall back to the template header and its aliases
+    const fallback = [header, ...(aliases || [])]
+      .map((name) => findHeader(name))
+      .find((h) => h !== undefined);
+    if (fallback) {
+      resolved[field] = fallback;
+    }
+  });
 
-  // Normalize headers for comparison
-  const normalizedHeaders = headers.map((h) => h.trim().toLowerCase());
+  return resolved;
+};
 
-  // Find the correct column headers (these are the actual keys in the row objects)
-  const ebkpHeader =
-    headers.find((h) => h.trim().toLowerCase() === "ebkp") || "";
-  const bezeichnungHeader =
-    headers.find((h) => h.trim().toLowerCase() === "bezeichnung") || "";
-  const mengeHeader =
-    headers.find((h) => h.trim().toLowerCase() === "menge") ||
-    headers.find((h) => h.trim().toLowerCase() === "mengenbezug") ||
-    "";
-  const einheitHeader =
-    headers.find((h) => h.trim().toLowerCase() === "einheit") || "";
-  const kennwertHeader =
-    headers.find((h) => h.trim().toLowerCase() === "kennwert") || "";
-  const chfHeader = headers.find((h) => h.trim().toLowerCase() === "chf") || "";
-  const totalChfHeader =
-    headers.find((h) => h.trim().toLowerCase() === "total chf") || "";
-  const kommentarHeader =
-    headers.find((h) => h.trim().toLowerCase() === "kommentar") || "";
+// Get the fields that could not be resolved to a column. Without an explicit
+// mapping every template header is expected, otherwise only required fields.
+export const getMissingHeaders = (
+  resolved: ColumnMapping,
+  mapping?: ColumnMapping
+): string[] =>
+  COLUMN_FIELDS.filter(
+    ({ field, required }) => !resolved[field] && (required || !mapping)
+  ).map(({ header }) => header);
+
+// Find the saved profile whose mapped columns all exist in the given headers.
+// If several profiles fit, the one mapping the most columns is used.
+export const findMatchingProfile = (
+  headers: string[],
+  profiles: ColumnMappingProfile[]
+): ColumnMappingProfile | null => {
+  const normalizedHeaders = headers.map((h) => String(h).trim().toLowerCase());
+
+  const candidates = profiles
+    .map((profile) => {
+      const columns = Object.values(profile.mapping).filter(
+        (column): column is string => !!column
+      );
+      return { profile, columns };
+    })
+    .filter(
+      ({ columns }) =>
+        columns.length > 0 &&
+        columns.every((column) =>
+          normalizedHeaders.includes(column.trim().toLowerCase())
+        )
+    )
+    .sort((a, b) => b.columns.length - a.columns.length);
+
+  return candidates.length > 0 ? candidates[0].profile : null;
+};
 
-  // Get indexes for the columns
-  // These index variables are used in extractNumber function calls
-  const kennwertIndex = normalizedHeaders.findIndex((h) => h === "kennwert");
-  const chfIndex = normalizedHeaders.findIndex((h) => h === "chf");
-  const totalChfIndex = normalizedHeaders.findIndex((h) => h === "total chf");
+// eBKP codes are a letter, optionally followed by dot-separated numbers,
+// e.g. "C", "C02", "C2.1" or "C2.1.3"
+const EBKP_CODE_PATTERN = /^[A-Z](\d+(\.\d+)*)?$/;
+
+// Key used to look up codes regardless of leading zeros ("C02.01" -> "C2.1")
+const getEbkpKey = (code: string): string =>
+  code.length > 1
+    ? code[0] +
+      code
+        .slice(1)
+        .split(".")
+        .map((part) => String(Number(part)))
+        .join(".")
+    : code;
+
+// Units accepted in the Einheit column (compared case-insensitively)
+const KNOWN_UNITS = [
+  "m",
+  "lfm",
+  "lm",
+  "m2",
+  "m²",
+  "qm",
+  "m3",
+  "m³",
+  "cbm",
+  "stk",
+  "st",
+  "stück",
+  "kg",
+  "t",
+  "h",
+  "gl",
+  "psch",
+  "pauschal",
+  "%",
+];
+
+// Canonical spelling of the units that have a quantity in the model
+const UNIT_ALIASES: Record<string, string> = {
+  m2: "m²",
+  "m²": "m²",
+  qm: "m²",
+  m3: "m³",
+  "m³": "m³",
+  cbm: "m³",
+  m: "m",
+  lfm: "m",
+  lm: "m",
+  stk: "Stk",
+  st: "Stk",
+  stück: "Stk",
+};
 
-  // Removed unused index variables: ebkpIndex, bezeichnungIndex, mengeIndex, einheitIndex, kommentarIndex
-  // These indexes aren't needed since we access the data using the header names directly
+const QUANTITY_TYPES_BY_UNIT: Record<string, QuantityType> = {
+  "m²": "area",
+  "m³": "volume",
+  m: "length",
+  Stk: "count",
+};
 
-  // Create parent map for organizing the hierarchy
-  const parentMap: Record<string, CostItem> = {};
-  const topLevelMap: Record<string, CostItem> = {};
+// Normalize unit spellings like "m2", "qm" or "Stk." to a single form
+export const normalizeUnit = (unit: string | undefined | null): string => {
+  const trimmed = (unit || "").trim();
+  const key = trimmed.toLowerCase().replace(/[\s.]/g, "");
+  return UNIT_ALIASES[key] || trimmed;
+};
 
-  // First pass: Create top-level parent items (e.g., "A", "B", etc.)
-  for (const row of data) {
-    const ebkpCode = ebkpHeader ? String(row[ebkpHeader] || "").trim() : "";
+// Model quantity that corresponds to a unit, or null if there is none
+export const getQuantityTypeForUnit = (
+  unit: string | undefined | null
+): QuantityType | null => QUANTITY_TYPES_BY_UNIT[normalizeUnit(unit)] || null;
 
-    // Skip rows without eBKP code
-    if (!ebkpCode) continue;
+// Kennwerte below min / factor or above max × factor of the reference
+// projects are flagged in the preview
+const REFERENCE_OUTLIER_FACTOR = 2;
 
-    // Check if this is a top-level code (just a letter like "A", "B")
-    const isTopLevel = /^[A-Z]$/.test(ebkpCode);
+export type ReferenceOutlier = "low" | "high";
 
-    if (isTopLevel) {
-      const bezeichnung = bezeichnungHeader
-        ? String(row[bezeichnungHeader] || "")
-        : "";
-      const totalChf = totalChfHeader
-        ? extractNumber(row, totalChfHeader, totalChfIndex)
+// Reference library entries by eBKP key
+export const indexUnitCostLibrary = (
+  library: UnitCostReference[]
+): Record<string, UnitCostReference> =>
+  Object.fromEntries(
+    library.map((reference) => [getEbkpKey(reference.ebkp), reference])
+  );
+
+// Look up the reference entry of a cost row; entries priced in another unit
+// than the row are not comparable and ignored
+export const findUnitCostReference = (
+  references: Record<string, UnitCostReference>,
+  item: CostItem
+): UnitCostReference | null => {
+  if (!item.ebkp) return null;
+
+  const reference =
+    references[getEbkpKey(item.ebkp.toUpperCase().replace(/\s+/g, ""))];
+  if (!reference) return null;
+
+  if (
+    item.einheit &&
+    reference.unit &&
+    normalizeUnit(item.einheit) !== normalizeUnit(reference.unit)
+  ) {
+    return null;
+  }
+  return reference;
+};
+
+// Whether a Kennwert lies far outside the range of the reference projects
+export const getReferenceOutlier = (
+  kennwert: number,
+  reference: UnitCostReference
+): ReferenceOutlier | null => {
+  if (kennwert < reference.min / REFERENCE_OUTLIER_FACTOR) return "low";
+  if (kennwert > reference.max * REFERENCE_OUTLIER_FACTOR) return "high";
+  return null;
+};
+
+// Fill empty Kennwert cells with the median of the reference projects.
+// Top-level rows and parents added from the code structure have no Kennwert
+// of their own and are left empty.
+export const prefillKennwerte = (
+  items: CostItem[],
+  references: Record<string, UnitCostReference>
+): { items: CostItem[]; filledCount: number } => {
+  let filledCount = 0;
+
+  const fill = (item: CostItem): CostItem => {
+    const children = item.children?.map(fill);
+    const reference =
+      item.ebkp &&
+      item.ebkp.length > 1 &&
+      !item.synthesized &&
+      (item.kennwert === null || item.kennwert === undefined)
+        ? findUnitCostReference(references, item)
         : null;
 
-      const topLevelItem: CostItem = {
+    if (!reference) {
+      return children ? { ...item, children } : item;
+    }
+
+    filledCount++;
+    return {
+      ...item,
+      children,
+      kennwert: reference.median,
+      einheit: item.einheit || reference.unit,
+      totalChf:
+        item.totalChf ??
+        (typeof item.menge === "number" ? item.menge * reference.median : null),
+      kennwertFromReference: true,
+    };
+  };
+
+  return { items: items.map(fill), filledCount };
+};
+
+// Budget status of a cost row, if the project has a target for its code
+export const findBudgetStatus = (
+  budgetStatus: BudgetStatus[],
+  item: CostItem
+): BudgetStatus | null => {
+  if (!item.ebkp) return null;
+
+  const key = getEbkpKey(item.ebkp.toUpperCase().replace(/\s+/g, ""));
+  return budgetStatus.find((status) => status.ebkp === key) || null;
+};
+
+// Split the leaf rows of the cost tree by storey. A leaf costs its quantity
+// times its Kennwert, as in the eBKP tree; rows whose quantity doesn't come
+// from the model keep it as one record without a level.
+export const getLevelCostRecords = (items: CostItem[]): LevelCostRecord[] => {
+  const records: LevelCostRecord[] = [];
+
+  const collect = (item: CostItem) => {
+    if (item.children && item.children.length > 0) {
+      item.children.forEach(collect);
+      return;
+    }
+    if (!item.ebkp) return;
+
+    const kennwert = item.kennwert || 0;
+    const row = {
+      ebkp: item.ebkp,
+      bezeichnung: item.bezeichnung || "",
+      einheit: item.einheit || "",
+      kennwert,
+    };
+    const levelQuantities =
+      item.area !== undefined && item.levelQuantities?.length
+        ? item.levelQuantities
+        : [
+            {
+              level: "",
+              quantity: item.area ?? item.menge ?? 0,
+              elementCount: item.dbElements || 0,
+            },
+          ];
+
+    levelQuantities.forEach(({ level, quantity, elementCount }) => {
+      records.push({
+        ...row,
+        level,
+        quantity,
+        elementCount,
+        cost: quantity * kennwert,
+      });
+    });
+  };
+
+  items.forEach(collect);
+  return records;
+};
+
+// Relative tolerance when checking Total CHF against Menge × Kennwert
+const TOTAL_TOLERANCE = 0.005;
+
+// Check whether a cell holds a value that is not a number
+const isNonNumeric = (value: string | number | undefined): boolean => {
+  if (value === undefined || value === null || value === "") return false;
+  // eBKP placeholders like {{eBKP:B06.01}} are resolved later
+  if (typeof value === "string" && value.match(/\{\{eBKP:[^}]+\}\}/)) {
+    return false;
+  }
+  return isNaN(Number(value));
+};
+
+// Get the parent code from the code structure ("C2.1.3" -> "C2.1" -> "C2" -> "C")
+const getParentCode = (code: string): string | null => {
+  if (code.includes(".")) {
+    return code.slice(0, code.lastIndexOf("."));
+  }
+  return code.length > 1 ? code[0] : null;
+};
+
+export const processExcelData = (
+  data: ExcelRow[],
+  headers: string[],
+  mapping?: ColumnMapping,
+  sources?: ExcelRowSource[]
+): { items: CostItem[]; issues: ParseIssue[] } => {
+  const items: CostItem[] = [];
+  const issues: ParseIssue[] = [];
+
+  if (data.length === 0) {
+    return { items, issues };
+  }
+
+  // Find the correct column headers (these are the actual keys in the row objects)
+  const columns = resolveColumnMapping(headers, mapping);
+  const ebkpHeader = columns.ebkp || "";
+  const bezeichnungHeader = columns.bezeichnung || "";
+  const mengeHeader = columns.menge || "";
+  const einheitHeader = columns.einheit || "";
+  const kennwertHeader = columns.kennwert || "";
+  const chfHeader = columns.chf || "";
+  const totalChfHeader = columns.totalChf || "";
+  const kommentarHeader = columns.kommentar || "";
+
+  // Get indexes for the columns
+  // These index variables are used in extractNumber function calls
+  const kennwertIndex = kennwertHeader ? headers.indexOf(kennwertHeader) : -1;
+  const chfIndex = chfHeader ? headers.indexOf(chfHeader) : -1;
+  const totalChfIndex = totalChfHeader ? headers.indexOf(totalChfHeader) : -1;
+
+  // Without row sources, assume a single sheet with the header in row 1
+  const getSource = (index: number) =>
+    sources?.[index] || { sheet: undefined, row: index + 2 };
+
+  const createItem = (row: ExcelRow, ebkpCode: string): CostItem => {
+    const bezeichnung = bezeichnungHeader
+      ? String(row[bezeichnungHeader] || "")
+      : "";
+    const totalChf = totalChfHeader
+      ? extractNumber(row, totalChfHeader, totalChfIndex)
+      : null;
+
+    // Top-level codes (just a letter like "A", "B") only carry a total
+    if (ebkpCode.length === 1) {
+      return {
         ebkp: ebkpCode,
         bezeichnung,
         menge: null,
@@ -142,209 +444,221 @@ export const processExcelData = (
         children: [],
         expanded: false,
       };
+    }
 
-      items.push(topLevelItem);
-      topLevelMap[ebkpCode] = topLevelItem;
+    // Extract values safely
+    const menge = mengeHeader
+      ? row[mengeHeader] !== undefined &&
+        row[mengeHeader] !== null &&
+        row[mengeHeader] !== "" &&
+        !isNonNumeric(row[mengeHeader])
+        ? Number(row[mengeHeader])
+        : null
+      : null;
+    const einheit = einheitHeader ? String(row[einheitHeader] || "") : "";
+    const kennwert = kennwertHeader
+      ? extractNumber(row, kennwertHeader, kennwertIndex)
+      : null;
+    const chf = chfHeader ? extractNumber(row, chfHeader, chfIndex) : null;
+    const kommentar = kommentarHeader ? String(row[kommentarHeader] || "") : "";
+
+    return {
+      ebkp: ebkpCode,
+      bezeichnung,
+      menge,
+      einheit,
+      kennwert,
+      chf,
+      totalChf,
+      kommentar,
+      children: [],
+      expanded: false,
+    };
+  };
+
+  // Report values that were read as empty or look inconsistent
+  const validateRow = (
+    row: ExcelRow,
+    item: CostItem,
+    ebkpCode: string,
+    index: number
+  ) => {
+    const source = { ...getSource(index), ebkp: ebkpCode };
+    const isTopLevel = ebkpCode.length === 1;
+
+    // Top-level rows only use the total, so only that column is checked
+    const numericColumns = (
+      isTopLevel
+        ? [totalChfHeader]
+        : [mengeHeader, kennwertHeader, chfHeader, totalChfHeader]
+    ).filter((header) => header);
+
+    numericColumns.forEach((header) => {
+      if (isNonNumeric(row[header])) {
+        issues.push({
+          severity: header === mengeHeader ? "error" : "warning",
+          message: `"${row[header]}" ist keine Zahl, Wert wurde ignoriert`,
+          column: header,
+          ...source,
+        });
+      }
+    });
+
+    if (isTopLevel) return;
+
+    const einheit = (item.einheit || "").trim();
+    if (einheit && !KNOWN_UNITS.includes(einheit.toLowerCase())) {
+      issues.push({
+        severity: "warning",
+        message: `Unbekannte Einheit "${einheit}"`,
+        column: einheitHeader,
+        ...source,
+      });
     }
-  }
 
-  // If we didn't find any explicit top-level codes, create them based on the first letter of other codes
-  if (Object.keys(topLevelMap).length === 0) {
-    const uniqueFirstLetters = new Set<string>();
+    if (
+      item.menge !== null &&
+      item.menge !== undefined &&
+      item.kennwert !== null &&
+      item.kennwert !== undefined &&
+      item.totalChf !== null &&
+      item.totalChf !== undefined
+    ) {
+      const expected = item.menge * item.kennwert;
+      const tolerance = Math.max(1, Math.abs(expected) * TOTAL_TOLERANCE);
+      if (Math.abs(item.totalChf - expected) > tolerance) {
+        issues.push({
+          severity: "warning",
+          message: `Total CHF ${item.totalChf.toLocaleString(
+            "de-CH"
+          )} entspricht nicht Menge × Kennwert (${expected.toLocaleString(
+            "de-CH",
+            { maximumFractionDigits: 2 }
+          )})`,
+          column: totalChfHeader,
+          ...source,
+        });
+      }
+    }
+  };
 
-    // Get unique first letters from eBKP codes
-    for (const row of data) {
-      const ebkpCode = ebkpHeader ? String(row[ebkpHeader] || "").trim() : "";
-      if (ebkpCode && /^[A-Z]/.test(ebkpCode)) {
-        uniqueFirstLetters.add(ebkpCode[0]);
+  // First pass: Create an item for every row with a valid eBKP code
+  const itemsByKey: Record<string, CostItem> = {};
+  const firstRowByKey: Record<string, number> = {};
+  const rowItems: { item: CostItem; code: string; index: number }[] = [];
+
+  data.forEach((row, index) => {
+    const ebkpCode = ebkpHeader ? String(row[ebkpHeader] || "").trim() : "";
+
+    if (!ebkpCode) {
+      // Completely empty rows are just spacing and not worth reporting
+      const hasContent = Object.values(row).some(
+        (value) => String(value).trim() !== ""
+      );
+      if (hasContent) {
+        issues.push({
+          severity: "warning",
+          message: "Zeile ohne eBKP-Code wurde nicht übernommen",
+          column: ebkpHeader,
+          ...getSource(index),
+        });
       }
+      return;
     }
 
-    // Create top-level items for each unique first letter
-    for (const letter of uniqueFirstLetters) {
-      const topLevelItem: CostItem = {
-        ebkp: letter,
-        bezeichnung: letter,
-        menge: null,
-        einheit: "",
-        kennwert: null,
-        chf: null,
-        totalChf: null,
-        kommentar: "",
-        children: [],
-        expanded: false,
-      };
+    const code = ebkpCode.toUpperCase();
+    if (!EBKP_CODE_PATTERN.test(code)) {
+      issues.push({
+        severity: "error",
+        message: `Ungültiger eBKP-Code "${ebkpCode}", Zeile wurde nicht übernommen`,
+        column: ebkpHeader,
+        ebkp: ebkpCode,
+        ...getSource(index),
+      });
+      return;
+    }
 
-      items.push(topLevelItem);
-      topLevelMap[letter] = topLevelItem;
+    const item = createItem(row, ebkpCode);
+    validateRow(row, item, ebkpCode, index);
+
+    const key = getEbkpKey(code);
+    // Children are attached to the first row with a code
+    if (!itemsByKey[key]) {
+      itemsByKey[key] = item;
+      firstRowByKey[key] = getSource(index).row;
+    } else {
+      issues.push({
+        severity: "warning",
+        message: `eBKP-Code doppelt vorhanden (zuerst in Zeile ${firstRowByKey[key]})`,
+        column: ebkpHeader,
+        ebkp: ebkpCode,
+        ...getSource(index),
+      });
     }
-  }
+    rowItems.push({ item, code, index });
+  });
 
-  // Second pass: Create second-level parent items (e.g., "A01", "B02")
-  for (const row of data) {
-    const ebkpCode = ebkpHeader ? String(row[ebkpHeader] || "").trim() : "";
+  // Find the parent of a code, synthesising missing parents on the way up
+  const getParent = (code: string, index: number): CostItem | null => {
+    const parentCode = getParentCode(code);
+    if (!parentCode) return null;
 
-    // Skip rows without eBKP code
-    if (!ebkpCode) continue;
-
-    // Check if this is a second-level code (letter followed by numbers without dots)
-    const isSecondLevel = /^[A-Z]\d+$/.test(ebkpCode);
-
-    if (isSecondLevel) {
-      const topLevelParentCode = ebkpCode[0]; // First letter
-      const topLevelParent = topLevelMap[topLevelParentCode];
-
-      if (topLevelParent) {
-        // Extract values safely
-        const bezeichnung = bezeichnungHeader
-          ? String(row[bezeichnungHeader] || "")
-          : "";
-        const menge = mengeHeader
-          ? row[mengeHeader] !== undefined &&
-            row[mengeHeader] !== null &&
-            row[mengeHeader] !== ""
-            ? Number(row[mengeHeader])
-            : null
-          : null;
-        const einheit = einheitHeader ? String(row[einheitHeader] || "") : "";
-        const kennwert = kennwertHeader
-          ? extractNumber(row, kennwertHeader, kennwertIndex)
-          : null;
-        const chf = chfHeader ? extractNumber(row, chfHeader, chfIndex) : null;
-        const totalChf = totalChfHeader
-          ? extractNumber(row, totalChfHeader, totalChfIndex)
-          : null;
-        const kommentar = kommentarHeader
-          ? String(row[kommentarHeader] || "")
-          : "";
-
-        const secondLevelItem: CostItem = {
-          ebkp: ebkpCode,
-          bezeichnung,
-          menge,
-          einheit,
-          kennwert,
-          chf,
-          totalChf,
-          kommentar,
-          children: [],
-          expanded: false,
-        };
-
-        if (topLevelParent.children) {
-          topLevelParent.children.push(secondLevelItem);
-        }
-        parentMap[ebkpCode] = secondLevelItem; // Store for third-level items
-      }
+    const parentKey = getEbkpKey(parentCode);
+    if (itemsByKey[parentKey]) {
+      return itemsByKey[parentKey];
     }
-  }
 
-  // Third pass: Create third-level items (e.g., "A01.01", "B02.02")
-  for (const row of data) {
-    const ebkpCode = ebkpHeader ? String(row[ebkpHeader] || "").trim() : "";
+    const parent: CostItem = {
+      ebkp: parentCode,
+      bezeichnung: parentCode,
+      menge: null,
+      einheit: "",
+      kennwert: null,
+      chf: null,
+      totalChf: null,
+      kommentar: "",
+      children: [],
+      expanded: false,
+      synthesized: true,
+    };
+    itemsByKey[parentKey] = parent;
+    attachItem(parent, parentCode, index);
+
+    // Files often leave out the main group rows, so those are only info
+    issues.push({
+      severity: parentCode.length === 1 ? "info" : "warning",
+      message: `Übergeordnete Position "${parentCode}" fehlt in der Datei und wurde ergänzt`,
+      ebkp: parentCode,
+      ...getSource(index),
+    });
 
-    // Skip rows without eBKP code
-    if (!ebkpCode) continue;
-
-    // Check if this is a third-level code (contains a dot)
-    if (ebkpCode.includes(".")) {
-      const parentCode = ebkpCode.split(".")[0];
-      const parentItem = parentMap[parentCode];
-
-      if (parentItem) {
-        // Extract values safely
-        const bezeichnung = bezeichnungHeader
-          ? String(row[bezeichnungHeader] || "")
-          : "";
-        const menge = mengeHeader
-          ? row[mengeHeader] !== undefined &&
-            row[mengeHeader] !== null &&
-            row[mengeHeader] !== ""
-            ? Number(row[mengeHeader])
-            : null
-          : null;
-        const einheit = einheitHeader ? String(row[einheitHeader] || "") : "";
-        const kennwert = kennwertHeader
-          ? extractNumber(row, kennwertHeader, kennwertIndex)
-          : null;
-        const chf = chfHeader ? extractNumber(row, chfHeader, chfIndex) : null;
-        const totalChf = totalChfHeader
-          ? extractNumber(row, totalChfHeader, totalChfIndex)
-          : null;
-        const kommentar = kommentarHeader
-          ? String(row[kommentarHeader] || "")
-          : "";
-
-        const thirdLevelItem: CostItem = {
-          ebkp: ebkpCode,
-          bezeichnung,
-          menge,
-          einheit,
-          kennwert,
-          chf,
-          totalChf,
-          kommentar,
-          children: [],
-          expanded: false,
-        };
-
-        if (parentItem.children) {
-          parentItem.children.push(thirdLevelItem);
-        }
-      }
+    return parent;
+  };
+
+  const attachItem = (item: CostItem, code: string, index: number) => {
+    const parent = getParent(code, index);
+    if (parent) {
+      parent.children?.push(item);
+    } else {
+      items.push(item);
     }
-  }
+  };
 
-  return items;
+  // Second pass: Build the hierarchy from the code structure
+  rowItems.forEach(({ item, code, index }) => attachItem(item, code, index));
+
+  return { items, issues };
 };
 
-export const parseExcelFile = async (
-  file: File
-): Promise<{
-  data: CostItem[];
-  headers: string[];
-  missingHeaders?: string[];
-  valid: boolean;
-}> => {
+// Read an uploaded Excel file into a workbook
+export const readExcelFile = async (file: File): Promise<XLSX.WorkBook> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
     reader.onload = (e) => {
       try {
         const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: "binary" });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-
-        const headerRow = XLSX.utils.sheet_to_json(worksheet, {
-          header: 1,
-        })[0] as string[];
-
-        // Normalize the headers to lowercase for case-insensitive comparison
-        const normalizedHeaders = headerRow.map((h) => h.toLowerCase().trim());
-
-        // Check if all required headers exist (case-insensitive)
-        const missingHeaders = REQUIRED_HEADERS.filter(
-          (header) => !normalizedHeaders.includes(header.toLowerCase())
-        );
-
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-          defval: "", // Include empty cells with empty string
-        }) as ExcelRow[];
-
-        // Make sure valid is always boolean
-        const valid =
-          jsonData.length > 0 && missingHeaders.length === 0 ? true : false;
-
-        const processedData = processExcelData(jsonData, headerRow);
-
-        resolve({
-          data: processedData,
-          headers: headerRow,
-          missingHeaders:
-            missingHeaders.length > 0 ? missingHeaders : undefined,
-          valid,
-        });
+        resolve(XLSX.read(data, { type: "binary" }));
       } catch (error) {
         reject(error);
       }
@@ -358,6 +672,161 @@ export const parseExcelFile = async (
   });
 };
 
+// Get the header row of a single worksheet
+const getSheetHeaders = (worksheet: XLSX.WorkSheet): string[] => {
+  const headerRow = (XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+  })[0] || []) as unknown[];
+  return headerRow.map((h) => String(h ?? ""));
+};
+
+// Get the combined header row of the selected sheets (first sheet by default).
+// Headers that only differ in casing are treated as the same column.
+export const getWorkbookHeaders = (
+  workbook: XLSX.WorkBook,
+  sheetNames: string[] = [workbook.SheetNames[0]]
+): string[] => {
+  const headers: string[] = [];
+
+  sheetNames.forEach((sheetName) => {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) return;
+
+    getSheetHeaders(worksheet).forEach((header) => {
+      const exists = headers.some(
+        (h) => h.trim().toLowerCase() === header.trim().toLowerCase()
+      );
+      if (!exists) {
+        headers.push(header);
+      }
+    });
+  });
+
+  return headers;
+};
+
+// Read the rows of the selected sheets into one list. Row keys are renamed to
+// the combined headers, and rows whose eBKP code already appeared on an
+// earlier sheet are dropped and reported as conflicts.
+const mergeSheetRows = (
+  workbook: XLSX.WorkBook,
+  sheetNames: string[],
+  headers: string[],
+  ebkpHeader: string
+): {
+  rows: ExcelRow[];
+  sources: ExcelRowSource[];
+  conflicts: SheetConflict[];
+} => {
+  const rows: ExcelRow[] = [];
+  const sources: ExcelRowSource[] = [];
+  const codeSheets: Record<string, string[]> = {};
+
+  const toCombinedHeader = (key: string) =>
+    headers.find((h) => h.trim().toLowerCase() === key.trim().toLowerCase()) ||
+    key;
+
+  sheetNames.forEach((sheetName) => {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) return;
+
+    const sheetRows = XLSX.utils.sheet_to_json(worksheet, {
+      defval: "", // Include empty cells with empty string
+    }) as ExcelRow[];
+
+    sheetRows.forEach((sheetRow, index) => {
+      const row: ExcelRow = {};
+      Object.entries(sheetRow).forEach(([key, value]) => {
+        row[toCombinedHeader(key)] = value;
+      });
+
+      const ebkpCode = ebkpHeader ? String(row[ebkpHeader] || "").trim() : "";
+      if (ebkpCode) {
+        const sheets = codeSheets[ebkpCode] || [];
+        if (!sheets.includes(sheetName)) {
+          sheets.push(sheetName);
+        }
+        codeSheets[ebkpCode] = sheets;
+
+        // Keep only the rows from the first sheet containing this code
+        if (sheets[0] !== sheetName) return;
+      }
+
+      rows.push(row);
+      sources.push({
+        sheet: sheetName,
+        // sheet_to_json keeps the 0-based sheet row as a hidden property
+        row:
+          ((sheetRow as { __rowNum__?: number }).__rowNum__ ?? index + 1) + 1,
+      });
+    });
+  });
+
+  const conflicts = Object.entries(codeSheets)
+    .filter(([, sheets]) => sheets.length > 1)
+    .map(([ebkp, sheets]) => ({ ebkp, sheets, keptSheet: sheets[0] }));
+
+  return { rows, sources, conflicts };
+};
+
+export const parseWorkbook = (
+  workbook: XLSX.WorkBook,
+  mapping?: ColumnMapping,
+  sheetNames: string[] = [workbook.SheetNames[0]]
+): {
+  data: CostItem[];
+  headers: string[];
+  missingHeaders?: string[];
+  valid: boolean;
+  columnMapping: ColumnMapping;
+  sheetNames: string[];
+  sheetConflicts: SheetConflict[];
+  parseReport: ParseIssue[];
+} => {
+  const headerRow = getWorkbookHeaders(workbook, sheetNames);
+
+  // Check which fields could not be resolved to a column (case-insensitive)
+  const columnMapping = resolveColumnMapping(headerRow, mapping);
+  const missingHeaders = getMissingHeaders(columnMapping, mapping);
+
+  const {
+    rows: jsonData,
+    sources,
+    conflicts,
+  } = mergeSheetRows(workbook, sheetNames, headerRow, columnMapping.ebkp || "");
+
+  // Make sure valid is always boolean
+  const valid =
+    jsonData.length > 0 && missingHeaders.length === 0 ? true : false;
+
+  const { items: processedData, issues } = processExcelData(
+    jsonData,
+    headerRow,
+    mapping,
+    sources
+  );
+
+  return {
+    data: processedData,
+    headers: headerRow,
+    missingHeaders: missingHeaders.length > 0 ? missingHeaders : undefined,
+    valid,
+    columnMapping,
+    sheetNames,
+    sheetConflicts: conflicts,
+    parseReport: issues,
+  };
+};
+
+export const parseExcelFile = async (
+  file: File,
+  mapping?: ColumnMapping,
+  sheetNames?: string[]
+): Promise<ReturnType<typeof parseWorkbook>> => {
+  const workbook = await readExcelFile(file);
+  return parseWorkbook(workbook, mapping, sheetNames);
+};
+
 export const fileSize = (size: number): string => {
   if (size === 0) return "0 Bytes";
   const k = 1024;
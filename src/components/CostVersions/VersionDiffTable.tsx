@@ -0,0 +1,111 @@
+import {
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { formatNumber } from "../CostUploader/utils";
+import {
+  CostPlanChange,
+  CostPlanChangeStatus,
+  CostPlanDiff,
+  CostPlanDiffField,
+} from "./types";
+
+interface VersionDiffTableProps {
+  diff: CostPlanDiff;
+}
+
+const statusLabels: Record<CostPlanChangeStatus, string> = {
+  added: "Neu",
+  removed: "Entfernt",
+  changed: "Geändert",
+};
+
+const statusColors: Record<
+  CostPlanChangeStatus,
+  "success" | "error" | "warning"
+> = {
+  added: "success",
+  removed: "error",
+  changed: "warning",
+};
+
+const DIFF_FIELDS: { field: CostPlanDiffField; label: string }[] = [
+  { field: "menge", label: "Menge" },
+  { field: "kennwert", label: "Kennwert" },
+  { field: "totalChf", label: "Total CHF" },
+];
+
+// Show "before → after" for changed values, otherwise the single value
+const renderValue = (change: CostPlanChange, field: CostPlanDiffField) => {
+  const before = change.before?.[field];
+  const after = change.after?.[field];
+
+  if (change.status === "changed" && change.changedFields?.includes(field)) {
+    return (
+      <Typography variant="body2" component="span" fontWeight="bold">
+        {formatNumber(before) || "–"} → {formatNumber(after) || "–"}
+      </Typography>
+    );
+  }
+
+  return formatNumber(change.status === "removed" ? before : after);
+};
+
+const VersionDiffTable = ({ diff }: VersionDiffTableProps) => {
+  if (diff.changes.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+        Keine Unterschiede zwischen Version {diff.base.version} und Version{" "}
+        {diff.compare.version}.
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer sx={{ maxHeight: 400, mt: 2 }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell>Status</TableCell>
+            <TableCell>eBKP</TableCell>
+            <TableCell>Bezeichnung</TableCell>
+            {DIFF_FIELDS.map(({ field, label }) => (
+              <TableCell key={field} align="right">
+                {label}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {diff.changes.map((change) => (
+            <TableRow key={change.ebkp} hover>
+              <TableCell>
+                <Chip
+                  size="small"
+                  label={statusLabels[change.status]}
+                  color={statusColors[change.status]}
+                  variant="outlined"
+                />
+              </TableCell>
+              <TableCell>{change.ebkp}</TableCell>
+              <TableCell>{change.bezeichnung}</TableCell>
+              {DIFF_FIELDS.map(({ field }) => (
+                <TableCell key={field} align="right">
+                  {renderValue(change, field)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default VersionDiffTable;
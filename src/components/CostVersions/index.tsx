@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import RestoreIcon from "@mui/icons-material/Restore";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import { CostPlanDiff, CostPlanVersion } from "./types";
+import VersionDiffTable from "./VersionDiffTable";
+
+interface CostVersionsDialogProps {
+  open: boolean;
+  projectName: string;
+  onClose: () => void;
+  onRestored?: (version: CostPlanVersion) => void;
+}
+
+const formatVersionLabel = (version: CostPlanVersion) =>
+  `Version ${version.version} – ${version.fileName} (${new Date(
+    version.created_at
+  ).toLocaleString("de-CH")})`;
+
+const CostVersionsDialog = ({
+  open,
+  projectName,
+  onClose,
+  onRestored,
+}: CostVersionsDialogProps) => {
+  const { sendRequest } = useWebSocket();
+  const [versions, setVersions] = useState<CostPlanVersion[]>([]);
+  const [baseVersionId, setBaseVersionId] = useState("");
+  const [compareVersionId, setCompareVersionId] = useState("");
+  const [diff, setDiff] = useState<CostPlanDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoreCandidate, setRestoreCandidate] =
+    useState<CostPlanVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  // Load the versions when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    setError(null);
+    setDiff(null);
+
+    sendRequest({ type: "get_cost_plan_versions", payload: { projectName } })
+      .then((response) => {
+        const loaded = response.versions || [];
+        setVersions(loaded);
+        // Compare the latest version with the one before by default
+        setCompareVersionId(loaded[0]?.id || "");
+        setBaseVersionId(loaded[1]?.id || "");
+      })
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [open, projectName, sendRequest]);
+
+  // Load the diff whenever two different versions are selected
+  useEffect(() => {
+    if (!open || !baseVersionId || !compareVersionId) return;
+    if (baseVersionId === compareVersionId) {
+      setDiff(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    sendRequest({
+      type: "get_cost_plan_diff",
+      payload: { projectName, baseVersionId, compareVersionId },
+    })
+      .then((response) => setDiff(response.diff || null))
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [open, projectName, baseVersionId, compareVersionId, sendRequest]);
+
+  // Restore the confirmed version, replacing the current cost data
+  const handleRestore = async () => {
+    if (!restoreCandidate) return;
+
+    setRestoring(true);
+    setError(null);
+
+    try {
+      // Rebuilding the cost elements takes as long as a full upload
+      await sendRequest(
+        {
+          type: "restore_cost_plan_version",
+          payload: { projectName, versionId: restoreCandidate.id },
+        },
+        30000
+      );
+      onRestored?.(restoreCandidate);
+      setRestoreCandidate(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const renderVersionSelect = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void
+  ) => (
+    <FormControl fullWidth size="small">
+      <InputLabel>{label}</InputLabel>
+      <Select
+        label={label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {versions.map((version) => (
+          <MenuItem key={version.id} value={version.id}>
+            {formatVersionLabel(version)}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        <Typography variant="h5">Kostenplan-Versionen</Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          {projectName}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {versions.length === 0 && !loading && !error && (
+          <Typography variant="body2" color="text.secondary">
+            Für dieses Projekt wurden noch keine Kostenpläne bestätigt.
+          </Typography>
+        )}
+
+        {restoreCandidate && (
+          <Alert
+            severity="warning"
+            sx={{ mb: 2 }}
+            action={
+              <>
+                <Button
+                  color="inherit"
+                  size="small"
+                  disabled={restoring}
+                  onClick={() => setRestoreCandidate(null)}
+                >
+                  Abbrechen
+                </Button>
+                <Button
+                  color="inherit"
+                  size="small"
+                  disabled={restoring}
+                  onClick={handleRestore}
+                >
+                  {restoring ? <CircularProgress size={16} /> : "Bestätigen"}
+                </Button>
+              </>
+            }
+          >
+            Version {restoreCandidate.version} ({restoreCandidate.fileName})
+            wiederherstellen? Die aktuellen Kostendaten des Projekts werden
+            ersetzt.
+          </Alert>
+        )}
+
+        {versions.length > 0 && (
+          <>
+            <TableContainer sx={{ maxHeight: 250, mb: 3 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Version</TableCell>
+                    <TableCell>Datei</TableCell>
+                    <TableCell>Hochgeladen von</TableCell>
+                    <TableCell>Datum</TableCell>
+                    <TableCell align="right">Positionen</TableCell>
+                    <TableCell align="right">Total CHF</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {versions.map((version) => (
+                    <TableRow key={version.id} hover>
+                      <TableCell>{version.version}</TableCell>
+                      <TableCell>{version.fileName}</TableCell>
+                      <TableCell>{version.uploadedBy}</TableCell>
+                      <TableCell>
+                        {new Date(version.created_at).toLocaleString("de-CH")}
+                      </TableCell>
+                      <TableCell align="right">{version.itemCount}</TableCell>
+                      <TableCell align="right">
+                        {version.totalCost.toLocaleString("de-CH")}
+                      </TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          startIcon={<RestoreIcon />}
+                          disabled={restoring}
+                          onClick={() => setRestoreCandidate(version)}
+                        >
+                          Wiederherstellen
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <Typography variant="h6" gutterBottom>
+              Versionen vergleichen
+            </Typography>
+            <Box display="flex" gap={2}>
+              {renderVersionSelect("Basis", baseVersionId, setBaseVersionId)}
+              {renderVersionSelect(
+                "Vergleich",
+                compareVersionId,
+                setCompareVersionId
+              )}
+            </Box>
+          </>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          diff && <VersionDiffTable diff={diff} />
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} color="inherit">
+          Schliessen
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CostVersionsDialog;
@@ -0,0 +1,43 @@
+// Summary of a stored cost plan version, as sent by the backend
+export interface CostPlanVersion {
+  id: string;
+  projectName: string;
+  version: number;
+  fileName: string;
+  uploadedBy: string;
+  itemCount: number;
+  totalCost: number;
+  created_at: string;
+}
+
+// Cost fields of an item stored in a version
+export interface CostPlanVersionItem {
+  ebkp: string;
+  bezeichnung: string;
+  menge: number | null;
+  einheit: string;
+  kennwert: number | null;
+  chf: number | null;
+  totalChf: number | null;
+  kommentar: string;
+}
+
+export type CostPlanChangeStatus = "added" | "removed" | "changed";
+
+export type CostPlanDiffField = "kennwert" | "menge" | "totalChf";
+
+// Difference of a single eBKP code between two versions
+export interface CostPlanChange {
+  ebkp: string;
+  status: CostPlanChangeStatus;
+  bezeichnung: string;
+  changedFields?: CostPlanDiffField[];
+  before?: CostPlanVersionItem;
+  after?: CostPlanVersionItem;
+}
+
+export interface CostPlanDiff {
+  base: CostPlanVersion;
+  compare: CostPlanVersion;
+  changes: CostPlanChange[];
+}
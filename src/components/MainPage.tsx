@@ -1,8 +1,7 @@
 import {
   Typography,
-  Select,
-  MenuItem,
-  FormControl,
+  Autocomplete,
+  TextField,
   FormLabel,
   Stepper,
   Step,
@@ -18,15 +17,39 @@ import {
   Box,
   Button,
   CircularProgress,
-  SelectChangeEvent,
+  Tabs,
+  Tab,
+  Snackbar,
+  Alert,
 } from "@mui/material";
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import CostUploader from "./CostUploader/index";
 import InsertDriveFileIcon from "@mui/icons-material/InsertDriveFile";
 import DownloadIcon from "@mui/icons-material/Download";
 import RefreshIcon from "@mui/icons-material/Refresh";
+import HistoryIcon from "@mui/icons-material/History";
+import LibraryBooksIcon from "@mui/icons-material/LibraryBooks";
+import TrendingUpIcon from "@mui/icons-material/TrendingUp";
+import PercentIcon from "@mui/icons-material/Percent";
+import SavingsIcon from "@mui/icons-material/Savings";
+import SquareFootIcon from "@mui/icons-material/SquareFoot";
 import { CostItem } from "./CostUploader/types";
 import { useKafka } from "../contexts/KafkaContext";
+import { useWebSocket } from "../hooks/useWebSocket";
+import CostVersionsDialog from "./CostVersions";
+import { CostPlanVersion } from "./CostVersions/types";
+import UnitCostCatalogsDialog from "./UnitCostCatalogs";
+import PriceIndexDialog from "./PriceIndex";
+import { PriceEscalation } from "./PriceIndex/types";
+import CostSurchargesDialog from "./CostSurcharges";
+import { CostBreakdown } from "./CostSurcharges/types";
+import CostDashboard from "./CostDashboard";
+import CostChangeReports from "./CostChangeReports";
+import BudgetTargetsDialog from "./BudgetTargets";
+import { BudgetStatus } from "./BudgetTargets/types";
+import ReferenceQuantitiesDialog from "./ReferenceQuantities";
+import { CostBenchmarks } from "./ReferenceQuantities/types";
 
 // Define a type for uploaded files with date and status
 type UploadedFile = {
@@ -59,10 +82,12 @@ interface MongoElement {
   updated_at: string;
 }
 
-// Project data with real name mapping
+// Project data as listed by the backend, with the loaded elements
 interface ProjectDetails {
   id: string;
   name: string;
+  elementCount?: number;
+  updated_at?: string | null;
   elements?: MongoElement[];
 }
 
@@ -73,9 +98,32 @@ interface ProjectCostSummary {
   cost_data_count: number;
   total_from_cost_data: number;
   total_from_elements: number;
+  // Totals escalated to the target date of the project's price index
+  total_from_cost_data_escalated?: number;
+  total_from_elements_escalated?: number;
+  price_escalation?: PriceEscalation | null;
+  // Escalated element total from net to gross with the project's surcharges
+  cost_breakdown?: CostBreakdown;
+  // Budget targets of the project compared with the totals above
+  budget_status?: BudgetStatus[];
+  // Totals and eBKP main groups per m² GF and m³ GV
+  cost_benchmarks?: CostBenchmarks;
   updated_at: string;
 }
 
+// Derive the backend HTTP base URL from the WebSocket URL
+const getApiBaseUrl = () => {
+  let wsUrl = "ws://localhost:8001";
+  if ((window as { VITE_WEBSOCKET_URL?: string }).VITE_WEBSOCKET_URL) {
+    wsUrl = (window as { VITE_WEBSOCKET_URL?: string }).VITE_WEBSOCKET_URL!;
+  } else if (import.meta.env.VITE_WEBSOCKET_URL) {
+    wsUrl = import.meta.env.VITE_WEBSOCKET_URL;
+  }
+
+  const wsProtocol = wsUrl.startsWith("wss:") ? "https:" : "http:";
+  return `${wsProtocol}//${wsUrl.replace(/^ws(s)?:\/\//, "")}`;
+};
+
 const MainPage = () => {
   const Instructions = [
     {
@@ -94,41 +142,41 @@ const MainPage = () => {
     },
   ];
 
-  // Define project details with the project name as the key instead of "Projekt 1", etc.
-  const projectDetailsMap: Record<string, ProjectDetails> = {
-    "Recyclingzentrum Juch-Areal": {
-      id: "67e391836c096bf72bc23d97",
-      name: "Recyclingzentrum Juch-Areal",
-    },
-    "Gesamterneuerung Stadthausanlage": {
-      id: "67e392836c096bf72bc23d98",
-      name: "Gesamterneuerung Stadthausanlage",
-    },
-    "Amtshaus Walche": {
-      id: "67e393836c096bf72bc23d99",
-      name: "Amtshaus Walche",
-    },
-    "Gemeinschaftszentrum Wipkingen": {
-      id: "67e394836c096bf72bc23d9a",
-      name: "Gemeinschaftszentrum Wipkingen",
-    },
-  };
-
-  // Set the initial selected project to the first project name
-  const [selectedProject, setSelectedProject] = useState(
-    Object.keys(projectDetailsMap)[0]
-  );
+  // The selected project is kept in the URL so links to a project can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedProject = searchParams.get("project") || "";
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [totalCostSum, setTotalCostSum] = useState<number>(0);
   const [isLoadingCost, setIsLoadingCost] = useState<boolean>(false);
+  const [versionsOpen, setVersionsOpen] = useState(false);
+  const [catalogsOpen, setCatalogsOpen] = useState(false);
+  const [priceIndexOpen, setPriceIndexOpen] = useState(false);
+  const [priceEscalation, setPriceEscalation] =
+    useState<PriceEscalation | null>(null);
+  const [surchargesOpen, setSurchargesOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState(0);
+  const [costBreakdown, setCostBreakdown] = useState<CostBreakdown | null>(
+    null
+  );
+  const [budgetOpen, setBudgetOpen] = useState(false);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus[]>([]);
+  // Targets of the last budget overrun reported for the selected project
+  const [budgetAlert, setBudgetAlert] = useState<BudgetStatus[]>([]);
+  const [benchmarksOpen, setBenchmarksOpen] = useState(false);
+  const [costBenchmarks, setCostBenchmarks] = useState<CostBenchmarks | null>(
+    null
+  );
+  const { onMessage } = useWebSocket();
 
   // Get the Kafka context for WebSocket connection and MongoDB access
   useKafka();
 
   // Add state for managing project data
   const [loadingElements, setLoadingElements] = useState(false);
-  const [projectDetails, setProjectDetails] =
-    useState<Record<string, ProjectDetails>>(projectDetailsMap);
+  const [loadingProjects, setLoadingProjects] = useState(false);
+  const [projectDetails, setProjectDetails] = useState<
+    Record<string, ProjectDetails>
+  >({});
 
   // State for project elements
   const [currentElements, setCurrentElements] = useState<MongoElement[]>([]);
@@ -146,20 +194,7 @@ const MainPage = () => {
       console.log(`Fetching cost data for project: ${projectName}`);
 
       // Get the backend API base URL
-      let apiBaseUrl = "";
-
-      // Determine the API base URL from the WebSocket URL
-      let wsUrl = "ws://localhost:8001";
-      if ((window as { VITE_WEBSOCKET_URL?: string }).VITE_WEBSOCKET_URL) {
-        wsUrl = (window as { VITE_WEBSOCKET_URL?: string }).VITE_WEBSOCKET_URL!;
-      } else if (import.meta.env.VITE_WEBSOCKET_URL) {
-        wsUrl = import.meta.env.VITE_WEBSOCKET_URL;
-      }
-
-      // Convert WebSocket URL to HTTP URL
-      const wsProtocol = wsUrl.startsWith("wss:") ? "https:" : "http:";
-      const httpUrl = wsUrl.replace(/^ws(s)?:\/\//, "");
-      apiBaseUrl = `${wsProtocol}//${httpUrl}`;
+      const apiBaseUrl = getApiBaseUrl();
 
       // Encode the project name for the URL
       const encodedProjectName = encodeURIComponent(projectName);
@@ -181,6 +216,10 @@ const MainPage = () => {
       // Parse the response
       const costSummary: ProjectCostSummary = await response.json();
       console.log("Received cost summary:", costSummary);
+      setPriceEscalation(costSummary?.price_escalation || null);
+      setCostBreakdown(costSummary?.cost_breakdown || null);
+      setBudgetStatus(costSummary?.budget_status || []);
+      setCostBenchmarks(costSummary?.cost_benchmarks || null);
 
       // Update the total cost in the UI with the value from MongoDB
       if (costSummary && costSummary.total_from_elements !== undefined) {
@@ -462,43 +501,109 @@ const MainPage = () => {
     }
   };
 
-  // Define the handler for project change
-  const handleProjectChange = (event: SelectChangeEvent<string>) => {
-    const newProject = event.target.value;
-    setSelectedProject(newProject);
+  // Projects for the picker, including a project only known from the URL
+  const projectOptions = Object.values(projectDetails);
+  if (selectedProject && !projectDetails[selectedProject]) {
+    projectOptions.unshift({ id: "", name: selectedProject });
+  }
+
+  // Select a project by writing it to the URL
+  const selectProject = (projectName: string) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.set("project", projectName);
+      return next;
+    });
+  };
 
-    // When project changes, fetch both elements and cost data for the new project
-    setLoadingElements(true);
-    Promise.all([
-      fetchElementsForProject(newProject),
-      fetchProjectCostData(newProject),
-    ])
+  // Load the list of projects from the QTO database
+  useEffect(() => {
+    setLoadingProjects(true);
+    fetch(`${getApiBaseUrl()}/projects`)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(
+            `Failed to fetch projects: ${response.statusText} (${response.status})`
+          );
+        }
+        return response.json();
+      })
+      .then((projects: ProjectDetails[]) => {
+        setProjectDetails((prev) =>
+          Object.fromEntries(
+            projects.map((project) => [
+              project.name,
+              { ...prev[project.name], ...project },
+            ])
+          )
+        );
+      })
       .catch((error) => {
-        console.error("Error loading project data after change:", error);
+        console.error("Error loading projects:", error);
       })
       .finally(() => {
-        setLoadingElements(false);
+        setLoadingProjects(false);
       });
-  };
+  }, []);
+
+  // Open the first project if none is given in the URL
+  useEffect(() => {
+    const projectNames = Object.keys(projectDetails);
+    if (!selectedProject && projectNames.length > 0) {
+      setSearchParams({ project: projectNames[0] }, { replace: true });
+    }
+  }, [selectedProject, projectDetails, setSearchParams]);
 
-  // Load project data on component mount
+  // Load elements and cost data whenever the selected project changes
   useEffect(() => {
-    // Load data for the initially selected project, but only once on mount
     if (selectedProject) {
       setLoadingElements(true);
-      // Initial data load when the page first opens
       Promise.all([
         fetchElementsForProject(selectedProject),
         fetchProjectCostData(selectedProject),
       ])
         .catch((error) => {
-          console.error("Error loading initial project data:", error);
+          console.error("Error loading project data:", error);
         })
         .finally(() => {
           setLoadingElements(false);
         });
     }
-  }, []); // Empty dependency array ensures this only runs once on mount
+  }, [selectedProject]);
+
+  // Show budget overruns of the selected project as the backend reports them
+  useEffect(
+    () =>
+      onMessage("budget_exceeded", (data) => {
+        if (data.projectName !== selectedProject) return;
+
+        setBudgetAlert(data.exceeded);
+        setBudgetStatus((current) =>
+          current.map(
+            (status) =>
+              data.exceeded.find((entry) => entry.ebkp === status.ebkp) ||
+              status
+          )
+        );
+      }),
+    [selectedProject, onMessage]
+  );
+
+  const projectBudget = budgetStatus.find((status) => !status.ebkp);
+
+  // Show the restored version in the file list and reload the project total
+  const handleVersionRestored = (version: CostPlanVersion) => {
+    setUploadedFiles((prev) => [
+      ...prev,
+      {
+        name: `${version.fileName} (Version ${version.version})`,
+        date: new Date().toLocaleString("de-CH"),
+        status: "Wiederhergestellt",
+        totalCost: version.totalCost,
+      },
+    ]);
+    fetchProjectCostData(selectedProject);
+  };
 
   // Add a refresh button function for cost data
   const refreshCostData = () => {
@@ -622,21 +727,47 @@ const MainPage = () => {
               <FormLabel focused htmlFor="select-project">
                 Projekt:
               </FormLabel>
-              <FormControl variant="outlined" focused>
-                <Select
-                  id="select-project"
-                  size="small"
-                  value={selectedProject}
-                  onChange={handleProjectChange}
-                  labelId="select-project"
-                >
-                  {Object.keys(projectDetails).map((projectName) => (
-                    <MenuItem key={projectName} value={projectName}>
-                      {projectName}
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
+              <Autocomplete
+                id="select-project"
+                size="small"
+                options={projectOptions}
+                value={
+                  projectOptions.find(
+                    (project) => project.name === selectedProject
+                  ) || null
+                }
+                onChange={(_, project) =>
+                  project && selectProject(project.name)
+                }
+                getOptionLabel={(project) => project.name}
+                isOptionEqualToValue={(option, value) =>
+                  option.name === value.name
+                }
+                loading={loadingProjects}
+                loadingText="Projekte werden geladen..."
+                noOptionsText="Keine Projekte gefunden"
+                renderOption={(props, project) => (
+                  <li {...props} key={project.name}>
+                    <Box>
+                      <Typography variant="body2">{project.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {project.elementCount ?? 0} Elemente
+                        {project.updated_at &&
+                          ` · Aktualisiert: ${new Date(
+                            project.updated_at
+                          ).toLocaleString("de-CH")}`}
+                      </Typography>
+                    </Box>
+                  </li>
+                )}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    placeholder="Projekt suchen..."
+                    focused
+                  />
+                )}
+              />
             </div>
 
             {/* Total Cost Sum Box */}
@@ -668,7 +799,9 @@ const MainPage = () => {
                 color="common.black"
                 fontWeight="bold"
               >
-                {formatCurrency(totalCostSum)}
+                {formatCurrency(
+                  totalCostSum * (priceEscalation ? priceEscalation.factor : 1)
+                )}
                 <Typography
                   component="span"
                   variant="h6"
@@ -677,6 +810,85 @@ const MainPage = () => {
                   CHF
                 </Typography>
               </Typography>
+              {priceEscalation && (
+                <Typography variant="caption" sx={{ display: "block" }}>
+                  Teuerung auf {priceEscalation.targetDate} · nominal{" "}
+                  {formatCurrency(totalCostSum)} CHF
+                </Typography>
+              )}
+              {costBreakdown && costBreakdown.surcharges.length > 0 && (
+                <Box sx={{ mt: 1, mx: "auto", maxWidth: 280 }}>
+                  <Box display="flex" justifyContent="space-between">
+                    <Typography variant="caption">Netto</Typography>
+                    <Typography variant="caption">
+                      {formatCurrency(costBreakdown.net)} CHF
+                    </Typography>
+                  </Box>
+                  {costBreakdown.surcharges.map((surcharge, index) => (
+                    <Box
+                      key={`${surcharge.name}-${index}`}
+                      display="flex"
+                      justifyContent="space-between"
+                    >
+                      <Typography variant="caption">
+                        {surcharge.type === "percentage"
+                          ? `${surcharge.name} ${surcharge.value.toLocaleString(
+                              "de-CH"
+                            )}%`
+                          : surcharge.name}
+                        {surcharge.groups.length > 0 &&
+                          ` (${surcharge.groups.join(", ")})`}
+                      </Typography>
+                      <Typography variant="caption">
+                        + {formatCurrency(surcharge.amount)} CHF
+                      </Typography>
+                    </Box>
+                  ))}
+                  <Box
+                    display="flex"
+                    justifyContent="space-between"
+                    sx={{ borderTop: "1px solid rgba(0, 0, 0, 0.3)" }}
+                  >
+                    <Typography variant="caption" fontWeight="bold">
+                      Brutto
+                    </Typography>
+                    <Typography variant="caption" fontWeight="bold">
+                      {formatCurrency(costBreakdown.gross)} CHF
+                    </Typography>
+                  </Box>
+                </Box>
+              )}
+              {projectBudget && (
+                <Typography
+                  variant="caption"
+                  sx={{
+                    display: "block",
+                    color: projectBudget.exceeded ? "error.main" : undefined,
+                    fontWeight: projectBudget.exceeded ? "bold" : undefined,
+                  }}
+                >
+                  Budget {formatCurrency(projectBudget.amount)} CHF ·{" "}
+                  {(projectBudget.ratio * 100).toFixed(0)}% ausgeschöpft
+                </Typography>
+              )}
+              {costBenchmarks &&
+                (costBenchmarks.gross.per_gf !== null ||
+                  costBenchmarks.gross.per_gv !== null) && (
+                  <Typography variant="caption" sx={{ display: "block" }}>
+                    {[
+                      costBenchmarks.gross.per_gf !== null &&
+                        `${formatCurrency(
+                          costBenchmarks.gross.per_gf
+                        )} CHF/m² GF`,
+                      costBenchmarks.gross.per_gv !== null &&
+                        `${formatCurrency(
+                          costBenchmarks.gross.per_gv
+                        )} CHF/m³ GV`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </Typography>
+                )}
               <Typography
                 variant="caption"
                 sx={{ mt: 0.5, display: "block", cursor: "pointer" }}
@@ -833,24 +1045,104 @@ const MainPage = () => {
               <Typography variant="h2" className="text-5xl">
                 Kostendaten hochladen
               </Typography>
-              <Button
-                variant="outlined"
-                color="primary"
-                size="medium"
-                startIcon={<DownloadIcon />}
-                onClick={handleTemplateDownload}
-              >
-                Kosten-Template herunterladen
-              </Button>
+              <Box sx={{ display: "flex", gap: 1 }}>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  size="medium"
+                  startIcon={<HistoryIcon />}
+                  onClick={() => setVersionsOpen(true)}
+                >
+                  Versionen
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  size="medium"
+                  startIcon={<LibraryBooksIcon />}
+                  onClick={() => setCatalogsOpen(true)}
+                >
+                  Kataloge
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  size="medium"
+                  startIcon={<TrendingUpIcon />}
+                  onClick={() => setPriceIndexOpen(true)}
+                >
+                  Teuerung
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  size="medium"
+                  startIcon={<PercentIcon />}
+                  onClick={() => setSurchargesOpen(true)}
+                >
+                  Zuschläge
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  size="medium"
+                  startIcon={<SavingsIcon />}
+                  onClick={() => setBudgetOpen(true)}
+                >
+                  Budget
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  size="medium"
+                  startIcon={<SquareFootIcon />}
+                  onClick={() => setBenchmarksOpen(true)}
+                >
+                  Kennzahlen
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  size="medium"
+                  startIcon={<DownloadIcon />}
+                  onClick={handleTemplateDownload}
+                >
+                  Kosten-Template herunterladen
+                </Button>
+              </Box>
             </Box>
 
-            {/* Cost Uploader Component */}
-            <div className="flex-grow flex flex-col h-full overflow-hidden">
+            <Tabs
+              value={activeTab}
+              onChange={(_, newValue) => setActiveTab(newValue)}
+              sx={{ mt: -4, mb: 3 }}
+            >
+              <Tab label="Kostenerfassung" />
+              <Tab label="Dashboard" />
+              <Tab label="Änderungen" />
+            </Tabs>
+
+            {/* Cost dashboard, loaded each time the tab is opened */}
+            {activeTab === 1 && <CostDashboard projectName={selectedProject} />}
+
+            {/* Change reports of the model updates, reloaded with each update */}
+            {activeTab === 2 && (
+              <CostChangeReports projectName={selectedProject} />
+            )}
+
+            {/* Cost Uploader Component, kept mounted to preserve an upload in progress */}
+            <div
+              className="flex-grow flex flex-col h-full overflow-hidden"
+              style={{ display: activeTab === 0 ? undefined : "none" }}
+            >
               <CostUploader
                 onFileUploaded={handleFileUploaded}
                 totalElements={0}
                 totalCost={totalCostSum}
                 projectName={selectedProject}
+                priceEscalation={priceEscalation}
+                budgetStatus={budgetStatus}
+                costBenchmarks={costBenchmarks}
                 elementsComponent={
                   <Box
                     sx={{
@@ -895,6 +1187,68 @@ const MainPage = () => {
           </div>
         </div>
       </div>
+
+      <CostVersionsDialog
+        open={versionsOpen}
+        projectName={selectedProject}
+        onClose={() => setVersionsOpen(false)}
+        onRestored={handleVersionRestored}
+      />
+
+      <UnitCostCatalogsDialog
+        open={catalogsOpen}
+        projectName={selectedProject}
+        onClose={() => setCatalogsOpen(false)}
+      />
+
+      <PriceIndexDialog
+        open={priceIndexOpen}
+        projectName={selectedProject}
+        onClose={() => setPriceIndexOpen(false)}
+        onEscalationChanged={refreshCostData}
+      />
+
+      <CostSurchargesDialog
+        open={surchargesOpen}
+        projectName={selectedProject}
+        onClose={() => setSurchargesOpen(false)}
+        onSaved={refreshCostData}
+      />
+
+      <BudgetTargetsDialog
+        open={budgetOpen}
+        projectName={selectedProject}
+        budgetStatus={budgetStatus}
+        onClose={() => setBudgetOpen(false)}
+        onSaved={setBudgetStatus}
+      />
+
+      <ReferenceQuantitiesDialog
+        open={benchmarksOpen}
+        projectName={selectedProject}
+        benchmarks={costBenchmarks}
+        onClose={() => setBenchmarksOpen(false)}
+        onSaved={setCostBenchmarks}
+      />
+
+      <Snackbar
+        open={budgetAlert.length > 0}
+        autoHideDuration={10000}
+        onClose={() => setBudgetAlert([])}
+        anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+      >
+        <Alert severity="warning" onClose={() => setBudgetAlert([])}>
+          Budget überschritten:{" "}
+          {budgetAlert
+            .map(
+              (status) =>
+                `${status.ebkp || "Projekt"} ${(status.ratio * 100).toFixed(
+                  0
+                )}%`
+            )
+            .join(", ")}
+        </Alert>
+      </Snackbar>
     </Box>
   );
 };
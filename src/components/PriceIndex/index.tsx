@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import { PriceEscalation, PriceIndex, PriceIndexPoint } from "./types";
+
+interface PriceIndexDialogProps {
+  open: boolean;
+  projectName: string;
+  onClose: () => void;
+  onEscalationChanged?: (escalation: PriceEscalation | null) => void;
+}
+
+// Parse one "date; value" pair per line, e.g. "2024-04; 112,4"
+const parsePoints = (text: string): PriceIndexPoint[] =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line)
+    .map((line) => {
+      const [date, value] = line.split(/[;\t]|\s+/).filter((part) => part);
+      return { date, value: Number((value || "").replace(",", ".")) };
+    });
+
+// Format the values of a series for the text field
+const formatPoints = (points: PriceIndexPoint[]): string =>
+  points.map((point) => `${point.date}; ${point.value}`).join("\n");
+
+const PriceIndexDialog = ({
+  open,
+  projectName,
+  onClose,
+  onEscalationChanged,
+}: PriceIndexDialogProps) => {
+  const { sendRequest } = useWebSocket();
+  const [indices, setIndices] = useState<PriceIndex[]>([]);
+  const [escalation, setEscalation] = useState<PriceEscalation | null>(null);
+  const [indexName, setIndexName] = useState("");
+  const [baseDate, setBaseDate] = useState("");
+  const [targetDate, setTargetDate] = useState("");
+  const [seriesName, setSeriesName] = useState("");
+  const [seriesValues, setSeriesValues] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadIndices = useCallback(() => {
+    setLoading(true);
+    setError(null);
+
+    sendRequest({ type: "get_price_indices", payload: { projectName } })
+      .then((response) => {
+        setIndices(response.indices || []);
+        setEscalation(response.escalation || null);
+        setIndexName(response.escalation?.indexName || "");
+        setBaseDate(response.escalation?.baseDate || "");
+        setTargetDate(response.escalation?.targetDate || "");
+      })
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [projectName, sendRequest]);
+
+  // Load the series when the dialog opens
+  useEffect(() => {
+    if (open) loadIndices();
+  }, [open, loadIndices]);
+
+  // Escalate the Kennwerte of this project, or use them as uploaded
+  const handleApply = async (enabled: boolean) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await sendRequest({
+        type: "set_price_escalation",
+        payload: {
+          projectName,
+          escalation: enabled ? { indexName, baseDate, targetDate } : null,
+        },
+      });
+      setEscalation(response.escalation || null);
+      if (!enabled) {
+        setIndexName("");
+        setBaseDate("");
+        setTargetDate("");
+      }
+      onEscalationChanged?.(response.escalation || null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Save the entered series under its name
+  const handleSaveSeries = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await sendRequest({
+        type: "save_price_index",
+        payload: {
+          indexName: seriesName.trim(),
+          points: parsePoints(seriesValues),
+        },
+      });
+      setSeriesName("");
+      setSeriesValues("");
+      loadIndices();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Typography variant="h5">Teuerung</Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          {projectName}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Kennwerte aus älteren Projekten oder Vorlagen sind in Preisen ihres
+          Stichtags. Mit einem Baupreisindex werden die Kosten vom Basisdatum
+          auf das Zieldatum hochgerechnet; die Kennwerte selbst bleiben
+          unverändert.
+        </Typography>
+
+        <Box display="flex" gap={2} sx={{ mb: 1 }}>
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel>Baupreisindex</InputLabel>
+            <Select
+              label="Baupreisindex"
+              value={indexName}
+              disabled={saving || loading}
+              onChange={(e) => setIndexName(e.target.value)}
+            >
+              {indices.map((index) => (
+                <MenuItem key={index.name} value={index.name}>
+                  {index.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="date"
+            label="Basisdatum"
+            value={baseDate}
+            onChange={(e) => setBaseDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="Zieldatum"
+            value={targetDate}
+            onChange={(e) => setTargetDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button
+            variant="outlined"
+            disabled={saving || !indexName || !baseDate || !targetDate}
+            onClick={() => handleApply(true)}
+          >
+            Anwenden
+          </Button>
+          <Button
+            color="inherit"
+            disabled={saving || !escalation}
+            onClick={() => handleApply(false)}
+          >
+            Aufheben
+          </Button>
+        </Box>
+
+        <Typography variant="body2" sx={{ mb: 3 }}>
+          {escalation
+            ? `Faktor ${escalation.factor.toLocaleString("de-CH", {
+                maximumFractionDigits: 4,
+              })} (Index ${escalation.baseValue} am ${escalation.baseDate} → ${
+                escalation.targetValue
+              } am ${escalation.targetDate})`
+            : "Keine Teuerung, die Kennwerte werden nominal verwendet."}
+        </Typography>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          indices.length > 0 && (
+            <TableContainer sx={{ maxHeight: 250, mb: 3 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Indexreihe</TableCell>
+                    <TableCell align="right">Werte</TableCell>
+                    <TableCell>Zeitraum</TableCell>
+                    <TableCell>Aktualisiert</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {indices.map((index) => (
+                    <TableRow
+                      key={index.name}
+                      hover
+                      sx={{ cursor: "pointer" }}
+                      onClick={() => {
+                        setSeriesName(index.name);
+                        setSeriesValues(formatPoints(index.points));
+                      }}
+                    >
+                      <TableCell>{index.name}</TableCell>
+                      <TableCell align="right">{index.points.length}</TableCell>
+                      <TableCell>
+                        {index.points[0]?.date} –{" "}
+                        {index.points[index.points.length - 1]?.date}
+                      </TableCell>
+                      <TableCell>
+                        {new Date(index.updated_at).toLocaleString("de-CH")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )
+        )}
+
+        <Typography variant="h6" gutterBottom>
+          Indexreihe erfassen
+        </Typography>
+        <TextField
+          size="small"
+          fullWidth
+          label="Name"
+          value={seriesName}
+          onChange={(e) => setSeriesName(e.target.value)}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          size="small"
+          fullWidth
+          multiline
+          minRows={4}
+          label="Werte (eine Zeile pro Stichtag: Datum; Indexwert)"
+          placeholder={"2023-04; 100,0\n2023-10; 101,3\n2024-04; 102,1"}
+          value={seriesValues}
+          onChange={(e) => setSeriesValues(e.target.value)}
+          sx={{ mb: 2 }}
+        />
+        <Button
+          variant="outlined"
+          disabled={saving || !seriesName.trim() || !seriesValues.trim()}
+          onClick={handleSaveSeries}
+        >
+          Speichern
+        </Button>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} color="inherit">
+          Schliessen
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PriceIndexDialog;
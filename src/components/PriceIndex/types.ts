@@ -0,0 +1,23 @@
+// Value of a construction price index series at a date (YYYY-MM-DD)
+export interface PriceIndexPoint {
+  date: string;
+  value: number;
+}
+
+// Construction price index series entered by the user, stored on the backend
+export interface PriceIndex {
+  name: string;
+  points: PriceIndexPoint[];
+  updated_at: string;
+}
+
+// Escalation of a project's Kennwerte from the base date to the target date,
+// "factor" is the target index value divided by the base index value
+export interface PriceEscalation {
+  indexName: string;
+  baseDate: string;
+  targetDate: string;
+  baseValue: number;
+  targetValue: number;
+  factor: number;
+}
@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import {
+  CostBenchmark,
+  CostBenchmarks,
+  QtoReferenceQuantities,
+  ReferenceQuantities,
+  ReferenceQuantityKey,
+} from "./types";
+
+interface ReferenceQuantitiesDialogProps {
+  open: boolean;
+  projectName: string;
+  benchmarks: CostBenchmarks | null;
+  onClose: () => void;
+  onSaved?: (benchmarks: CostBenchmarks | null) => void;
+}
+
+const QUANTITIES: { key: ReferenceQuantityKey; label: string; unit: string }[] =
+  [
+    { key: "gf", label: "Geschossfläche GF", unit: "m²" },
+    { key: "gv", label: "Gebäudevolumen GV", unit: "m³" },
+  ];
+
+// Quantity being edited: its source ("" when unset) and the value as typed
+interface QuantityRow {
+  source: "" | "manual" | "qto";
+  value: string;
+}
+
+const EMPTY_ROWS: Record<ReferenceQuantityKey, QuantityRow> = {
+  gf: { source: "", value: "" },
+  gv: { source: "", value: "" },
+};
+
+const toRows = (
+  quantities: ReferenceQuantities
+): Record<ReferenceQuantityKey, QuantityRow> => ({
+  gf: {
+    source: quantities.gf?.source || "",
+    value: quantities.gf?.value ? String(quantities.gf.value) : "",
+  },
+  gv: {
+    source: quantities.gv?.source || "",
+    value: quantities.gv?.value ? String(quantities.gv.value) : "",
+  },
+});
+
+const parseNumber = (value: string) =>
+  Number(value.replace(/['’\s]/g, "").replace(",", "."));
+
+const toQuantities = (
+  rows: Record<ReferenceQuantityKey, QuantityRow>
+): ReferenceQuantities => ({
+  gf: rows.gf.source
+    ? { source: rows.gf.source, value: parseNumber(rows.gf.value) }
+    : null,
+  gv: rows.gv.source
+    ? { source: rows.gv.source, value: parseNumber(rows.gv.value) }
+    : null,
+});
+
+const formatNumber = (value: number | null, decimals = 0): string =>
+  value === null
+    ? "—"
+    : value.toLocaleString("de-CH", {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      });
+
+const BenchmarkRow = ({
+  label,
+  benchmark,
+  bold = false,
+}: {
+  label: string;
+  benchmark: CostBenchmark;
+  bold?: boolean;
+}) => (
+  <TableRow sx={bold ? { "& td": { fontWeight: "bold" } } : undefined}>
+    <TableCell>{label}</TableCell>
+    <TableCell align="right">{formatNumber(benchmark.cost)}</TableCell>
+    <TableCell align="right">{formatNumber(benchmark.per_gf)}</TableCell>
+    <TableCell align="right">{formatNumber(benchmark.per_gv)}</TableCell>
+  </TableRow>
+);
+
+const ReferenceQuantitiesDialog = ({
+  open,
+  projectName,
+  benchmarks,
+  onClose,
+  onSaved,
+}: ReferenceQuantitiesDialogProps) => {
+  const { sendRequest } = useWebSocket();
+  const [rows, setRows] = useState(EMPTY_ROWS);
+  const [qtoQuantities, setQtoQuantities] =
+    useState<QtoReferenceQuantities | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuantities = useCallback(() => {
+    setLoading(true);
+    setError(null);
+
+    sendRequest({ type: "get_reference_quantities", payload: { projectName } })
+      .then((response) => {
+        setRows(
+          response.referenceQuantities
+            ? toRows(response.referenceQuantities)
+            : EMPTY_ROWS
+        );
+        setQtoQuantities(response.qtoQuantities || null);
+      })
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [projectName, sendRequest]);
+
+  // Load the quantities when the dialog opens
+  useEffect(() => {
+    if (open) loadQuantities();
+  }, [open, loadQuantities]);
+
+  const updateRow = (
+    key: ReferenceQuantityKey,
+    changes: Partial<QuantityRow>
+  ) =>
+    setRows((current) => ({
+      ...current,
+      [key]: { ...current[key], ...changes },
+    }));
+
+  const invalid = QUANTITIES.some(({ key }) => {
+    if (rows[key].source !== "manual") return false;
+    const value = parseNumber(rows[key].value);
+    return !Number.isFinite(value) || value <= 0;
+  });
+
+  // Replace the quantities of the project, the benchmarks are recalculated
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await sendRequest({
+        type: "save_reference_quantities",
+        payload: { projectName, referenceQuantities: toQuantities(rows) },
+      });
+      if (response.referenceQuantities) {
+        setRows(toRows(response.referenceQuantities));
+      }
+      onSaved?.(response.benchmarks || null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Typography variant="h5">Kennzahlen</Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          {projectName}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Bezugsmengen nach SIA 416 für den Vergleich der Kosten pro m² GF und
+          m³ GV. Aus dem Modell werden Fläche und Volumen der Räume (IfcSpace)
+          summiert und bei jeder Aktualisierung neu berechnet.
+        </Typography>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          QUANTITIES.map(({ key, label, unit }) => (
+            <Box key={key} display="flex" alignItems="center" gap={2} mb={2}>
+              <Typography sx={{ width: 180 }}>{label}</Typography>
+              <Select
+                size="small"
+                value={rows[key].source}
+                displayEmpty
+                sx={{ width: 180 }}
+                onChange={(e) =>
+                  updateRow(key, {
+                    source: e.target.value as QuantityRow["source"],
+                  })
+                }
+              >
+                <MenuItem value="">Keine</MenuItem>
+                <MenuItem value="manual">Manuell</MenuItem>
+                <MenuItem value="qto">Aus Modell</MenuItem>
+              </Select>
+              {rows[key].source === "manual" && (
+                <TextField
+                  size="small"
+                  value={rows[key].value}
+                  sx={{ width: 160 }}
+                  InputProps={{ endAdornment: unit }}
+                  onChange={(e) => updateRow(key, { value: e.target.value })}
+                />
+              )}
+              {rows[key].source === "qto" && qtoQuantities && (
+                <Typography variant="body2" color="text.secondary">
+                  {formatNumber(qtoQuantities[key])} {unit} aus{" "}
+                  {qtoQuantities.spaces_count} Räumen
+                </Typography>
+              )}
+            </Box>
+          ))
+        )}
+
+        {benchmarks && (
+          <TableContainer sx={{ mt: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>eBKP-Hauptgruppe</TableCell>
+                  <TableCell align="right">Kosten CHF</TableCell>
+                  <TableCell align="right">CHF/m² GF</TableCell>
+                  <TableCell align="right">CHF/m³ GV</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {benchmarks.by_group.map((entry) => (
+                  <BenchmarkRow
+                    key={entry.group}
+                    label={entry.group || "Ohne eBKP"}
+                    benchmark={entry}
+                  />
+                ))}
+                <BenchmarkRow label="Netto" benchmark={benchmarks.net} bold />
+                <BenchmarkRow
+                  label="Brutto"
+                  benchmark={benchmarks.gross}
+                  bold
+                />
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} color="inherit">
+          Schliessen
+        </Button>
+        <Button
+          variant="contained"
+          disabled={loading || saving || invalid}
+          onClick={handleSave}
+        >
+          Speichern
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReferenceQuantitiesDialog;
@@ -0,0 +1,39 @@
+// Reference quantities of SIA 416: gross floor area GF (m²) and building
+// volume GV (m³)
+export type ReferenceQuantityKey = "gf" | "gv";
+
+// Reference quantity entered by hand or derived from the spaces of the QTO
+// model. Derived values are filled in by the backend, not stored.
+export interface ReferenceQuantity {
+  source: "manual" | "qto";
+  value?: number;
+}
+
+export type ReferenceQuantities = Record<
+  ReferenceQuantityKey,
+  ReferenceQuantity | null
+>;
+
+// Floor area and volume of the spaces (IfcSpace) of a project's model
+export interface QtoReferenceQuantities {
+  gf: number;
+  gv: number;
+  spaces_count: number;
+}
+
+// Cost and its value per m² GF and m³ GV, null without the reference quantity
+export interface CostBenchmark {
+  cost: number;
+  per_gf: number | null;
+  per_gv: number | null;
+}
+
+// Benchmarks of a project: net and gross totals and the escalated net cost
+// of each eBKP main group
+export interface CostBenchmarks {
+  gf: ReferenceQuantity | null;
+  gv: ReferenceQuantity | null;
+  net: CostBenchmark;
+  gross: CostBenchmark;
+  by_group: (CostBenchmark & { group: string })[];
+}
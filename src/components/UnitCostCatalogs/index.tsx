@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useWebSocket } from "../../hooks/useWebSocket";
+import { UnitCostCatalog } from "./types";
+
+interface UnitCostCatalogsDialogProps {
+  open: boolean;
+  projectName: string;
+  onClose: () => void;
+}
+
+const UnitCostCatalogsDialog = ({
+  open,
+  projectName,
+  onClose,
+}: UnitCostCatalogsDialogProps) => {
+  const { sendRequest } = useWebSocket();
+  const [catalogs, setCatalogs] = useState<UnitCostCatalog[]>([]);
+  const [referenceCatalog, setReferenceCatalog] = useState("");
+  const [catalogName, setCatalogName] = useState("");
+  const [isReference, setIsReference] = useState(false);
+  const [referenceProjects, setReferenceProjects] = useState<string[]>([]);
+  const [libraryCodeCount, setLibraryCodeCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCatalogs = useCallback(() => {
+    setLoading(true);
+    setError(null);
+
+    Promise.all([
+      sendRequest({ type: "get_unit_cost_catalogs", payload: { projectName } }),
+      sendRequest({ type: "get_unit_cost_library", payload: { projectName } }),
+    ])
+      .then(([catalogResponse, libraryResponse]) => {
+        setCatalogs(catalogResponse.catalogs || []);
+        setReferenceCatalog(catalogResponse.referenceCatalog || "");
+        setIsReference(libraryResponse.isReference || false);
+        setReferenceProjects(libraryResponse.referenceProjects || []);
+        setLibraryCodeCount((libraryResponse.library || []).length);
+      })
+      .catch((error: Error) => setError(error.message))
+      .finally(() => setLoading(false));
+  }, [projectName, sendRequest]);
+
+  // Load the catalogs when the dialog opens
+  useEffect(() => {
+    if (open) loadCatalogs();
+  }, [open, loadCatalogs]);
+
+  // Unit costs missing in the project are taken from the selected catalog
+  const handleReferenceChange = async (value: string) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await sendRequest({
+        type: "set_reference_catalog",
+        payload: { projectName, catalogName: value || null },
+      });
+      setReferenceCatalog(response.referenceCatalog || "");
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Include the Kennwerte of this project in the reference library
+  const handleReferenceProjectChange = async (checked: boolean) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await sendRequest({
+        type: "set_reference_project",
+        payload: { projectName, isReference: checked },
+      });
+      setIsReference(response.isReference || false);
+      setReferenceProjects((prev) =>
+        response.isReference
+          ? [...prev.filter((name) => name !== projectName), projectName]
+          : prev.filter((name) => name !== projectName)
+      );
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Publish the unit costs of this project under the entered name
+  const handlePublish = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await sendRequest({
+        type: "save_unit_cost_catalog",
+        payload: { projectName, catalogName: catalogName.trim() },
+      });
+      setCatalogName("");
+      loadCatalogs();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Typography variant="h5">Kennwert-Kataloge</Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          {projectName}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Elemente werden mit den Kennwerten dieses Projekts bewertet. Fehlt ein
+          Kennwert, wird er aus dem Referenzkatalog übernommen.
+        </Typography>
+
+        <FormControl fullWidth size="small" sx={{ mb: 3 }}>
+          <InputLabel>Referenzkatalog</InputLabel>
+          <Select
+            label="Referenzkatalog"
+            value={referenceCatalog}
+            disabled={saving || loading}
+            onChange={(e) => handleReferenceChange(e.target.value)}
+          >
+            <MenuItem value="">Kein Referenzkatalog</MenuItem>
+            {catalogs.map((catalog) => (
+              <MenuItem key={catalog.name} value={catalog.name}>
+                {catalog.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          catalogs.length > 0 && (
+            <TableContainer sx={{ maxHeight: 250, mb: 3 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Katalog</TableCell>
+                    <TableCell>Quellprojekt</TableCell>
+                    <TableCell align="right">Kennwerte</TableCell>
+                    <TableCell>Aktualisiert</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {catalogs.map((catalog) => (
+                    <TableRow key={catalog.name} hover>
+                      <TableCell>{catalog.name}</TableCell>
+                      <TableCell>{catalog.sourceProject}</TableCell>
+                      <TableCell align="right">{catalog.itemCount}</TableCell>
+                      <TableCell>
+                        {new Date(catalog.updated_at).toLocaleString("de-CH")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )
+        )}
+
+        <Typography variant="h6" gutterBottom>
+          Referenzbibliothek
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Die Bibliothek fasst die Kennwerte der Referenzprojekte pro eBKP-Code
+          zusammen. Leere Kennwerte können daraus ergänzt werden, stark
+          abweichende Werte werden in der Vorschau markiert.
+          {referenceProjects.length > 0 &&
+            ` Referenzprojekte: ${referenceProjects.join(", ")}.`}
+          {libraryCodeCount > 0 &&
+            ` Für dieses Projekt sind ${libraryCodeCount} eBKP-Codes verfügbar.`}
+        </Typography>
+        <FormControlLabel
+          sx={{ mb: 3 }}
+          control={
+            <Switch
+              checked={isReference}
+              disabled={saving || loading}
+              onChange={(e) => handleReferenceProjectChange(e.target.checked)}
+            />
+          }
+          label="Kennwerte dieses Projekts als Referenz verwenden"
+        />
+
+        <Typography variant="h6" gutterBottom>
+          Kennwerte als Katalog veröffentlichen
+        </Typography>
+        <Box display="flex" gap={2}>
+          <TextField
+            size="small"
+            fullWidth
+            label="Katalogname"
+            value={catalogName}
+            onChange={(e) => setCatalogName(e.target.value)}
+          />
+          <Button
+            variant="outlined"
+            disabled={saving || !catalogName.trim()}
+            onClick={handlePublish}
+          >
+            Veröffentlichen
+          </Button>
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} color="inherit">
+          Schliessen
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default UnitCostCatalogsDialog;
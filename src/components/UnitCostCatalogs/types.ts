@@ -0,0 +1,7 @@
+// Summary of a company-wide reference unit cost catalog, as sent by the backend
+export interface UnitCostCatalog {
+  name: string;
+  itemCount: number;
+  sourceProject: string;
+  updated_at: string;
+}
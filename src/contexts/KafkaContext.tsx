@@ -6,7 +6,15 @@ import React, {
   ReactNode,
   useCallback,
 } from "react";
-import { CostItem } from "../components/CostUploader/types";
+import { CostItem, MatchingOverride } from "../components/CostUploader/types";
+import { CostChangeReportSummary } from "../components/CostChangeReports/types";
+import { useWebSocket } from "../hooks/useWebSocket";
+import {
+  ConnectionStatus,
+  getWebSocketUrl,
+  onMessage,
+  sendRequest,
+} from "../utils/websocket";
 
 // MongoDB element data structure
 interface MongoElement {
@@ -38,6 +46,7 @@ interface ProjectUpdate {
   elementCount: number;
   totalCost?: number;
   timestamp: string;
+  changeReport?: CostChangeReportSummary | null;
 }
 
 // Add a new interface for eBKP codes
@@ -53,6 +62,8 @@ interface ProjectElement {
   ebkpCode: string;
   quantity: number;
   area: number;
+  volume: number;
+  length: number;
   description?: string;
   category?: string;
   level?: string;
@@ -85,11 +96,6 @@ interface KafkaContextProps {
   formatTimestamp: (timestamp: string) => string;
   mongoGetElements: (projectId: string) => Promise<MongoElement[]>;
   mongoProjectCost: (projectId: string) => Promise<number>;
-  sendMessage: (message: string) => void;
-  registerMessageHandler: (
-    messageId: string,
-    handler: (data: Record<string, unknown>) => void
-  ) => void;
   availableEbkpCodes: EbkpCodeInfo[];
   matchCodes: (codes: string[]) => EbkpCodeInfo[];
   getProjectElements: (projectName: string) => Promise<ProjectElement[]>;
@@ -98,6 +104,11 @@ interface KafkaContextProps {
     ebkpCode: string
   ) => Promise<ProjectElement[]>;
   getCachedProjectData: (projectName: string) => ProjectData | null;
+  getMatchingOverrides: (projectName: string) => Promise<MatchingOverride[]>;
+  saveMatchingOverrides: (
+    projectName: string,
+    overrides: MatchingOverride[]
+  ) => Promise<void>;
 }
 
 // Create the context with default values
@@ -111,13 +122,13 @@ const KafkaContext = createContext<KafkaContextProps>({
   formatTimestamp: (timestamp: string) => timestamp,
   mongoGetElements: () => Promise.resolve([]),
   mongoProjectCost: () => Promise.resolve(0),
-  sendMessage: () => {},
-  registerMessageHandler: () => {},
   availableEbkpCodes: [],
   matchCodes: () => [],
   getProjectElements: () => Promise.resolve([]),
   getElementsForEbkp: () => Promise.resolve([]),
   getCachedProjectData: () => null,
+  getMatchingOverrides: () => Promise.resolve([]),
+  saveMatchingOverrides: () => Promise.resolve(),
 });
 
 // Custom hook to use the Kafka context
@@ -149,9 +160,9 @@ export const KafkaProvider: React.FC<KafkaProviderProps> = ({ children }) => {
   const [projectUpdates, setProjectUpdates] = useState<
     Record<string, ProjectUpdate>
   >({});
-  const [connectionStatus, setConnectionStatus] =
-    useState<string>("CONNECTING");
-  const [websocket, setWebsocket] = useState<WebSocket | null>(null);
+  const { status } = useWebSocket();
+  const connectionStatus =
+    status === ConnectionStatus.ERROR ? ConnectionStatus.DISCONNECTED : status;
   const [availableEbkpCodes, setAvailableEbkpCodes] = useState<EbkpCodeInfo[]>(
     []
   );
@@ -161,175 +172,70 @@ export const KafkaProvider: React.FC<KafkaProviderProps> = ({ children }) => {
     Record<string, ProjectData>
   >({});
 
-  // Message response handlers - store callbacks for messages with specific messageIds
-  const [messageHandlers] = useState<
-    Record<string, (data: Record<string, unknown>) => void>
-  >({});
-
-  // Connect to WebSocket and listen for messages
+  // Extract the HTTP URL from the WebSocket URL for REST API calls
   useEffect(() => {
-    // Check if WebSocket is supported
-    if (!("WebSocket" in window)) {
-      console.error("WebSockets are not supported in this browser");
-      setConnectionStatus("DISCONNECTED");
-      return;
-    }
-
-    // URL for WebSocket connection
-    let wsUrl = "ws://localhost:8001";
-    try {
-      if (import.meta.env && import.meta.env.VITE_WEBSOCKET_URL) {
-        wsUrl = import.meta.env.VITE_WEBSOCKET_URL;
-      }
-    } catch (error) {
-      console.warn("Error accessing environment variables:", error);
-    }
-
-    // Extract the HTTP URL from WebSocket URL for REST API calls
     try {
+      const wsUrl = getWebSocketUrl();
       const wsProtocol = wsUrl.startsWith("wss:") ? "https:" : "http:";
       const httpUrl = wsUrl.replace(/^ws(s)?:\/\//, "");
-      const apiBaseUrl = `${wsProtocol}//${httpUrl}`;
-      setBackendUrl(apiBaseUrl);
+      setBackendUrl(`${wsProtocol}//${httpUrl}`);
     } catch (error) {
       console.error("Error setting backend URL:", error);
       setBackendUrl("");
     }
+  }, []);
 
-    let ws: WebSocket | null = null;
-
-    try {
-      // Set up connection timeout
-      const timeoutId = setTimeout(() => {
-        if (ws && ws.readyState !== WebSocket.OPEN) {
-          console.warn("WebSocket connection timeout in KafkaContext");
-          if (ws) ws.close();
-          setConnectionStatus("DISCONNECTED");
-        }
-      }, 5000);
-
-      // Initialize WebSocket
-      ws = new WebSocket(wsUrl);
-      setWebsocket(ws);
-
-      ws.onopen = () => {
-        console.log("WebSocket connection established for KafkaContext");
-        clearTimeout(timeoutId);
-        setConnectionStatus("CONNECTED");
-
-        // Request available eBKP codes after connection is established
-        requestAvailableEbkpCodes(ws);
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data) as Record<string, unknown>;
-
-          // Handle receiving eBKP codes list from server
-          if (
-            data.type === "available_ebkp_codes" &&
-            Array.isArray(data.codes)
-          ) {
-            console.log(
-              "Received available eBKP codes from server:",
-              data.codes
-            );
-
-            // Transform the codes into our EbkpCodeInfo format
-            const codeObjects: EbkpCodeInfo[] = data.codes.map(
-              (code: string) => ({
-                code,
-                type: code.split(".")[0], // Extract main type like C1, C2, etc.
-              })
-            );
-
-            setAvailableEbkpCodes(codeObjects);
-            return;
-          }
-
-          // Check if this message has a messageId that has a registered handler
-          if (
-            typeof data.messageId === "string" &&
-            messageHandlers[data.messageId]
-          ) {
-            // Call the registered handler for this message ID
-            messageHandlers[data.messageId](data);
-            // Clean up the handler after use
-            delete messageHandlers[data.messageId];
-            return;
-          }
-
-          // Skip connection status messages
-          if (data.type === "connection") {
-            // Update connection status if included in the message
-            if (typeof data.kafka === "string") {
-              setConnectionStatus(data.kafka);
-            }
-            return;
-          }
-
-          // Handle project update notifications
-          if (
-            data.type === "project_update" &&
-            typeof data.projectName === "string" &&
-            typeof data.projectId === "string" &&
-            typeof data.totalElements === "number" &&
-            typeof data.timestamp === "string"
-          ) {
-            console.log(
-              "KafkaContext: Received project update notification:",
-              data
-            );
+  // Request available eBKP codes whenever the connection is established
+  useEffect(() => {
+    if (status !== ConnectionStatus.CONNECTED) return;
 
-            // Store project update information
-            setProjectUpdates((prev) => ({
-              ...prev,
-              [data.projectName as string]: {
-                projectId: data.projectId as string,
-                projectName: data.projectName as string,
-                elementCount: data.totalElements as number,
-                totalCost:
-                  typeof data.totalCost === "number"
-                    ? data.totalCost
-                    : undefined,
-                timestamp: data.timestamp as string,
-              },
-            }));
-
-            return;
-          }
-        } catch (err) {
-          console.error("Error parsing WebSocket message:", err);
-        }
-      };
+    sendRequest({
+      type: "get_available_ebkp_codes",
+      timestamp: new Date().toISOString(),
+    })
+      .then((response) => {
+        console.log(
+          "Received available eBKP codes from server:",
+          response.codes
+        );
 
-      ws.onerror = (event) => {
-        console.error("WebSocket error in KafkaContext:", event);
-        setConnectionStatus("DISCONNECTED");
-      };
+        // Transform the codes into our EbkpCodeInfo format
+        setAvailableEbkpCodes(
+          (response.codes || []).map((code) => ({
+            code,
+            type: code.split(".")[0], // Extract main type like C1, C2, etc.
+          }))
+        );
+      })
+      .catch((error) => {
+        console.error("Error requesting eBKP codes:", error);
+      });
+  }, [status]);
 
-      ws.onclose = (event) => {
+  // Handle project update notifications
+  useEffect(
+    () =>
+      onMessage("project_update", (data) => {
         console.log(
-          `WebSocket connection closed in KafkaContext: code=${
-            event.code
-          }, reason=${event.reason || "No reason"}`
+          "KafkaContext: Received project update notification:",
+          data
         );
-        setConnectionStatus("DISCONNECTED");
-      };
 
-      // Clean up on unmount
-      return () => {
-        clearTimeout(timeoutId);
-        if (ws) {
-          ws.close();
-        }
-      };
-    } catch (error) {
-      console.error("Failed to initialize WebSocket in KafkaContext:", error);
-      setConnectionStatus("DISCONNECTED");
-      return () => {}; // Empty cleanup function
-    }
-  }, [messageHandlers]); // Add messageHandlers as a dependency
+        // Store project update information
+        setProjectUpdates((prev) => ({
+          ...prev,
+          [data.projectName]: {
+            projectId: data.projectId,
+            projectName: data.projectName,
+            elementCount: data.totalElements,
+            totalCost: data.totalCost,
+            timestamp: data.timestamp,
+            changeReport: data.changeReport,
+          },
+        }));
+      }),
+    []
+  );
 
   // Send cost update to Kafka via WebSocket server
   const sendCostUpdate = async (
@@ -415,56 +321,6 @@ export const KafkaProvider: React.FC<KafkaProviderProps> = ({ children }) => {
     }
   };
 
-  // Function to send a message via WebSocket
-  const sendMessage = (message: string): void => {
-    if (!websocket || websocket.readyState !== WebSocket.OPEN) {
-      console.error("Cannot send message: WebSocket is not connected");
-      throw new Error("WebSocket is not connected");
-    }
-
-    try {
-      websocket.send(message);
-
-      // Check if the message has a messageId
-      const parsedMessage = JSON.parse(message);
-      if (parsedMessage.messageId) {
-        console.log(`Sent message with ID: ${parsedMessage.messageId}`);
-      }
-    } catch (error) {
-      console.error("Error sending WebSocket message:", error);
-      throw error;
-    }
-  };
-
-  // Function to register a message handler for a specific messageId
-  const registerMessageHandler = (
-    messageId: string,
-    handler: (data: Record<string, unknown>) => void
-  ): void => {
-    messageHandlers[messageId] = handler;
-    console.log(`Registered handler for message ID: ${messageId}`);
-  };
-
-  // Function to request available eBKP codes from the server
-  const requestAvailableEbkpCodes = (ws: WebSocket | null) => {
-    if (!ws || ws.readyState !== WebSocket.OPEN) {
-      console.error("Cannot request eBKP codes: WebSocket is not connected");
-      return;
-    }
-
-    try {
-      const message = {
-        type: "get_available_ebkp_codes",
-        timestamp: new Date().toISOString(),
-        messageId: `ebkp_codes_${Date.now()}`,
-      };
-      ws.send(JSON.stringify(message));
-      console.log("Requested available eBKP codes from server");
-    } catch (error) {
-      console.error("Error requesting eBKP codes:", error);
-    }
-  };
-
   // Function to match codes with available eBKP codes
   const matchCodes = (codes: string[]): EbkpCodeInfo[] => {
     if (!codes || !codes.length || !availableEbkpCodes.length) {
@@ -548,11 +404,29 @@ export const KafkaProvider: React.FC<KafkaProviderProps> = ({ children }) => {
               ).toString()
             );
 
+            // Volume and length for rows measured in m³ or m
+            const volume = parseFloat(
+              (
+                (element.volume as string) ||
+                (properties?.volume as string) ||
+                0
+              ).toString()
+            );
+            const length = parseFloat(
+              (
+                (element.length as string) ||
+                (properties?.length as string) ||
+                0
+              ).toString()
+            );
+
             return {
               id: (element._id as string) || (element.id as string) || "",
               ebkpCode: ebkpCode.toUpperCase().trim(),
               quantity: quantity,
               area: quantity, // Use same value for area
+              volume: volume || 0,
+              length: length || 0,
               description: properties?.description || "",
               category:
                 (element.category as string) || properties?.category || "",
@@ -706,6 +580,35 @@ export const KafkaProvider: React.FC<KafkaProviderProps> = ({ children }) => {
     [projectDataCache]
   );
 
+  // Function to load the manual eBKP matching overrides of a project
+  const getMatchingOverrides = useCallback(
+    (projectName: string): Promise<MatchingOverride[]> =>
+      sendRequest(
+        { type: "get_matching_overrides", payload: { projectName } },
+        5000
+      )
+        .then((response) => response.overrides || [])
+        .catch((error) => {
+          // Continue with automatic matching if the server doesn't answer
+          console.warn("Could not load matching overrides:", error);
+          return [];
+        }),
+    []
+  );
+
+  // Function to replace the manual eBKP matching overrides of a project
+  const saveMatchingOverrides = useCallback(
+    (projectName: string, overrides: MatchingOverride[]): Promise<void> =>
+      sendRequest(
+        {
+          type: "save_matching_overrides",
+          payload: { projectName, overrides },
+        },
+        10000
+      ).then(() => undefined),
+    []
+  );
+
   return (
     <KafkaContext.Provider
       value={{
@@ -718,13 +621,13 @@ export const KafkaProvider: React.FC<KafkaProviderProps> = ({ children }) => {
         formatTimestamp,
         mongoGetElements: () => Promise.resolve([]),
         mongoProjectCost: () => Promise.resolve(0),
-        sendMessage,
-        registerMessageHandler,
         availableEbkpCodes,
         matchCodes,
         getProjectElements,
         getElementsForEbkp,
         getCachedProjectData,
+        getMatchingOverrides,
+        saveMatchingOverrides,
       }}
     >
       {children}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import {
+  ConnectionStatus,
+  getConnectionStatus,
+  initWebSocket,
+  onMessage,
+  onStatusChange,
+  sendRequest,
+} from "../utils/websocket";
+
+// Access to the shared WebSocket connection, connecting on first use
+export const useWebSocket = () => {
+  const [status, setStatus] = useState<ConnectionStatus>(getConnectionStatus);
+
+  useEffect(() => {
+    // Failed attempts are retried by the connection manager
+    initWebSocket().catch((error) => {
+      console.warn("WebSocket connection not available yet:", error);
+    });
+
+    return onStatusChange(setStatus);
+  }, []);
+
+  return {
+    status,
+    isConnected: status === ConnectionStatus.CONNECTED,
+    sendRequest,
+    onMessage,
+  };
+};
@@ -0,0 +1,509 @@
+import protocol from "../../socket-backend/protocol.json";
+import {
+  ColumnMapping,
+  ColumnMappingProfile,
+  CostItem,
+  CostItemElement,
+  CostItemElementSource,
+  MatchingOverride,
+  UnitCostReference,
+} from "../components/CostUploader/types";
+import {
+  CostPlanDiff,
+  CostPlanVersion,
+} from "../components/CostVersions/types";
+import { UnitCostCatalog } from "../components/UnitCostCatalogs/types";
+import {
+  PriceEscalation,
+  PriceIndex,
+  PriceIndexPoint,
+} from "../components/PriceIndex/types";
+import { CostSurcharge } from "../components/CostSurcharges/types";
+import { BudgetStatus, BudgetTarget } from "../components/BudgetTargets/types";
+import {
+  CostBenchmarks,
+  QtoReferenceQuantities,
+  ReferenceQuantities,
+} from "../components/ReferenceQuantities/types";
+import {
+  CostDashboard,
+  CostDashboardDimension,
+  CostDashboardElement,
+} from "../components/CostDashboard/types";
+import {
+  CostChangeReport,
+  CostChangeReportSummary,
+} from "../components/CostChangeReports/types";
+
+// WebSocket protocol shared with the backend (socket-backend/protocol.json)
+export const PROTOCOL_VERSION: number = protocol.version;
+
+// Requests sent by the frontend
+export type RequestMessage =
+  | { type: "ping" }
+  | {
+      type: "get_available_ebkp_codes";
+      timestamp?: string;
+      // Without a project only the model codes are listed
+      payload?: { projectName?: string };
+    }
+  | { type: "request_code_matching"; projectName: string; codes: string[] }
+  | { type: "delete_project_data"; payload: { projectName: string } }
+  | {
+      type: "save_excel_data";
+      payload: {
+        projectName: string;
+        excelItems: CostItem[];
+        replaceExisting?: boolean;
+      };
+    }
+  | {
+      type: "save_cost_batch";
+      payload: { projectName: string; costItems: CostItem[] };
+    }
+  | {
+      type: "save_cost_batch_full";
+      payload: {
+        projectName: string;
+        fileName?: string;
+        uploadedBy?: string;
+        matchedItems: CostItem[];
+        allExcelItems: CostItem[];
+      };
+    }
+  | {
+      type: "save_cost_batch_chunk";
+      payload: {
+        projectName: string;
+        uploadId: string;
+        chunkIndex: number;
+        totalChunks: number;
+        matchedItems: CostItem[];
+        allExcelItems: CostItem[];
+      };
+    }
+  | {
+      type: "commit_cost_batch_upload";
+      payload: {
+        projectName: string;
+        uploadId: string;
+        fileName?: string;
+        uploadedBy?: string;
+      };
+    }
+  | { type: "get_column_profiles"; payload: { projectName: string } }
+  | {
+      type: "save_column_profile";
+      payload: {
+        projectName: string;
+        profile: { name: string; mapping: ColumnMapping };
+      };
+    }
+  | { type: "get_matching_overrides"; payload: { projectName: string } }
+  | {
+      type: "save_matching_overrides";
+      payload: { projectName: string; overrides: MatchingOverride[] };
+    }
+  | { type: "get_unit_cost_catalogs"; payload: { projectName: string } }
+  | {
+      type: "save_unit_cost_catalog";
+      payload: { projectName: string; catalogName: string };
+    }
+  | {
+      type: "set_reference_catalog";
+      payload: { projectName: string; catalogName: string | null };
+    }
+  | { type: "get_unit_cost_library"; payload: { projectName: string } }
+  | {
+      type: "set_reference_project";
+      payload: { projectName: string; isReference: boolean };
+    }
+  | { type: "get_price_indices"; payload: { projectName: string } }
+  | {
+      type: "save_price_index";
+      payload: { indexName: string; points: PriceIndexPoint[] };
+    }
+  | {
+      type: "set_price_escalation";
+      payload: {
+        projectName: string;
+        // Without an escalation the Kennwerte are used as uploaded
+        escalation: {
+          indexName: string;
+          baseDate: string;
+          targetDate: string;
+        } | null;
+      };
+    }
+  | { type: "get_cost_surcharges"; payload: { projectName: string } }
+  | {
+      type: "save_cost_surcharges";
+      payload: { projectName: string; surcharges: CostSurcharge[] };
+    }
+  | { type: "get_budget_targets"; payload: { projectName: string } }
+  | {
+      type: "save_budget_targets";
+      payload: { projectName: string; targets: BudgetTarget[] };
+    }
+  | { type: "get_reference_quantities"; payload: { projectName: string } }
+  | {
+      type: "save_reference_quantities";
+      payload: {
+        projectName: string;
+        referenceQuantities: ReferenceQuantities;
+      };
+    }
+  | { type: "get_cost_dashboard"; payload: { projectName: string } }
+  | {
+      type: "get_cost_dashboard_elements";
+      payload: {
+        projectName: string;
+        dimension: CostDashboardDimension;
+        key: string;
+      };
+    }
+  | {
+      type: "get_cost_item_elements";
+      payload: { projectName: string; ebkpCode: string };
+    }
+  | { type: "get_cost_change_reports"; payload: { projectName: string } }
+  | { type: "get_cost_plan_versions"; payload: { projectName: string } }
+  | {
+      type: "get_cost_plan_diff";
+      payload: {
+        projectName: string;
+        baseVersionId: string;
+        compareVersionId: string;
+      };
+    }
+  | {
+      type: "restore_cost_plan_version";
+      payload: { projectName: string; versionId: string };
+    };
+
+export type RequestType = RequestMessage["type"];
+
+// Fields shared by all responses
+interface ResponseBase {
+  messageId?: string;
+  status?: "success" | "error";
+  message?: string;
+  // Error code, e.g. PROTOCOL_VERSION_MISMATCH
+  code?: string;
+  protocolVersion?: number;
+}
+
+// Result of saving a confirmed cost batch, counts what replaced the previous
+// data of the project
+interface CostBatchResult {
+  batchId: string;
+  projectId: string;
+  costDataSaved: number;
+  costDataRemoved: number;
+  costElementsSaved: number;
+  costElementsRemoved: number;
+  qtoElementsUpdated: number;
+  totalCost: number;
+  version?: CostPlanVersion;
+}
+
+// Responses sent by the backend for each request
+export type ResponseMessage = ResponseBase &
+  (
+    | { type: "pong" }
+    | { type: "available_ebkp_codes"; codes: string[]; error?: string }
+    | {
+        type: "code_matching_info";
+        matchingCodes: unknown[];
+        matches: unknown[];
+        matchCount: number;
+      }
+    | { type: "delete_project_data_response"; deletedCount?: number }
+    | { type: "save_excel_data_response"; insertedCount?: number }
+    | { type: "save_cost_batch_response"; insertedCount?: number }
+    | {
+        type: "save_cost_batch_full_response";
+        result?: CostBatchResult;
+      }
+    | {
+        type: "save_cost_batch_chunk_response";
+        uploadId?: string;
+        receivedChunks?: number[];
+        totalChunks?: number;
+      }
+    | {
+        type: "commit_cost_batch_upload_response";
+        result?: CostBatchResult;
+        missingChunks?: number[];
+      }
+    | {
+        type: "get_column_profiles_response";
+        profiles?: ColumnMappingProfile[];
+      }
+    | { type: "save_column_profile_response"; profile?: ColumnMappingProfile }
+    | {
+        type: "get_matching_overrides_response";
+        overrides?: MatchingOverride[];
+      }
+    | { type: "save_matching_overrides_response"; savedCount?: number }
+    | {
+        type: "get_unit_cost_catalogs_response";
+        catalogs?: UnitCostCatalog[];
+        referenceCatalog?: string | null;
+      }
+    | { type: "save_unit_cost_catalog_response"; catalog?: UnitCostCatalog }
+    | {
+        type: "set_reference_catalog_response";
+        referenceCatalog?: string | null;
+      }
+    | {
+        type: "get_unit_cost_library_response";
+        library?: UnitCostReference[];
+        referenceProjects?: string[];
+        isReference?: boolean;
+      }
+    | { type: "set_reference_project_response"; isReference?: boolean }
+    | {
+        type: "get_price_indices_response";
+        indices?: PriceIndex[];
+        escalation?: PriceEscalation | null;
+      }
+    | { type: "save_price_index_response"; index?: PriceIndex }
+    | {
+        type: "set_price_escalation_response";
+        escalation?: PriceEscalation | null;
+      }
+    | { type: "get_cost_surcharges_response"; surcharges?: CostSurcharge[] }
+    | { type: "save_cost_surcharges_response"; surcharges?: CostSurcharge[] }
+    | { type: "get_budget_targets_response"; targets?: BudgetTarget[] }
+    | {
+        type: "save_budget_targets_response";
+        targets?: BudgetTarget[];
+        budgetStatus?: BudgetStatus[];
+      }
+    | {
+        type: "get_reference_quantities_response";
+        referenceQuantities?: ReferenceQuantities;
+        qtoQuantities?: QtoReferenceQuantities;
+      }
+    | {
+        type: "save_reference_quantities_response";
+        referenceQuantities?: ReferenceQuantities;
+        benchmarks?: CostBenchmarks | null;
+      }
+    | { type: "get_cost_dashboard_response"; dashboard?: CostDashboard }
+    | {
+        type: "get_cost_dashboard_elements_response";
+        elements?: CostDashboardElement[];
+      }
+    | {
+        type: "get_cost_item_elements_response";
+        source?: CostItemElementSource;
+        elements?: CostItemElement[];
+      }
+    | {
+        type: "get_cost_change_reports_response";
+        reports?: CostChangeReport[];
+      }
+    | { type: "get_cost_plan_versions_response"; versions?: CostPlanVersion[] }
+    | { type: "get_cost_plan_diff_response"; diff?: CostPlanDiff }
+    | {
+        type: "restore_cost_plan_version_response";
+        result?: { version: CostPlanVersion };
+      }
+  );
+
+export type ResponseType = ResponseMessage["type"];
+
+export type ResponseOf<T extends ResponseType> = Extract<
+  ResponseMessage,
+  { type: T }
+>;
+
+// Response type of each request, mirrors protocol.json
+interface ResponseTypeMap {
+  ping: "pong";
+  get_available_ebkp_codes: "available_ebkp_codes";
+  request_code_matching: "code_matching_info";
+  delete_project_data: "delete_project_data_response";
+  save_excel_data: "save_excel_data_response";
+  save_cost_batch: "save_cost_batch_response";
+  save_cost_batch_full: "save_cost_batch_full_response";
+  save_cost_batch_chunk: "save_cost_batch_chunk_response";
+  commit_cost_batch_upload: "commit_cost_batch_upload_response";
+  get_column_profiles: "get_column_profiles_response";
+  save_column_profile: "save_column_profile_response";
+  get_matching_overrides: "get_matching_overrides_response";
+  save_matching_overrides: "save_matching_overrides_response";
+  get_unit_cost_catalogs: "get_unit_cost_catalogs_response";
+  save_unit_cost_catalog: "save_unit_cost_catalog_response";
+  set_reference_catalog: "set_reference_catalog_response";
+  get_unit_cost_library: "get_unit_cost_library_response";
+  set_reference_project: "set_reference_project_response";
+  get_price_indices: "get_price_indices_response";
+  save_price_index: "save_price_index_response";
+  set_price_escalation: "set_price_escalation_response";
+  get_cost_surcharges: "get_cost_surcharges_response";
+  save_cost_surcharges: "save_cost_surcharges_response";
+  get_budget_targets: "get_budget_targets_response";
+  save_budget_targets: "save_budget_targets_response";
+  get_reference_quantities: "get_reference_quantities_response";
+  save_reference_quantities: "save_reference_quantities_response";
+  get_cost_dashboard: "get_cost_dashboard_response";
+  get_cost_dashboard_elements: "get_cost_dashboard_elements_response";
+  get_cost_item_elements: "get_cost_item_elements_response";
+  get_cost_change_reports: "get_cost_change_reports_response";
+  get_cost_plan_versions: "get_cost_plan_versions_response";
+  get_cost_plan_diff: "get_cost_plan_diff_response";
+  restore_cost_plan_version: "restore_cost_plan_version_response";
+}
+
+export type ResponseFor<T extends RequestType> = ResponseOf<ResponseTypeMap[T]>;
+
+// Messages the backend broadcasts to all clients
+export type BroadcastMessage =
+  | { type: "kafka_status"; status: string; error?: string }
+  | {
+      type: "project_update";
+      projectId: string;
+      projectName: string;
+      totalElements: number;
+      elementsWithCost?: number;
+      totalCost?: number;
+      timestamp: string;
+      changeReport?: CostChangeReportSummary | null;
+    }
+  | {
+      type: "budget_exceeded";
+      projectId: string;
+      projectName: string;
+      exceeded: BudgetStatus[];
+      totalGross: number;
+      timestamp: string;
+    };
+
+export type ServerMessage = ResponseMessage | BroadcastMessage;
+
+export type ServerMessageType = ServerMessage["type"];
+
+export type ServerMessageOf<T extends ServerMessageType> = Extract<
+  ServerMessage,
+  { type: T }
+>;
+
+// Response type of each request; fails to compile if a request type is
+// missing from protocol.json
+const REQUEST_DEFINITIONS: Record<
+  RequestType,
+  {
+    response: string;
+    required: string[];
+    fields: Record<string, string>;
+    responseFields: Record<string, string>;
+  }
+> = protocol.requests;
+
+// Field types of each response by response type
+const RESPONSE_FIELDS = new Map(
+  Object.values(REQUEST_DEFINITIONS).map((definition) => [
+    definition.response,
+    definition.responseFields,
+  ])
+);
+
+// Field types shared by all responses
+const RESPONSE_BASE_FIELDS: Record<string, string> = {
+  messageId: "string",
+  status: "string",
+  message: "string",
+  code: "string",
+};
+
+// Protocol type of a value: string, number, boolean, array, object or null
+const getValueType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isFinite(value) ? "number" : "";
+  return typeof value;
+};
+
+// Fields of a response whose values don't have the type protocol.json
+// declares; missing and null fields are fine, all response fields are optional
+const findInvalidFields = (
+  data: Record<string, unknown>,
+  fieldTypes: Record<string, string>
+): string[] =>
+  Object.entries(fieldTypes)
+    .filter(
+      ([field, type]) =>
+        data[field] !== undefined &&
+        data[field] !== null &&
+        getValueType(data[field]) !== type
+    )
+    .map(([field]) => field);
+
+// Serialize a request for the WebSocket, stamped with the protocol version
+export const createRequest = (
+  request: RequestMessage & { messageId?: string }
+): string => JSON.stringify({ ...request, protocolVersion: PROTOCOL_VERSION });
+
+// Parse a message from the backend. Responses from a server speaking another
+// protocol version, or with fields of the wrong type, are turned into errors
+// so callers surface them instead of casting them to ResponseTypeMap.
+export const parseServerMessage = (raw: string): Record<string, unknown> => {
+  const parsed: unknown = JSON.parse(raw);
+  if (getValueType(parsed) !== "object") {
+    throw new Error("Invalid message: expected an object");
+  }
+  const data = parsed as Record<string, unknown>;
+
+  const responseFields =
+    typeof data.type === "string" ? RESPONSE_FIELDS.get(data.type) : undefined;
+  if (!responseFields) return data;
+
+  if (
+    data.protocolVersion !== PROTOCOL_VERSION &&
+    data.code !== "PROTOCOL_VERSION_MISMATCH"
+  ) {
+    return {
+      ...data,
+      status: "error",
+      code: "PROTOCOL_VERSION_MISMATCH",
+      message: `Protokollversion stimmt nicht überein: Client ${PROTOCOL_VERSION}, Server ${
+        data.protocolVersion ?? "unbekannt"
+      }. Bitte Seite neu laden.`,
+    };
+  }
+
+  const invalid = findInvalidFields(data, {
+    ...RESPONSE_BASE_FIELDS,
+    ...responseFields,
+  });
+  if (
+    invalid.length > 0 ||
+    (data.status !== undefined &&
+      data.status !== "success" &&
+      data.status !== "error")
+  ) {
+    // Drop the fields of the wrong type so no caller reads them
+    const valid = Object.fromEntries(
+      Object.entries(data).filter(([field]) => !invalid.includes(field))
+    );
+    return {
+      ...valid,
+      status: "error",
+      code: "INVALID_RESPONSE",
+      message: `Ungültige Antwort vom Server (${data.type}): ${
+        invalid.length > 0 ? invalid.join(", ") : "status"
+      }`,
+    };
+  }
+
+  return data;
+};
+
+// Narrow a parsed server message to the response of the given type
+export const isResponse = <T extends ResponseType>(
+  data: Record<string, unknown>,
+  type: T
+): data is Record<string, unknown> & ResponseOf<T> => data.type === type;
@@ -1,16 +1,39 @@
 /**
- * WebSocket utility for plugin-cost
- * Provides a robust WebSocket connection with automatic reconnection
+ * WebSocket connection manager for plugin-cost
+ * Shares one connection between all components, correlates responses by
+ * messageId, reconnects with backoff and queues saves while offline
  */
+import {
+  createRequest,
+  parseServerMessage,
+  RequestMessage,
+  RequestType,
+  ResponseFor,
+  ServerMessageOf,
+  ServerMessageType,
+} from "./protocol";
 
 // Configurable options
 const WS_OPTIONS = {
-  reconnectInterval: 2000,
-  maxReconnectAttempts: 5,
+  reconnectInterval: 1000,
+  maxReconnectInterval: 30000,
   pingInterval: 30000,
   messageTimeout: 30000,
 };
 
+// Requests that wait for the connection to come back instead of failing.
+// Only saves that can be repeated are queued: a queued delete could run after
+// newer data was saved.
+const OFFLINE_QUEUE_TYPES: RequestType[] = [
+  "save_excel_data",
+  "save_cost_batch",
+  "save_cost_batch_full",
+  "save_cost_batch_chunk",
+  "commit_cost_batch_upload",
+  "save_column_profile",
+  "save_matching_overrides",
+];
+
 // Connection status enum
 export enum ConnectionStatus {
   CONNECTING = "CONNECTING",
@@ -21,212 +44,337 @@ export enum ConnectionStatus {
 
 // Shared WebSocket instance
 let globalWs: WebSocket | null = null;
+let currentUrl: string | null = null;
+let connectPromise: Promise<void> | null = null;
 let reconnectAttempts = 0;
+let reconnectTimeout: number | null = null;
 let pingInterval: number | null = null;
 let connectionStatus: ConnectionStatus = ConnectionStatus.DISCONNECTED;
 
 // Event handlers
-const messageHandlers: Record<string, ((data: unknown) => void)[]> = {};
+const messageHandlers: Record<
+  string,
+  ((data: Record<string, unknown>) => void)[]
+> = {};
 const statusChangeHandlers: ((status: ConnectionStatus) => void)[] = [];
 
+// Error response of the server to a request, with its error code if any and
+// the whole response for request-specific details
+export class RequestError extends Error {
+  code?: string;
+  response?: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    code?: string,
+    response?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "RequestError";
+    this.code = code;
+    this.response = response;
+  }
+}
+
+// Pending request tracking
+interface PendingRequest {
+  type: RequestType;
+  message: string;
+  timeout: number;
+  sent: boolean;
+  resolve: (data: Record<string, unknown>) => void;
+  reject: (reason: Error) => void;
+  timeoutId: number | null;
+}
+
+const pendingRequests: Record<string, PendingRequest> = {};
+
+// Message IDs of requests waiting for the connection, in send order
+let offlineQueue: string[] = [];
+
 /**
- * Initialize WebSocket connection
+ * Get the WebSocket URL from the host app or the environment
+ */
+export function getWebSocketUrl(): string {
+  const customWindow = window as { VITE_WEBSOCKET_URL?: string };
+  return (
+    customWindow.VITE_WEBSOCKET_URL ||
+    import.meta.env.VITE_WEBSOCKET_URL ||
+    "ws://localhost:8001"
+  );
+}
+
+/**
+ * Initialize the shared WebSocket connection
+ * Returns the current connection if one is open or connecting
  * @param url WebSocket URL
  */
-export function initWebSocket(url: string): Promise<void> {
-  // Clear any existing connections
+export function initWebSocket(url: string = getWebSocketUrl()): Promise<void> {
+  if (globalWs && currentUrl === url && connectPromise) {
+    return connectPromise;
+  }
+
+  // Clear any existing connection
   if (globalWs) {
-    cleanupWebSocket();
+    closeSocket();
   }
 
+  if (reconnectTimeout) {
+    clearTimeout(reconnectTimeout);
+    reconnectTimeout = null;
+  }
+
+  currentUrl = url;
   connectionStatus = ConnectionStatus.CONNECTING;
   notifyStatusChange();
 
-  return new Promise((resolve, reject) => {
-    try {
-      console.log("Initializing WebSocket connection to:", url);
+  connectPromise = new Promise((resolve, reject) => {
+    console.log("Initializing WebSocket connection to:", url);
 
-      globalWs = new WebSocket(url);
+    const ws = new WebSocket(url);
+    globalWs = ws;
 
-      globalWs.onopen = () => {
-        console.log("WebSocket connection established");
-        connectionStatus = ConnectionStatus.CONNECTED;
-        notifyStatusChange();
+    ws.onopen = () => {
+      console.log("WebSocket connection established");
+      connectionStatus = ConnectionStatus.CONNECTED;
+      notifyStatusChange();
 
-        // Reset reconnect attempts
-        reconnectAttempts = 0;
+      // Reset reconnect attempts
+      reconnectAttempts = 0;
 
-        // Start ping interval
-        startPingInterval();
+      startPingInterval();
+      flushOfflineQueue();
 
-        resolve();
-      };
+      resolve();
+    };
 
-      globalWs.onclose = (event) => {
-        console.log(
-          `WebSocket connection closed: ${event.code} ${event.reason}`
-        );
-        connectionStatus = ConnectionStatus.DISCONNECTED;
-        notifyStatusChange();
+    ws.onclose = (event) => {
+      // Ignore sockets that were replaced in the meantime
+      if (globalWs !== ws) return;
 
-        // Clear ping interval
-        if (pingInterval) {
-          clearInterval(pingInterval);
-          pingInterval = null;
-        }
+      console.log(`WebSocket connection closed: ${event.code} ${event.reason}`);
+      globalWs = null;
+      connectPromise = null;
+      connectionStatus = ConnectionStatus.DISCONNECTED;
+      notifyStatusChange();
+      stopPingInterval();
+
+      // Requests already sent will not get an answer on a new connection
+      rejectPendingRequests(
+        new Error("WebSocket connection closed"),
+        (request) => request.sent || !OFFLINE_QUEUE_TYPES.includes(request.type)
+      );
 
-        // Attempt to reconnect if not closing intentionally
-        if (event.code !== 1000 && event.code !== 1001) {
-          attemptReconnect(url);
-        }
-      };
+      // Attempt to reconnect if not closing intentionally
+      if (event.code !== 1000 && event.code !== 1001) {
+        scheduleReconnect();
+      }
+    };
 
-      globalWs.onerror = (error) => {
-        console.error("WebSocket error:", error);
+    ws.onerror = (error) => {
+      console.error("WebSocket error:", error);
+      if (globalWs === ws) {
         connectionStatus = ConnectionStatus.ERROR;
         notifyStatusChange();
+      }
+      reject(new Error("WebSocket connection failed"));
+    };
 
-        reject(error);
-      };
-
-      globalWs.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-
-          // Handle pong response
-          if (data.type === "pong") {
-            return;
-          }
-
-          // Dispatch to registered handlers
-          const handlers = messageHandlers[data.type] || [];
-          handlers.forEach((handler) => {
-            try {
-              handler(data);
-            } catch (error) {
-              console.error(
-                `Error in message handler for ${data.type}:`,
-                error
-              );
-            }
-          });
-
-          // Check for response correlations
-          if (data.messageId && pendingRequests[data.messageId]) {
-            const { resolve, reject, timeoutId } =
-              pendingRequests[data.messageId];
-
-            // Clear timeout
-            if (timeoutId) {
-              clearTimeout(timeoutId);
-            }
-
-            // Resolve or reject based on status
-            if (data.status === "success" || data.status === "ok") {
-              resolve(data);
-            } else {
-              reject(new Error(data.message || "Unknown error"));
-            }
-
-            // Remove from pending requests
-            delete pendingRequests[data.messageId];
-          }
-        } catch (error) {
-          console.error("Error parsing WebSocket message:", error);
-        }
-      };
-    } catch (error) {
-      console.error("Error initializing WebSocket:", error);
-      connectionStatus = ConnectionStatus.ERROR;
-      notifyStatusChange();
-      reject(error);
-    }
+    ws.onmessage = (event) => handleMessage(event.data);
   });
+
+  return connectPromise;
 }
 
 /**
- * Attempt to reconnect to WebSocket
+ * Schedule a reconnect with exponential backoff
  */
-function attemptReconnect(url: string) {
-  if (reconnectAttempts >= WS_OPTIONS.maxReconnectAttempts) {
-    console.error(
-      `Max reconnect attempts (${WS_OPTIONS.maxReconnectAttempts}) reached. Giving up.`
-    );
-    return;
-  }
+function scheduleReconnect() {
+  if (reconnectTimeout || !currentUrl) return;
 
+  const delay = Math.min(
+    WS_OPTIONS.reconnectInterval * 2 ** reconnectAttempts,
+    WS_OPTIONS.maxReconnectInterval
+  );
   reconnectAttempts++;
 
   console.log(
-    `Attempting to reconnect (${reconnectAttempts}/${WS_OPTIONS.maxReconnectAttempts})...`
+    `Attempting to reconnect in ${delay}ms (attempt ${reconnectAttempts})...`
   );
 
-  setTimeout(() => {
+  const url = currentUrl;
+  reconnectTimeout = window.setTimeout(() => {
+    reconnectTimeout = null;
     initWebSocket(url).catch((error) => {
       console.error("Reconnection attempt failed:", error);
     });
-  }, WS_OPTIONS.reconnectInterval);
+  }, delay);
 }
 
 /**
- * Clean up WebSocket connection
+ * Close the socket without triggering a reconnect
  */
-function cleanupWebSocket() {
-  if (globalWs) {
-    if (
-      globalWs.readyState === WebSocket.OPEN ||
-      globalWs.readyState === WebSocket.CONNECTING
-    ) {
-      globalWs.close(1000, "Intentional disconnect");
-    }
-    globalWs = null;
+function closeSocket() {
+  const ws = globalWs;
+  globalWs = null;
+  connectPromise = null;
+  stopPingInterval();
+
+  if (
+    ws &&
+    (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)
+  ) {
+    ws.close(1000, "Intentional disconnect");
   }
+}
 
-  if (pingInterval) {
-    clearInterval(pingInterval);
-    pingInterval = null;
+/**
+ * Dispatch a message from the server to subscribers and pending requests
+ */
+function handleMessage(raw: string) {
+  let data: Record<string, unknown>;
+  try {
+    data = parseServerMessage(raw);
+  } catch (error) {
+    console.error("Error parsing WebSocket message:", error);
+    return;
   }
 
-  // Clear all pending requests
-  Object.values(pendingRequests).forEach((request) => {
-    if (request.timeoutId) {
-      clearTimeout(request.timeoutId);
+  // Dispatch to subscribers of this message type
+  const handlers =
+    typeof data.type === "string" ? messageHandlers[data.type] || [] : [];
+  handlers.forEach((handler) => {
+    try {
+      handler(data);
+    } catch (error) {
+      console.error(`Error in message handler for ${data.type}:`, error);
     }
-    request.reject(new Error("WebSocket connection closed"));
   });
-  pendingRequests = {};
+
+  // Check for response correlations
+  const messageId = data.messageId;
+  if (typeof messageId !== "string" || !pendingRequests[messageId]) return;
+
+  const { resolve, reject, timeoutId } = pendingRequests[messageId];
+  if (timeoutId) {
+    clearTimeout(timeoutId);
+  }
+  delete pendingRequests[messageId];
+
+  if (data.status === "error") {
+    reject(
+      new RequestError(
+        String(data.message || "Unknown error"),
+        typeof data.code === "string" ? data.code : undefined,
+        data
+      )
+    );
+  } else {
+    resolve(data);
+  }
 }
 
 /**
  * Start ping interval to keep connection alive
  */
 function startPingInterval() {
-  if (pingInterval) {
-    clearInterval(pingInterval);
-  }
+  stopPingInterval();
 
   pingInterval = window.setInterval(() => {
     if (globalWs && globalWs.readyState === WebSocket.OPEN) {
-      globalWs.send(JSON.stringify({ type: "ping" }));
+      globalWs.send(createRequest({ type: "ping" }));
     }
   }, WS_OPTIONS.pingInterval);
 }
 
+function stopPingInterval() {
+  if (pingInterval) {
+    clearInterval(pingInterval);
+    pingInterval = null;
+  }
+}
+
+/**
+ * Send a pending request over the open connection and start its timeout
+ */
+function transmit(messageId: string) {
+  const request = pendingRequests[messageId];
+  if (!request || !globalWs) return;
+
+  request.sent = true;
+  request.timeoutId = window.setTimeout(() => {
+    if (pendingRequests[messageId]) {
+      delete pendingRequests[messageId];
+      request.reject(
+        new Error(
+          `Request ${request.type} timed out after ${request.timeout}ms`
+        )
+      );
+    }
+  }, request.timeout);
+
+  try {
+    globalWs.send(request.message);
+  } catch (error) {
+    clearTimeout(request.timeoutId);
+    delete pendingRequests[messageId];
+    request.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Send the requests queued while the connection was down
+ */
+function flushOfflineQueue() {
+  const queued = offlineQueue;
+  offlineQueue = [];
+
+  if (queued.length > 0) {
+    console.log(`Sending ${queued.length} queued requests`);
+  }
+  queued.forEach(transmit);
+}
+
+/**
+ * Reject pending requests matching the filter
+ */
+function rejectPendingRequests(
+  error: Error,
+  filter: (request: PendingRequest) => boolean = () => true
+) {
+  Object.entries(pendingRequests).forEach(([messageId, request]) => {
+    if (!filter(request)) return;
+
+    if (request.timeoutId) {
+      clearTimeout(request.timeoutId);
+    }
+    delete pendingRequests[messageId];
+    request.reject(error);
+  });
+
+  offlineQueue = offlineQueue.filter((messageId) => pendingRequests[messageId]);
+}
+
 /**
- * Register a message handler
+ * Subscribe to messages of a type, including server broadcasts
  * @param type Message type
  * @param handler Handler function
  */
-export function onMessage(type: string, handler: (data: unknown) => void) {
+export function onMessage<T extends ServerMessageType>(
+  type: T,
+  handler: (data: ServerMessageOf<T>) => void
+): () => void {
+  const wrapped = (data: Record<string, unknown>) =>
+    handler(data as unknown as ServerMessageOf<T>);
+
   if (!messageHandlers[type]) {
     messageHandlers[type] = [];
   }
-
-  messageHandlers[type].push(handler);
+  messageHandlers[type].push(wrapped);
 
   // Return unsubscribe function
   return () => {
-    const index = messageHandlers[type].indexOf(handler);
+    const index = messageHandlers[type].indexOf(wrapped);
     if (index !== -1) {
       messageHandlers[type].splice(index, 1);
     }
@@ -265,96 +413,56 @@ function notifyStatusChange() {
   });
 }
 
-// Pending request tracking
-interface PendingRequest {
-  resolve: (value: unknown) => void;
-  reject: (reason: unknown) => void;
-  timeoutId: number | null;
-}
-
-let pendingRequests: Record<string, PendingRequest> = {};
-
 /**
- * Send a request to the WebSocket server and wait for a response
- * @param type Request type
- * @param data Request data
- * @param timeout Request timeout in ms
+ * Send a request to the WebSocket server and wait for its response
+ * Requests wait while the connection is being established; saves also wait
+ * while it is down and are sent in order once it is back
+ * @param request Request message
+ * @param timeout Response timeout in ms, counted from sending
  */
-export function sendRequest(
-  type: string,
-  data: unknown = {},
+export function sendRequest<R extends RequestMessage>(
+  request: R,
   timeout: number = WS_OPTIONS.messageTimeout
-): Promise<unknown> {
-  if (!globalWs || globalWs.readyState !== WebSocket.OPEN) {
+): Promise<ResponseFor<R["type"]>> {
+  const canQueue =
+    connectionStatus === ConnectionStatus.CONNECTING ||
+    OFFLINE_QUEUE_TYPES.includes(request.type);
+
+  if (!isConnected() && !canQueue) {
     return Promise.reject(new Error("WebSocket not connected"));
   }
 
-  // Store a reference to globalWs to ensure it's not null within the Promise scope
-  const ws = globalWs;
+  // Generate a unique message ID
+  const messageId = `${request.type}_${Date.now()}${Math.random()
+    .toString(36)
+    .substring(2, 7)}`;
 
   return new Promise((resolve, reject) => {
-    // Generate a unique message ID
-    const messageId = `${type}_${Date.now()}_${Math.random()
-      .toString(36)
-      .substring(2, 10)}`;
-
-    // Create the message
-    const baseMessage = {
-      type,
-      messageId,
-    };
-
-    // Conditionally add data properties if data is an object
-    const messageToSend =
-      typeof data === "object" && data !== null
-        ? { ...baseMessage, ...data }
-        : baseMessage;
-
-    // Set up timeout
-    const timeoutId = window.setTimeout(() => {
-      if (pendingRequests[messageId]) {
-        delete pendingRequests[messageId];
-        reject(new Error(`Request timed out after ${timeout}ms`));
-      }
-    }, timeout);
-
-    // Store the pending request
     pendingRequests[messageId] = {
-      resolve,
+      type: request.type,
+      message: createRequest({ ...request, messageId }),
+      timeout,
+      sent: false,
+      resolve: (data) => resolve(data as unknown as ResponseFor<R["type"]>),
       reject,
-      timeoutId,
+      timeoutId: null,
     };
 
-    // Send the message
-    if (ws) {
-      try {
-        ws.send(JSON.stringify(messageToSend));
-      } catch (error) {
-        if (timeoutId) {
-          clearTimeout(timeoutId);
-        }
-        delete pendingRequests[messageId];
-        reject(error);
-      }
+    if (isConnected()) {
+      transmit(messageId);
+      return;
     }
-  });
-}
-
-/**
- * Send cost data to the server
- * @param costData Cost data to send
- */
-export function sendCostData(costData: unknown): Promise<unknown> {
-  console.log("Sending cost data:", costData);
 
-  return sendRequest("cost_data", { data: costData }, 60000); // Longer timeout for cost data
-}
+    console.log(`Queued ${request.type} until the connection is available`);
+    offlineQueue.push(messageId);
 
-/**
- * Request code matching information
- */
-export function requestCodeMatching(): Promise<unknown> {
-  return sendRequest("request_code_matching", {}, 30000);
+    // Connect right away instead of waiting for the next backoff step
+    if (!globalWs) {
+      initWebSocket(currentUrl || getWebSocketUrl()).catch((error) => {
+        console.error("Connection attempt failed:", error);
+      });
+    }
+  });
 }
 
 /**
@@ -372,19 +480,18 @@ export function getConnectionStatus(): ConnectionStatus {
 }
 
 /**
- * Close the WebSocket connection
+ * Close the WebSocket connection and drop all pending requests
  */
-export function closeConnection(
-  code: number = 1000,
-  reason: string = "User initiated close"
-): void {
-  if (
-    globalWs &&
-    (globalWs.readyState === WebSocket.OPEN ||
-      globalWs.readyState === WebSocket.CONNECTING)
-  ) {
-    globalWs.close(code, reason);
+export function closeConnection(): void {
+  if (reconnectTimeout) {
+    clearTimeout(reconnectTimeout);
+    reconnectTimeout = null;
   }
 
-  cleanupWebSocket();
+  closeSocket();
+  currentUrl = null;
+  rejectPendingRequests(new Error("WebSocket connection closed"));
+
+  connectionStatus = ConnectionStatus.DISCONNECTED;
+  notifyStatusChange();
 }